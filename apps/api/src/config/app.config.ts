@@ -4,7 +4,7 @@
  */
 
 import type { StringValue } from 'ms';
-import { StreamingProvider } from '@nx-mono-repo-deployment-test/shared';
+import { StreamingProvider, TmdbCacheEndpointType, isStreamingProvider } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Application configuration interface
@@ -15,31 +15,88 @@ export interface AppConfig {
   nodeEnv: string;
   apiVersion: string;
   corsOrigin: string[];
+  trustProxy: boolean | number | string[]; // Express 'trust proxy': hop count or trusted addresses/subnets
 
   // JWT
   jwt: {
     secret: string;
     refreshSecret: string;
+    challengeSecret: string; // signs short-lived two-factor login challenges
     accessTokenExpiry: StringValue;
     refreshTokenExpiry: StringValue;
   };
 
+  // Account tokens
+  auth: {
+    passwordResetTtl: number; // seconds a password reset link stays valid
+    emailVerificationTtl: number; // seconds an email verification link stays valid
+    requireVerifiedEmailForSubscription: boolean;
+    twoFactor: {
+      issuer: string; // shown in authenticator apps
+      challengeExpiry: StringValue;
+      requiredForAdmins: boolean;
+    };
+    lockout: {
+      store: 'memory' | 'postgres'; // where failed attempt counters are kept
+      window: number; // seconds without a failure after which counters reset
+      freeAttempts: number; // failures per account before backoff starts
+      ipFreeAttempts: number; // failures per IP before backoff starts
+      backoffBase: number; // seconds of the first backoff, doubled per further failure
+      backoffMax: number; // seconds
+      threshold: number; // account failures that lock the account
+      duration: number; // seconds an account stays locked
+    };
+  };
+
+  // Outgoing email
+  mail: {
+    transport: 'file' | 'smtp';
+    from: string;
+    appUrl: string; // web app base URL used to build links in emails
+    fileDir: string; // where the file transport writes messages
+    smtp: {
+      host?: string;
+      port: number;
+      secure: boolean; // implicit TLS; otherwise STARTTLS is used when offered
+      user?: string;
+      pass?: string;
+    };
+  };
+
   // Stripe
   stripe: {
     secretKey: string;
     webhookSecret?: string;
     apiVersion: string;
+    checkout: {
+      successUrl: string; // may contain {CHECKOUT_SESSION_ID}
+      cancelUrl: string;
+    };
+    portalReturnUrl: string; // where the billing portal's back link leads
   };
 
   // TMDB
   tmdb: {
     apiKey: string;
     baseUrl: string;
+    cache: {
+      store: 'memory' | 'postgres';
+      maxEntries: number;
+      ttl: Record<TmdbCacheEndpointType, number>; // seconds
+    };
   };
 
   // Streaming APIs
   streaming: {
-    provider: StreamingProvider;
+    providers: StreamingProvider[]; // Ordered fallback chain
+    defaultRegion: string; // ISO 3166-1 alpha-2, used when no region can be resolved
+    linksTtl: number; // seconds before stored movie links are considered stale
+    failureBackoff: number; // seconds before retrying a region no provider answered, doubled per failure
+    refreshJob: {
+      enabled: boolean;
+      intervalMinutes: number;
+      batchSize: number;
+    };
     tmdb?: {
       apiKey: string;
       baseUrl: string;
@@ -58,6 +115,32 @@ export interface AppConfig {
     };
   };
 
+  // Playback progress sync
+  playback: {
+    progressThrottleSeconds: number; // minimum seconds between progress writes per title
+    completionThreshold: number; // fraction of duration after which a title counts as watched
+  };
+
+  // AI subtitle translation
+  translation: {
+    provider: 'stub' | 'google';
+    batchSize: number; // cues per translator request
+    google?: {
+      apiKey?: string;
+      baseUrl?: string;
+    };
+  };
+
+  // Account deletion (GDPR)
+  accountDeletion: {
+    graceDays: number; // days between a deletion request and the purge of personal data
+    purgeJob: {
+      enabled: boolean;
+      intervalMinutes: number;
+      batchSize: number;
+    };
+  };
+
   // Database
   database: {
     host: string;
@@ -80,13 +163,65 @@ function loadConfig(): AppConfig {
   const corsOrigin = process.env.CORS_ORIGIN 
     ? process.env.CORS_ORIGIN.split(',').map(origin => origin.trim())
     : ['*'];
+  // TRUST_PROXY is a hop count (e.g. 1 behind nginx), true/false, or a comma-separated list of addresses/subnets
+  const trustProxyEnv = process.env.TRUST_PROXY?.trim();
+  const trustProxy = !trustProxyEnv || trustProxyEnv === 'false'
+    ? false
+    : trustProxyEnv === 'true'
+      ? true
+      : /^\d+$/.test(trustProxyEnv)
+        ? parseInt(trustProxyEnv, 10)
+        : trustProxyEnv.split(',').map(entry => entry.trim());
 
   // JWT configuration
   const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
   const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-change-in-production';
+  const jwtChallengeSecret = process.env.JWT_CHALLENGE_SECRET || 'your-challenge-secret-key-change-in-production';
   const accessTokenExpiry = (process.env.JWT_EXPIRY || '24h') as StringValue;
   const refreshTokenExpiry = (process.env.JWT_REFRESH_EXPIRY || '7d') as StringValue;
 
+  // Account token configuration
+  const authConfig = {
+    passwordResetTtl: parseInt(process.env.PASSWORD_RESET_TTL || '3600', 10), // 1 hour
+    emailVerificationTtl: parseInt(process.env.EMAIL_VERIFICATION_TTL || '86400', 10), // 24 hours
+    requireVerifiedEmailForSubscription: process.env.REQUIRE_VERIFIED_EMAIL_FOR_SUBSCRIPTION !== 'false',
+    twoFactor: {
+      issuer: process.env.TWO_FACTOR_ISSUER || 'Film Mania',
+      challengeExpiry: (process.env.TWO_FACTOR_CHALLENGE_EXPIRY || '5m') as StringValue,
+      requiredForAdmins: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === 'true',
+    },
+    lockout: {
+      store: process.env.LOGIN_ATTEMPT_STORE === 'postgres' ? 'postgres' as const : 'memory' as const,
+      window: parseInt(process.env.LOGIN_ATTEMPT_WINDOW || '3600', 10), // 1 hour
+      freeAttempts: parseInt(process.env.LOGIN_BACKOFF_FREE_ATTEMPTS || '3', 10),
+      ipFreeAttempts: parseInt(process.env.LOGIN_IP_BACKOFF_FREE_ATTEMPTS || '20', 10),
+      backoffBase: parseInt(process.env.LOGIN_BACKOFF_BASE || '1', 10),
+      backoffMax: parseInt(process.env.LOGIN_BACKOFF_MAX || '300', 10), // 5 minutes
+      threshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+      duration: parseInt(process.env.LOGIN_LOCKOUT_DURATION || '900', 10), // 15 minutes
+    },
+  };
+
+  // Mail configuration
+  // The file transport writes each message to MAIL_FILE_DIR and logs where (dev/tests only)
+  const smtpPort = parseInt(process.env.SMTP_PORT || '587', 10);
+  const mailConfig = {
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' as const : 'file' as const,
+    from: process.env.MAIL_FROM || 'Film Mania <no-reply@film-mania.local>',
+    appUrl: (process.env.APP_URL || 'http://localhost:3001').replace(/\/+$/, ''),
+    fileDir: process.env.MAIL_FILE_DIR || 'tmp/mail',
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: smtpPort,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : smtpPort === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+  };
+  if (mailConfig.transport !== 'smtp' && nodeEnv === 'production') {
+    throw new Error('MAIL_TRANSPORT=smtp is required in production');
+  }
+
   // Stripe configuration
   const stripeSecretKey = process.env.STRIPE_SECRET_KEY || '';
   if (!stripeSecretKey && nodeEnv === 'production') {
@@ -94,19 +229,50 @@ function loadConfig(): AppConfig {
   }
   const stripeWebhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
   const stripeApiVersion = process.env.STRIPE_API_VERSION || '2025-02-24.acacia';
+  const stripeCheckout = {
+    successUrl: process.env.STRIPE_CHECKOUT_SUCCESS_URL
+      || `${mailConfig.appUrl}/subscription/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancelUrl: process.env.STRIPE_CHECKOUT_CANCEL_URL || `${mailConfig.appUrl}/subscription`,
+  };
+  const stripePortalReturnUrl = process.env.STRIPE_PORTAL_RETURN_URL || `${mailConfig.appUrl}/subscription`;
 
   // TMDB configuration
   const tmdbApiKey = process.env.TMDB_API_KEY || '';
   const tmdbBaseUrl = process.env.TMDB_BASE_URL || 'https://api.themoviedb.org/3';
+  const tmdbCacheStore = process.env.TMDB_CACHE_STORE === 'postgres' ? 'postgres' : 'memory';
+  const tmdbCacheMaxEntries = parseInt(process.env.TMDB_CACHE_MAX_ENTRIES || '1000', 10);
+  const tmdbCacheTtl: Record<TmdbCacheEndpointType, number> = {
+    search: parseInt(process.env.TMDB_CACHE_TTL_SEARCH || '900', 10), // 15 minutes
+    popular: parseInt(process.env.TMDB_CACHE_TTL_POPULAR || '3600', 10), // 1 hour
+    trending: parseInt(process.env.TMDB_CACHE_TTL_TRENDING || '3600', 10), // 1 hour
+    details: parseInt(process.env.TMDB_CACHE_TTL_DETAILS || '86400', 10), // 24 hours
+    discover: parseInt(process.env.TMDB_CACHE_TTL_DISCOVER || '21600', 10), // 6 hours
+  };
 
   // Streaming API configuration
-  const streamingProviderEnv = process.env.STREAMING_PROVIDER || StreamingProvider.TMDB;
-  const streamingProvider = Object.values(StreamingProvider).includes(streamingProviderEnv as StreamingProvider)
-    ? (streamingProviderEnv as StreamingProvider)
-    : StreamingProvider.TMDB;
+  // STREAMING_PROVIDERS is an ordered, comma-separated chain (e.g. "watchmode,tmdb")
+  // STREAMING_PROVIDER is still honoured as a single-provider chain
+  const streamingProvidersEnv = process.env.STREAMING_PROVIDERS || process.env.STREAMING_PROVIDER || StreamingProvider.TMDB;
+  const streamingProviders = Array.from(new Set(
+    streamingProvidersEnv
+      .split(',')
+      .map(provider => provider.trim().toLowerCase())
+      .filter((provider): provider is StreamingProvider => isStreamingProvider(provider))
+  ));
+  if (streamingProviders.length === 0) {
+    streamingProviders.push(StreamingProvider.TMDB);
+  }
   
   const streamingConfig = {
-    provider: streamingProvider,
+    providers: streamingProviders,
+    defaultRegion: (process.env.STREAMING_DEFAULT_REGION || 'US').toUpperCase(),
+    linksTtl: parseInt(process.env.STREAMING_LINKS_TTL || '86400', 10), // 24 hours
+    failureBackoff: parseInt(process.env.STREAMING_REFRESH_FAILURE_BACKOFF || '900', 10), // 15 minutes
+    refreshJob: {
+      enabled: process.env.STREAMING_REFRESH_JOB_ENABLED !== 'false',
+      intervalMinutes: parseInt(process.env.STREAMING_REFRESH_INTERVAL_MINUTES || '60', 10),
+      batchSize: parseInt(process.env.STREAMING_REFRESH_BATCH_SIZE || '50', 10),
+    },
     tmdb: {
       apiKey: tmdbApiKey,
       baseUrl: tmdbBaseUrl,
@@ -125,6 +291,34 @@ function loadConfig(): AppConfig {
     },
   };
 
+  // Playback configuration
+  const playbackConfig = {
+    progressThrottleSeconds: parseInt(process.env.PLAYBACK_PROGRESS_THROTTLE_SECONDS || '15', 10),
+    completionThreshold: parseFloat(process.env.PLAYBACK_COMPLETION_THRESHOLD || '0.9'),
+  };
+
+  // Translation configuration
+  // The stub translator is deterministic and needs no credentials (dev/tests)
+  const translationConfig = {
+    provider: process.env.TRANSLATION_PROVIDER === 'google' ? 'google' as const : 'stub' as const,
+    batchSize: parseInt(process.env.TRANSLATION_BATCH_SIZE || '50', 10),
+    google: {
+      apiKey: process.env.GOOGLE_TRANSLATE_API_KEY,
+      baseUrl: process.env.GOOGLE_TRANSLATE_BASE_URL || 'https://translation.googleapis.com/language/translate/v2',
+    },
+  };
+
+  // Account deletion configuration
+  // Requests can be cancelled until the grace period ends; the purge job then removes personal data
+  const accountDeletionConfig = {
+    graceDays: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10),
+    purgeJob: {
+      enabled: process.env.ACCOUNT_PURGE_JOB_ENABLED !== 'false',
+      intervalMinutes: parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES || '60', 10),
+      batchSize: parseInt(process.env.ACCOUNT_PURGE_BATCH_SIZE || '50', 10),
+    },
+  };
+
   // Database configuration
   const dbHost = process.env.DB_HOST || 'localhost';
   const dbPort = parseInt(process.env.DB_PORT || '5432', 10);
@@ -138,22 +332,36 @@ function loadConfig(): AppConfig {
     nodeEnv,
     apiVersion,
     corsOrigin,
+    trustProxy,
     jwt: {
       secret: jwtSecret,
       refreshSecret: jwtRefreshSecret,
+      challengeSecret: jwtChallengeSecret,
       accessTokenExpiry,
       refreshTokenExpiry,
     },
+    auth: authConfig,
+    mail: mailConfig,
     stripe: {
       secretKey: stripeSecretKey,
       webhookSecret: stripeWebhookSecret,
       apiVersion: stripeApiVersion,
+      checkout: stripeCheckout,
+      portalReturnUrl: stripePortalReturnUrl,
     },
     tmdb: {
       apiKey: tmdbApiKey,
       baseUrl: tmdbBaseUrl,
+      cache: {
+        store: tmdbCacheStore,
+        maxEntries: tmdbCacheMaxEntries,
+        ttl: tmdbCacheTtl,
+      },
     },
     streaming: streamingConfig,
+    playback: playbackConfig,
+    translation: translationConfig,
+    accountDeletion: accountDeletionConfig,
     database: {
       host: dbHost,
       port: dbPort,
@@ -28,6 +28,12 @@ export const swaggerConfig: SwaggerDefinition = {
         bearerFormat: 'JWT',
         description: 'JWT Authorization header using the Bearer scheme. Example: "Authorization: Bearer {token}"',
       },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Personal API key created via POST /api/auth/api-keys. Example: "X-API-Key: fm_..."',
+      },
     },
     schemas: {
       // Base API Response
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware';
+import AccountService from '../services/account.service';
+
+/**
+ * Controller for the current user's account data endpoints (export and deletion)
+ * Handles HTTP requests and responses
+ * Uses response/error handler middleware for consistent responses
+ */
+class AccountController {
+  private accountService: AccountService;
+
+  constructor() {
+    this.accountService = AccountService.getInstance();
+  }
+
+  /**
+   * GET /api/me/export
+   * Export the current user's data as JSON, or as a ZIP of CSV files with ?format=zip
+   */
+  exportData = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const filename = `account-export-${new Date().toISOString().slice(0, 10)}`;
+
+      if (req.query.format === 'zip') {
+        const result = await this.accountService.exportZip(userId);
+        if (!result.success || !result.data) {
+          res.sendError(result.error || 'Failed to export account data', result.error === 'User not found' ? 404 : 500);
+          return;
+        }
+
+        res.type('application/zip');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.zip"`);
+        res.send(result.data);
+        return;
+      }
+
+      const result = await this.accountService.exportData(userId);
+      if (!result.success || !result.data) {
+        res.sendError(result.error || 'Failed to export account data', result.error === 'User not found' ? 404 : 500);
+        return;
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+      res.sendSuccess(result.data);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export account data';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/me
+   * Schedule deletion of the current user's account
+   */
+  deleteAccount = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await this.accountService.requestDeletion(userId, req.body.password);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 202);
+      } else if (result.error === 'Invalid password') {
+        res.sendError(result.error, 401);
+      } else if (result.error === 'Account deletion is already scheduled') {
+        res.sendError(result.error, 409, result.details);
+      } else {
+        res.sendError(result.error || 'Failed to schedule account deletion', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to schedule account deletion';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/me/deletion/cancel
+   * Cancel a pending deletion of the current user's account
+   */
+  cancelDeletion = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await this.accountService.cancelDeletion(userId);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to cancel account deletion', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to cancel account deletion';
+      res.sendError(errorMessage, 500);
+    }
+  };
+}
+
+export default AccountController;
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthRequest } from '../middleware';
+import { AuthRequest, ValidatedRequest } from '../middleware';
 import AdminService from '../services/admin_service';
+import { IApiResponse, IAuditEventFilters, SubtitleTranslationStatus, UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { ListAuditEventsQueryDto, ListStripeEventsQueryDto, ListUsersQueryDto, TmdbCacheQueryDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
 
 /**
  * Controller for Admin endpoints
@@ -118,6 +120,729 @@ class AdminController {
       res.sendError(errorMessage, 500);
     }
   };
+
+  /**
+   * GET /api/admin/tmdb-cache
+   * Inspect TMDB cache statistics and entries
+   */
+  getTmdbCache = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { prefix, limit } = (req as unknown as ValidatedRequest<unknown, unknown, TmdbCacheQueryDto>).query;
+
+      const result = await this.adminService.getTmdbCache(prefix || undefined, limit);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get TMDB cache', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get TMDB cache';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/admin/tmdb-cache
+   * Purge TMDB cache entries (optionally by key prefix)
+   */
+  purgeTmdbCache = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { prefix } = req.query;
+
+      const result = await this.adminService.purgeTmdbCache(prefix ? String(prefix) : undefined);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to purge TMDB cache', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to purge TMDB cache';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/streaming/providers
+   * Get the streaming provider fallback chain
+   */
+  getStreamingProviders = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.adminService.getStreamingProviders();
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get streaming providers', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get streaming providers';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/admin/streaming/providers
+   * Replace the streaming provider fallback chain
+   */
+  updateStreamingProviders = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { providers } = req.body;
+
+      const result = await this.adminService.updateStreamingProviders(providers);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to update streaming providers', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update streaming providers';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * GET /api/admin/subtitles/translations
+   * List AI subtitle translation jobs (?status=failed to view failures)
+   */
+  getSubtitleTranslations = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { status, limit } = req.query;
+
+      if (status !== undefined && !['pending', 'processing', 'completed', 'failed'].includes(status as string)) {
+        res.sendError('Status must be one of: pending, processing, completed, failed', 400);
+        return;
+      }
+
+      const result = await this.adminService.getSubtitleTranslations(
+        status as SubtitleTranslationStatus | undefined,
+        limit ? Number(limit) : undefined
+      );
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get subtitle translations', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get subtitle translations';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/subtitles/translations
+   * Queue an AI Sinhala translation of a movie's English subtitles
+   */
+  enqueueSubtitleTranslation = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { movieId } = req.body;
+
+      const result = await this.adminService.enqueueSubtitleTranslation(movieId);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 202);
+      } else {
+        res.sendError(result.error || 'Failed to queue subtitle translation', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to queue subtitle translation';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * POST /api/admin/subtitles/translations/:id/retry
+   * Retry a failed AI subtitle translation
+   */
+  retrySubtitleTranslation = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const result = await this.adminService.retrySubtitleTranslation(id);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 202);
+      } else {
+        res.sendError(result.error || 'Failed to retry subtitle translation', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retry subtitle translation';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * GET /api/admin/users
+   * Search, filter, sort and page through users
+   */
+  listUsers = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { search, subscription_status, role, is_active, sort, order, page, limit } = (req as unknown as ValidatedRequest<unknown, unknown, ListUsersQueryDto>).query;
+
+      const result = await this.adminService.listUsers({
+        search,
+        subscription_status,
+        role,
+        is_active: is_active === undefined ? undefined : is_active === 'true',
+        sort,
+        order,
+        page,
+        limit,
+      });
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to list users', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to list users';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/users/:userId
+   * Get a user with subscriptions, payments, fundings and last login
+   */
+  getUser = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const result = await this.adminService.getUser(userId);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get user', result.error === 'User not found' ? 404 : 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get user';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:userId/deactivate
+   * Deactivate a user's account and sign them out
+   */
+  deactivateUser = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.manageUser(req, res, 'Failed to deactivate user', (userId, actor) =>
+      this.adminService.deactivateUser(userId, actor)
+    );
+  };
+
+  /**
+   * POST /api/admin/users/:userId/reactivate
+   * Reactivate a deactivated account
+   */
+  reactivateUser = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.manageUser(req, res, 'Failed to reactivate user', (userId, actor) =>
+      this.adminService.reactivateUser(userId, actor)
+    );
+  };
+
+  /**
+   * POST /api/admin/users/:userId/password-reset
+   * Invalidate a user's password and email them a reset link
+   */
+  forceUserPasswordReset = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.manageUser(req, res, 'Failed to force password reset', (userId, actor) =>
+      this.adminService.forcePasswordReset(userId, actor)
+    );
+  };
+
+  /**
+   * GET /api/admin/users/:userId/sessions
+   * List a user's active sessions
+   */
+  getUserSessions = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const result = await this.adminService.getUserSessions(userId);
+
+      if (result.success && result.data) {
+        res.sendSuccess({ sessions: result.data }, 'Sessions retrieved successfully');
+      } else {
+        res.sendError(result.error || 'Failed to get sessions', result.error === 'User not found' ? 404 : 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get sessions';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/admin/users/:userId/sessions/:id
+   * Sign a user out of one device
+   */
+  revokeUserSession = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const { userId, id } = req.params;
+
+      const result = await this.adminService.revokeUserSession(userId, id, authReq.user);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message || 'Session revoked successfully');
+      } else {
+        res.sendError(result.error || 'Failed to revoke session', this.manageErrorStatus(result.error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke session';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/admin/users/:userId/sessions
+   * Sign a user out of all devices
+   */
+  revokeAllUserSessions = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const result = await this.adminService.revokeAllUserSessions(req.params.userId, authReq.user);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to revoke sessions', this.manageErrorStatus(result.error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke sessions';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:userId/unlock
+   * Lift a login lockout
+   */
+  unlockUser = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.manageUser(req, res, 'Failed to unlock account', (userId, actor) =>
+      this.adminService.unlockUser(userId, actor)
+    );
+  };
+
+  /**
+   * GET /api/admin/users/:userId/api-keys
+   * List a user's API keys
+   */
+  getUserApiKeys = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { userId } = req.params;
+
+      const result = await this.adminService.getUserApiKeys(userId);
+
+      if (result.success && result.data) {
+        res.sendSuccess({ api_keys: result.data });
+      } else {
+        res.sendError(result.error || 'Failed to get API keys', result.error === 'User not found' ? 404 : 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get API keys';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:userId/api-keys
+   * Create an API key for a user, e.g. a service account
+   */
+  createUserApiKey = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const { userId } = req.params;
+      const { name, scopes, expiresInDays } = req.body;
+
+      const result = await this.adminService.createUserApiKey(userId, { name, scopes, expiresInDays }, authReq.user);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 201);
+      } else {
+        res.sendError(result.error || 'Failed to create API key', this.manageErrorStatus(result.error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create API key';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/admin/users/:userId/api-keys/:id
+   * Revoke one of a user's API keys
+   */
+  revokeUserApiKey = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const { userId, id } = req.params;
+
+      const result = await this.adminService.revokeUserApiKey(userId, id, authReq.user);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to revoke API key', this.manageErrorStatus(result.error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke API key';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/admin/users/:userId/role
+   * Change a user's role
+   */
+  updateUserRole = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const { userId } = req.params;
+      const { role } = req.body;
+
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const result = await this.adminService.updateUserRole(userId, role, authReq.user);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else if (result.error === 'User not found') {
+        res.sendError(result.error, 404);
+      } else if (result.error === 'Only admins can grant or revoke the admin role') {
+        res.sendError(result.error, 403);
+      } else {
+        res.sendError(result.error || 'Failed to update user role', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update user role';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/roles
+   * List the permissions of every role
+   */
+  getRolePermissions = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.adminService.getRolePermissions();
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get role permissions', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get role permissions';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/admin/roles/:role/permissions
+   * Replace the permissions granted to a role
+   */
+  updateRolePermissions = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { role } = req.params;
+      const { permissions } = req.body;
+
+      const result = await this.adminService.updateRolePermissions(role as UserRole, permissions);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to update role permissions', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update role permissions';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/audit
+   * Search the audit log, newest first
+   */
+  getAuditEvents = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const query = (req as unknown as ValidatedRequest<unknown, unknown, ListAuditEventsQueryDto>).query;
+
+      const result = await this.adminService.getAuditEvents(this.toAuditFilters(query), query.page, query.limit);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get audit events', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get audit events';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/audit/export
+   * Download audit log entries matching the filters as CSV
+   */
+  exportAuditEvents = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const query = (req as unknown as ValidatedRequest<unknown, unknown, ListAuditEventsQueryDto>).query;
+
+      const result = await this.adminService.exportAuditEvents(this.toAuditFilters(query));
+
+      if (result.success && result.data !== undefined) {
+        res.type('text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+        res.send(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to export audit events', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to export audit events';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/stripe-events
+   * List received Stripe webhook events, newest first
+   */
+  getStripeEvents = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { status, type, page, limit } = (req as unknown as ValidatedRequest<unknown, unknown, ListStripeEventsQueryDto>).query;
+
+      const result = await this.adminService.getStripeEvents({ status, type }, page, limit);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get Stripe events', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get Stripe events';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/stripe-events/:id/replay
+   * Process a failed Stripe webhook event again
+   */
+  replayStripeEvent = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const result = await this.adminService.replayStripeEvent(id);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else if (result.error === 'Stripe event not found') {
+        res.sendError(result.error, 404);
+      } else if (result.error === 'Only failed events can be replayed' || result.error === 'Event is already being processed') {
+        res.sendError(result.error, 409);
+      } else {
+        res.sendError(result.error || 'Failed to replay Stripe event', 502, result.details);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to replay Stripe event';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/admin/plans
+   * List every catalog plan, including inactive ones
+   */
+  getPlans = async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.adminService.getPlans();
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get plans', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get plans';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/admin/plans
+   * Add a plan to the catalog
+   */
+  createPlan = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { name, interval, price, currency, stripe_price_id, entitlements, is_active } = req.body;
+
+      const result = await this.adminService.createPlan({
+        name,
+        interval,
+        price,
+        currency,
+        stripe_price_id,
+        entitlements,
+        is_active,
+      });
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 201);
+      } else if (result.error === 'A plan already uses this Stripe price') {
+        res.sendError(result.error, 409);
+      } else {
+        res.sendError(result.error || 'Failed to create plan', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create plan';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/admin/plans/:id
+   * Change some fields of a catalog plan
+   */
+  updatePlan = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { name, interval, price, currency, stripe_price_id, entitlements, is_active } = req.body;
+
+      const result = await this.adminService.updatePlan(id, {
+        name,
+        interval,
+        price,
+        currency,
+        stripe_price_id,
+        entitlements,
+        is_active,
+      });
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else if (result.error === 'Plan not found') {
+        res.sendError(result.error, 404);
+      } else if (
+        result.error === 'A plan already uses this Stripe price' ||
+        result.error === 'Plan has subscriptions; create a new plan for another Stripe price'
+      ) {
+        res.sendError(result.error, 409);
+      } else {
+        res.sendError(result.error || 'Failed to update plan', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update plan';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/admin/plans/:id
+   * Remove a plan without subscriptions from the catalog
+   */
+  deletePlan = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const result = await this.adminService.deletePlan(id);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else if (result.error === 'Plan not found') {
+        res.sendError(result.error, 404);
+      } else if (result.error === 'Plan has subscriptions; deactivate it instead') {
+        res.sendError(result.error, 409);
+      } else {
+        res.sendError(result.error || 'Failed to delete plan', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete plan';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  private toAuditFilters(query: ListAuditEventsQueryDto): IAuditEventFilters {
+    return {
+      actor_type: query.actor_type,
+      actor_id: query.actor_id,
+      action: query.action,
+      target_type: query.target_type,
+      target_id: query.target_id,
+      request_id: query.request_id,
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+    };
+  }
+
+  /**
+   * Shared handler for account actions taken on a user by the signed-in admin
+   */
+  private manageUser = async (
+    req: Request,
+    res: Response,
+    fallbackError: string,
+    action: (userId: string, actor: { id: string; role: UserRole }) => Promise<IApiResponse<void>>
+  ): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      if (!authReq.user) {
+        res.sendError('Admin authentication required', 401);
+        return;
+      }
+
+      const result = await action(req.params.userId, authReq.user);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else {
+        res.sendError(result.error || fallbackError, this.manageErrorStatus(result.error));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : fallbackError;
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * HTTP status for a refused or failed account action on a user
+   */
+  private manageErrorStatus(error?: string): number {
+    if (error === 'User not found' || error === 'Session not found' || error === 'API key not found') {
+      return 404;
+    }
+    if (error === 'Only admins can manage admin accounts' || error?.startsWith('You cannot grant permissions')) {
+      return 403;
+    }
+    return 400;
+  }
 }
 
 export default AdminController;
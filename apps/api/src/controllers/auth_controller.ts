@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware';
 import authService from '../services/auth.service';
+import TwoFactorService from '../services/two_factor.service';
+import ApiKeyService from '../services/api_key.service';
 import { UserModel } from '../models';
+import { IApiResponse, ILoginResult, ISessionClient } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Controller for Auth endpoints
@@ -15,18 +18,19 @@ class AuthController {
    */
   register = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
-      const { email, password, first_name, last_name } = req.body;
+      const { email, password, first_name, last_name, country } = req.body;
 
       const result = await authService.register({
         email,
         password,
         first_name,
         last_name,
+        country,
       });
 
       if (result.success && result.data) {
         // Generate tokens
-        const tokens = authService.generateTokens(result.data.id!, result.data.email);
+        const tokens = await authService.generateTokens(result.data.id!, result.data.email, this.getSessionClient(req));
 
         res.sendSuccess(
           {
@@ -35,7 +39,9 @@ class AuthController {
               email: result.data.email,
               first_name: result.data.first_name,
               last_name: result.data.last_name,
+              country: result.data.country,
               subscription_status: result.data.subscription_status,
+              email_verified_at: result.data.email_verified_at,
             },
             ...tokens,
           },
@@ -54,33 +60,116 @@ class AuthController {
   /**
    * POST /api/auth/login
    * Login user
+   * Responds with a two-factor challenge instead of tokens when 2FA is enabled
    */
   login = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
       const { email, password } = req.body;
 
-      const result = await authService.login({ email, password });
+      const result = await authService.login({ email, password }, this.getSessionClient(req));
+
+      this.sendLoginResult(res, result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      res.sendError(errorMessage, 401);
+    }
+  };
+
+  /**
+   * POST /api/auth/login/2fa
+   * Complete a two-factor login with a TOTP or recovery code
+   */
+  loginWithTwoFactor = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const result = await authService.loginWithTwoFactor(challengeToken, code, this.getSessionClient(req));
+
+      this.sendLoginResult(res, result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      res.sendError(errorMessage, 401);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/enroll
+   * Start two-factor enrollment for the current user
+   */
+  enrollTwoFactor = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await TwoFactorService.getInstance().enroll(userId);
 
       if (result.success && result.data) {
-        res.sendSuccess(
-          {
-            user: {
-              id: result.data.user.id,
-              email: result.data.user.email,
-              first_name: result.data.user.first_name,
-              last_name: result.data.user.last_name,
-              subscription_status: result.data.user.subscription_status,
-            },
-            ...result.data.tokens,
-          },
-          result.message || 'Login successful'
-        );
+        res.sendSuccess(result.data, result.message);
       } else {
-        res.sendError(result.error || 'Login failed', 401);
+        res.sendError(result.error || 'Failed to start two-factor enrollment', result.error === 'User not found' ? 404 : 400);
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Login failed';
-      res.sendError(errorMessage, 401);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start two-factor enrollment';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/confirm
+   * Enable two-factor authentication with a code from the enrolled app
+   */
+  confirmTwoFactor = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await TwoFactorService.getInstance().confirm(userId, req.body.code);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to enable two-factor authentication', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to enable two-factor authentication';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Disable two-factor authentication with a TOTP or recovery code
+   */
+  disableTwoFactor = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await TwoFactorService.getInstance().disable(userId, req.body.code);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to disable two-factor authentication', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to disable two-factor authentication';
+      res.sendError(errorMessage, 500);
     }
   };
 
@@ -101,6 +190,281 @@ class AuthController {
     }
   };
 
+  /**
+   * POST /api/auth/logout
+   * Revoke the session the refresh token belongs to
+   */
+  logout = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      const result = await authService.logout(refreshToken);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message || 'Logged out successfully');
+      } else {
+        res.sendError(result.error || 'Logout failed', 401);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Logout failed';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/logout-all
+   * Revoke every session of the current user
+   */
+  logoutAll = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await authService.logoutAll(userId);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Logout failed', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Logout failed';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/forgot-password
+   * Email a password reset link
+   */
+  forgotPassword = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { email } = req.body;
+
+      const result = await authService.requestPasswordReset(email);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message, 202);
+      } else {
+        res.sendError(result.error || 'Failed to request password reset', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to request password reset';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/reset-password
+   * Set a new password with a reset token
+   */
+  resetPassword = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { token, password } = req.body;
+
+      const result = await authService.resetPassword(token, password);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message || 'Password reset successfully');
+      } else {
+        res.sendError(result.error || 'Failed to reset password', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to reset password';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/verify-email
+   * Verify the user's email address with a verification token
+   */
+  verifyEmail = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.body;
+
+      const result = await authService.verifyEmail(token);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message || 'Email verified successfully');
+      } else {
+        res.sendError(result.error || 'Failed to verify email', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to verify email';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/resend-verification
+   * Send a new verification email to the current user
+   */
+  resendVerification = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await authService.resendEmailVerification(userId);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message, 202);
+      } else {
+        res.sendError(result.error || 'Failed to send verification email', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to send verification email';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/auth/sessions
+   * List the current user's signed-in devices
+   */
+  getSessions = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await authService.getSessions(userId, authReq.user?.sessionId);
+
+      if (result.success && result.data) {
+        res.sendSuccess({ sessions: result.data }, 'Sessions retrieved successfully');
+      } else {
+        res.sendError(result.error || 'Failed to get sessions', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get sessions';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Sign out one of the current user's devices
+   */
+  revokeSession = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await authService.revokeSession(userId, req.params.id);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message || 'Session revoked successfully');
+      } else {
+        res.sendError(result.error || 'Failed to revoke session', result.error === 'Session not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke session';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/auth/api-keys
+   * List the current user's API keys
+   */
+  listApiKeys = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await ApiKeyService.getInstance().list(userId);
+
+      if (result.success && result.data) {
+        res.sendSuccess({ api_keys: result.data }, 'API keys retrieved successfully');
+      } else {
+        res.sendError(result.error || 'Failed to get API keys', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get API keys';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * POST /api/auth/api-keys
+   * Create an API key; the key is only returned in this response
+   */
+  createApiKey = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { name, scopes, expiresInDays } = req.body;
+
+      const result = await ApiKeyService.getInstance().create(userId, { name, scopes, expiresInDays });
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 201);
+      } else {
+        res.sendError(result.error || 'Failed to create API key', 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create API key';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * DELETE /api/auth/api-keys/:id
+   * Revoke one of the current user's API keys
+   */
+  revokeApiKey = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await ApiKeyService.getInstance().revoke(userId, req.params.id);
+
+      if (result.success) {
+        res.sendSuccess(null, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to revoke API key', result.error === 'API key not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke API key';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
   /**
    * GET /api/auth/me
    * Get current authenticated user
@@ -116,7 +480,7 @@ class AuthController {
       }
 
       const userModel = await UserModel.findByPk(userId, {
-        attributes: ['id', 'email', 'first_name', 'last_name', 'subscription_status', 'created_at'],
+        attributes: ['id', 'email', 'first_name', 'last_name', 'country', 'subscription_status', 'email_verified_at', 'created_at'],
       });
 
       if (!userModel) {
@@ -130,7 +494,9 @@ class AuthController {
         email: userModel.email,
         first_name: userModel.first_name,
         last_name: userModel.last_name,
+        country: userModel.country,
         subscription_status: userModel.subscription_status,
+        email_verified_at: userModel.email_verified_at ?? null,
         created_at: userModel.created_at,
       };
 
@@ -140,6 +506,88 @@ class AuthController {
       res.sendError(errorMessage, 500);
     }
   };
+
+  /**
+   * PATCH /api/auth/me
+   * Update current user's profile
+   */
+  updateCurrentUser = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { first_name, last_name, country } = req.body;
+      const result = await authService.updateProfile(userId, { first_name, last_name, country });
+
+      if (result.success && result.data) {
+        res.sendSuccess({ user: result.data }, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to update profile', result.error === 'User not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update profile';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * Send a login result: the user with tokens, or a two-factor challenge
+   */
+  private sendLoginResult(res: Response, result: IApiResponse<ILoginResult>): void {
+    if (!result.success || !result.data) {
+      if (result.error === 'Too many failed login attempts') {
+        res.set('Retry-After', String(result.details?.retry_after));
+        res.sendError(result.error, 429, result.details);
+      } else if (result.error === 'Account is temporarily locked') {
+        res.sendError(result.error, 423, result.details);
+      } else {
+        res.sendError(result.error || 'Login failed', 401);
+      }
+      return;
+    }
+
+    if ('challenge' in result.data) {
+      res.sendSuccess(
+        {
+          two_factor_required: true,
+          ...result.data.challenge,
+        },
+        result.message || 'Two-factor authentication required'
+      );
+      return;
+    }
+
+    res.sendSuccess(
+      {
+        user: {
+          id: result.data.user.id,
+          email: result.data.user.email,
+          first_name: result.data.user.first_name,
+          last_name: result.data.user.last_name,
+          country: result.data.user.country,
+          subscription_status: result.data.user.subscription_status,
+          email_verified_at: result.data.user.email_verified_at,
+        },
+        ...result.data.tokens,
+      },
+      result.message || 'Login successful'
+    );
+  }
+
+  /**
+   * Describe the device a request comes from, for the session it starts
+   */
+  private getSessionClient(req: Request): ISessionClient {
+    return {
+      user_agent: req.get('user-agent'),
+      ip_address: req.ip,
+    };
+  }
 }
 
 export default AuthController;
@@ -7,4 +7,8 @@ export { default as AuthController } from './auth_controller';
 export { default as MovieController } from './movie_controller';
 export { default as SubscriptionController } from './subscription_controller';
 export { default as AdminController } from './admin_controller';
+export { default as SubtitleController } from './subtitle_controller';
+export { default as LibraryController } from './library_controller';
 
+export { default as AccountController } from './account_controller';
+export { default as PlanController } from './plan_controller';
@@ -0,0 +1,182 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware';
+import LibraryService from '../services/library_service';
+
+/**
+ * Controller for the current user's library endpoints
+ * Handles HTTP requests and responses
+ * Uses response/error handler middleware for consistent responses
+ */
+class LibraryController {
+  private libraryService: LibraryService;
+
+  constructor() {
+    this.libraryService = LibraryService.getInstance();
+  }
+
+  /**
+   * GET /api/me/library/favorites
+   * List the current user's favorites
+   */
+  getFavorites = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { page = 1, limit = 20 } = req.query;
+      const result = await this.libraryService.getFavorites(userId, Number(page), Number(limit));
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get favorites', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get favorites';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/me/library/favorites/:movieId
+   * Add a movie to the current user's favorites
+   */
+  addFavorite = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.updateLibrary(req, res, (userId, movieId) => this.libraryService.setFavorite(userId, movieId, true));
+  };
+
+  /**
+   * DELETE /api/me/library/favorites/:movieId
+   * Remove a movie from the current user's favorites
+   */
+  removeFavorite = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.updateLibrary(req, res, (userId, movieId) => this.libraryService.setFavorite(userId, movieId, false));
+  };
+
+  /**
+   * GET /api/me/library/history
+   * List the current user's watch history
+   */
+  getHistory = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { page = 1, limit = 20 } = req.query;
+      const result = await this.libraryService.getHistory(userId, Number(page), Number(limit));
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get watch history', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get watch history';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * PUT /api/me/library/watched/:movieId
+   * Mark a movie as watched
+   */
+  markWatched = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.updateLibrary(req, res, (userId, movieId) => this.libraryService.setWatched(userId, movieId, true));
+  };
+
+  /**
+   * DELETE /api/me/library/watched/:movieId
+   * Mark a movie as unwatched
+   */
+  markUnwatched = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await this.updateLibrary(req, res, (userId, movieId) => this.libraryService.setWatched(userId, movieId, false));
+  };
+
+  /**
+   * PUT /api/me/progress/:movieId
+   * Sync playback position and duration (seconds)
+   */
+  updateProgress = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { position, duration } = req.body;
+      const result = await this.libraryService.updateProgress(userId, req.params.movieId, position, duration);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, undefined, result.data.persisted ? 200 : 202);
+      } else {
+        res.sendError(result.error || 'Failed to update progress', result.error === 'Movie not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update progress';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/me/continue-watching
+   * List unfinished titles ordered by last playback update
+   */
+  getContinueWatching = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const { page = 1, limit = 20 } = req.query;
+      const result = await this.libraryService.getContinueWatching(userId, Number(page), Number(limit));
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get continue watching', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get continue watching';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * Shared handler for library updates on :movieId
+   */
+  private updateLibrary = async (
+    req: Request,
+    res: Response,
+    update: (userId: string, movieId: string) => ReturnType<LibraryService['setFavorite']>
+  ): Promise<void> => {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const result = await update(userId, req.params.movieId);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message);
+      } else {
+        res.sendError(result.error || 'Failed to update library', result.error === 'Movie not found' ? 404 : 400);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update library';
+      res.sendError(errorMessage, 500);
+    }
+  };
+}
+
+export default LibraryController;
@@ -1,8 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import movieService from '../services/movie.service';
-import { MovieModel, MovieCategoryModel } from '../models';
+import LibraryService from '../services/library_service';
+import { MovieModel, MovieCategoryModel, UserModel } from '../models';
 import { MovieCategory } from '@nx-mono-repo-deployment-test/shared';
 import { Op } from 'sequelize';
+import { AuthRequest } from '../middleware';
+import { appConfig } from '../config/app.config';
+import { isRegionCode, resolveStreamingRegion } from '../utils/region-resolver';
 
 /**
  * Controller for Movie endpoints
@@ -50,6 +54,7 @@ class MovieController {
   /**
    * GET /api/movies/:id
    * Get movie by ID
+   * Includes the caller's library state when authenticated
    */
   getMovieById = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
@@ -68,6 +73,13 @@ class MovieController {
         return;
       }
 
+      const userId = (req as AuthRequest).user?.id;
+      if (userId) {
+        const library = await LibraryService.getInstance().getLibraryState(userId, movie.id);
+        res.sendSuccess({ ...movie.toJSON(), library });
+        return;
+      }
+
       res.sendSuccess(movie);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to get movie';
@@ -202,11 +214,18 @@ class MovieController {
 
   /**
    * GET /api/movies/:id/streaming
-   * Get streaming links for a movie
+   * Get streaming links for a movie (requires the streaming entitlement)
+   * Region: ?region= > user profile country > Accept-Language > default region
    */
   getStreamingLinks = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
+      const { region } = req.query;
+
+      if (region !== undefined && !isRegionCode(region)) {
+        res.sendError('Region must be an ISO 3166-1 alpha-2 code', 400);
+        return;
+      }
 
       // Find movie by ID
       const movie = await MovieModel.findByPk(id);
@@ -222,14 +241,29 @@ class MovieController {
         return;
       }
 
-      // Get streaming links
-      const links = await movieService.getStreamingLinks(movie.tmdb_id);
+      const userId = (req as AuthRequest).user?.id;
+      const user = userId ? await UserModel.findByPk(userId, { attributes: ['id', 'country'] }) : null;
+
+      const resolvedRegion = resolveStreamingRegion({
+        region: region as string | undefined,
+        userCountry: user?.country,
+        acceptLanguage: req.headers['accept-language'],
+        defaultRegion: appConfig.streaming.defaultRegion,
+      });
+
+      // Stored links when available, otherwise fetched from the provider chain
+      const result = await movieService.getMovieStreamingLinks(movie, resolvedRegion);
 
       res.sendSuccess({
         movie_id: movie.id,
         tmdb_id: movie.tmdb_id,
         title: movie.title,
-        streaming_links: links,
+        region: result.region,
+        streaming_links: result.links,
+        answered_by: result.answered_by,
+        failed_providers: result.failed_providers,
+        source: result.source,
+        streaming_links_updated_at: result.updated_at,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to get streaming links';
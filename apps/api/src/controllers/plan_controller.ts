@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import PlanService from '../services/plan.service';
+
+/**
+ * Controller for the public plan catalog
+ * Handles HTTP requests and responses
+ * Uses response/error handler middleware for consistent responses
+ */
+class PlanController {
+  private planService: PlanService;
+
+  constructor() {
+    this.planService = PlanService.getInstance();
+  }
+
+  /**
+   * GET /api/plans
+   * List active plans for the pricing page, cheapest first
+   */
+  getPlans = async (_req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.planService.listPublic();
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get plans', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get plans';
+      res.sendError(errorMessage, 500);
+    }
+  };
+}
+
+export default PlanController;
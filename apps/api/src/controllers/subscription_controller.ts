@@ -1,7 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthRequest } from '../middleware';
+import { Op } from 'sequelize';
+import { AuthRequest, EntitlementRequest, ValidatedRequest, getEntitlements } from '../middleware';
 import stripeService from '../services/stripe.service';
+import AuditService from '../services/audit.service';
+import PlanService from '../services/plan.service';
 import { SubscriptionModel, UserModel } from '../models';
+import { appConfig } from '../config/app.config';
+import { AuditAction, IBillingPortalSession, ICheckoutSession, IPlan, IPlanChangePreview, SubscriptionStatus } from '@nx-mono-repo-deployment-test/shared';
+import { ChangePlanPreviewQueryDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+
+/**
+ * Statuses of a subscription that is still running
+ */
+const CURRENT_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING, SubscriptionStatus.PAST_DUE];
+
+/**
+ * How long a plan change preview's proration date can be used to change plan
+ * Older dates are refused so a client cannot backdate the switch for a larger credit
+ */
+const PRORATION_DATE_MAX_AGE_SECONDS = 10 * 60;
 
 /**
  * Controller for Subscription endpoints
@@ -9,6 +26,14 @@ import { SubscriptionModel, UserModel } from '../models';
  * Uses response/error handler middleware for consistent responses
  */
 class SubscriptionController {
+  private auditService: AuditService;
+  private planService: PlanService;
+
+  constructor() {
+    this.auditService = AuditService.getInstance();
+    this.planService = PlanService.getInstance();
+  }
+
   /**
    * GET /api/subscriptions/current
    * Get current user's subscription
@@ -41,15 +66,34 @@ class SubscriptionController {
     }
   };
 
+  /**
+   * GET /api/subscriptions/entitlements
+   * Get current user's premium feature entitlements
+   */
+  getEntitlements = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const entitlementReq = req as EntitlementRequest;
+      if (!entitlementReq.user?.id) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      res.sendSuccess(await getEntitlements(entitlementReq));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get entitlements';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
   /**
    * POST /api/subscriptions/create
-   * Create subscription
+   * Create a subscription to a catalog plan
    */
   createSubscription = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     try {
       const authReq = req as AuthRequest;
       const userId = authReq.user?.id;
-      const { priceId } = req.body;
+      const { planId } = req.body;
 
       if (!userId) {
         res.sendError('User not authenticated', 401);
@@ -63,14 +107,30 @@ class SubscriptionController {
         return;
       }
 
+      if (appConfig.auth.requireVerifiedEmailForSubscription && !user.email_verified_at) {
+        res.sendError('Email address must be verified before subscribing', 403);
+        return;
+      }
+
+      const plan = await this.planService.getSubscribable(planId);
+      if (!plan.success || !plan.data) {
+        res.sendError(plan.error || 'Failed to get plan', plan.error === 'Plan not found' ? 404 : 500);
+        return;
+      }
+
+      // Subscribing again would bill the user twice
+      if (await this.hasCurrentSubscription(userId)) {
+        res.sendError('You already have an active subscription', 409);
+        return;
+      }
+
       // Create or get Stripe customer
-      const customerId = user.email; // Simplified - in production, store customer ID
-      // TODO: Store Stripe customer ID in user model
+      const customerId = await stripeService.getOrCreateCustomerId(user);
 
       // Create subscription
       const stripeSubscription = await stripeService.createSubscription(
         customerId,
-        priceId,
+        plan.data.stripe_price_id,
         { userId: user.id }
       );
 
@@ -80,6 +140,16 @@ class SubscriptionController {
         userId
       );
 
+      await this.auditService.record({
+        action: AuditAction.SUBSCRIPTION_CREATED,
+        target_type: 'subscription',
+        target_id: subscription.data?.id,
+        after: subscription.data
+          ? { status: subscription.data.status, plan_type: subscription.data.plan_type, end_date: subscription.data.end_date }
+          : null,
+        metadata: { plan_id: planId, price_id: plan.data.stripe_price_id, stripe_subscription_id: stripeSubscription.id },
+      });
+
       res.sendSuccess(subscription, 'Subscription created successfully', 201);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create subscription';
@@ -87,6 +157,182 @@ class SubscriptionController {
     }
   };
 
+  /**
+   * POST /api/subscriptions/checkout
+   * Start a hosted Stripe Checkout for a plan and return its URL
+   */
+  createCheckoutSession = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+      const { planId } = req.body;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const user = await UserModel.findByPk(userId);
+      if (!user) {
+        res.sendError('User not found', 404);
+        return;
+      }
+
+      if (appConfig.auth.requireVerifiedEmailForSubscription && !user.email_verified_at) {
+        res.sendError('Email address must be verified before subscribing', 403);
+        return;
+      }
+
+      const plan = await this.planService.getSubscribable(planId);
+      if (!plan.success || !plan.data) {
+        res.sendError(plan.error || 'Failed to get plan', plan.error === 'Plan not found' ? 404 : 500);
+        return;
+      }
+
+      if (await this.hasCurrentSubscription(userId)) {
+        res.sendError('You already have an active subscription', 409);
+        return;
+      }
+
+      const customerId = await stripeService.getOrCreateCustomerId(user);
+      const session = await stripeService.createCheckoutSession(customerId, plan.data.stripe_price_id, userId);
+      if (!session.url) {
+        res.sendError('Failed to create checkout session', 502);
+        return;
+      }
+
+      const checkout: ICheckoutSession = { session_id: session.id, url: session.url };
+      res.sendSuccess(checkout, 'Checkout session created', 201);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create checkout session';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * POST /api/subscriptions/portal
+   * Open the Stripe Billing Portal for the current user and return its URL
+   */
+  createPortalSession = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const authReq = req as AuthRequest;
+      const userId = authReq.user?.id;
+
+      if (!userId) {
+        res.sendError('User not authenticated', 401);
+        return;
+      }
+
+      const user = await UserModel.findByPk(userId);
+      if (!user) {
+        res.sendError('User not found', 404);
+        return;
+      }
+
+      if (!user.stripe_customer_id) {
+        res.sendError('No billing account found', 404);
+        return;
+      }
+
+      const session = await stripeService.createBillingPortalSession(user.stripe_customer_id);
+
+      const portal: IBillingPortalSession = { url: session.url };
+      res.sendSuccess(portal, 'Billing portal session created', 201);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to create billing portal session';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * GET /api/subscriptions/change-plan/preview
+   * Show what switching the current subscription to another plan would charge now
+   */
+  previewPlanChange = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { planId } = (req as unknown as ValidatedRequest<unknown, unknown, ChangePlanPreviewQueryDto>).query;
+
+      const change = await this.resolvePlanChange(req, res, planId);
+      if (!change) {
+        return;
+      }
+
+      const prorationDate = Math.floor(Date.now() / 1000);
+      const invoice = await stripeService.previewPriceChange(
+        change.subscription.stripe_subscription_id!,
+        change.plan.stripe_price_id,
+        prorationDate
+      );
+
+      const preview: IPlanChangePreview = {
+        current_plan_id: change.subscription.plan_id ?? null,
+        new_plan_id: change.plan.id,
+        amount_due: invoice.amount_due / 100, // Convert from cents
+        currency: invoice.currency,
+        proration_date: prorationDate,
+        lines: invoice.lines.data.map((line) => ({
+          description: line.description,
+          amount: line.amount / 100,
+          proration: line.proration,
+        })),
+      };
+
+      res.sendSuccess(preview);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to preview plan change';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
+  /**
+   * POST /api/subscriptions/change-plan
+   * Switch the current subscription to another plan, charging the prorated difference now
+   */
+  changePlan = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { planId, proration_date } = req.body;
+
+      if (proration_date !== undefined) {
+        const now = Math.floor(Date.now() / 1000);
+        if (proration_date > now || now - proration_date > PRORATION_DATE_MAX_AGE_SECONDS) {
+          res.sendError('Proration date has expired; preview the plan change again', 400);
+          return;
+        }
+      }
+
+      const change = await this.resolvePlanChange(req, res, planId);
+      if (!change) {
+        return;
+      }
+
+      const stripeSubscription = await stripeService.changeSubscriptionPrice(
+        change.subscription.stripe_subscription_id!,
+        change.plan.stripe_price_id,
+        proration_date
+      );
+
+      const result = await stripeService.syncSubscriptionToDatabase(stripeSubscription, change.userId);
+      if (!result.success || !result.data) {
+        res.sendError(result.error || 'Failed to change plan', 500);
+        return;
+      }
+
+      await this.auditService.record({
+        action: AuditAction.SUBSCRIPTION_PLAN_CHANGED,
+        target_type: 'subscription',
+        target_id: result.data.id,
+        before: { plan_id: change.subscription.plan_id ?? null, plan_type: change.subscription.plan_type },
+        after: { plan_id: result.data.plan_id ?? null, plan_type: result.data.plan_type },
+        metadata: { price_id: change.plan.stripe_price_id, proration_date: proration_date ?? null },
+      });
+
+      res.sendSuccess(result.data, 'Plan changed successfully');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to change plan';
+      res.sendError(errorMessage, 400);
+    }
+  };
+
   /**
    * POST /api/subscriptions/cancel
    * Cancel subscription
@@ -122,12 +368,23 @@ class SubscriptionController {
         cancelImmediately || false
       );
 
+      const before = { status: subscription.status, cancelled_at: subscription.cancelled_at };
+
       // Update in database
       await subscription.update({
         status: cancelImmediately ? 'cancelled' : subscription.status,
         cancelled_at: cancelImmediately ? new Date() : subscription.cancelled_at,
       });
 
+      await this.auditService.record({
+        action: AuditAction.SUBSCRIPTION_CANCELLED,
+        target_type: 'subscription',
+        target_id: subscription.id,
+        before,
+        after: { status: subscription.status, cancelled_at: subscription.cancelled_at },
+        metadata: { cancel_immediately: Boolean(cancelImmediately) },
+      });
+
       res.sendSuccess(subscription, 'Subscription cancelled successfully');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to cancel subscription';
@@ -175,6 +432,61 @@ class SubscriptionController {
       res.sendError(errorMessage, 500);
     }
   };
+
+  /**
+   * Find the current user's Stripe subscription and the catalog plan to switch to
+   * Sends the error response and returns null when the change is not possible
+   */
+  private resolvePlanChange = async (
+    req: Request,
+    res: Response,
+    planId: string
+  ): Promise<{ userId: string; subscription: SubscriptionModel; plan: IPlan } | null> => {
+    const userId = (req as AuthRequest).user?.id;
+    if (!userId) {
+      res.sendError('User not authenticated', 401);
+      return null;
+    }
+
+    const subscription = await SubscriptionModel.findOne({
+      where: {
+        user_id: userId,
+        status: { [Op.in]: CURRENT_STATUSES },
+        stripe_subscription_id: { [Op.ne]: null },
+      },
+      order: [['created_at', 'DESC']],
+    });
+    if (!subscription) {
+      res.sendError('No active subscription found', 404);
+      return null;
+    }
+
+    const plan = await this.planService.getSubscribable(planId);
+    if (!plan.success || !plan.data) {
+      res.sendError(plan.error || 'Failed to get plan', plan.error === 'Plan not found' ? 404 : 500);
+      return null;
+    }
+
+    if (subscription.plan_id === plan.data.id) {
+      res.sendError('Subscription is already on this plan', 400);
+      return null;
+    }
+
+    return { userId, subscription, plan: plan.data };
+  };
+
+  /**
+   * Whether the user already has a running subscription
+   */
+  private hasCurrentSubscription = async (userId: string): Promise<boolean> => {
+    const current = await SubscriptionModel.findOne({
+      where: {
+        user_id: userId,
+        status: { [Op.in]: CURRENT_STATUSES },
+      },
+    });
+    return !!current;
+  };
 }
 
 export default SubscriptionController;
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { MovieModel } from '../models';
+import SubtitleService from '../services/subtitle_service';
+import { SUBTITLE_FORMATS, SUBTITLE_LANGUAGES, SubtitleFormat, SubtitleLanguage } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Controller for Subtitle endpoints
+ * Handles HTTP requests and responses
+ * Uses response/error handler middleware for consistent responses
+ */
+class SubtitleController {
+  private subtitleService: SubtitleService;
+
+  constructor() {
+    this.subtitleService = SubtitleService.getInstance();
+  }
+
+  /**
+   * POST /api/movies/:id/subtitles
+   * Upload an SRT or WebVTT subtitle track (admin/moderator only)
+   */
+  uploadSubtitle = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { language, content, format } = req.body;
+
+      const movie = await MovieModel.findByPk(id, { attributes: ['id'] });
+      if (!movie) {
+        res.sendError('Movie not found', 404);
+        return;
+      }
+
+      const result = await this.subtitleService.uploadSubtitle(movie.id, { language, content, format });
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data, result.message, 201);
+      } else {
+        res.sendError(result.error || 'Failed to upload subtitle', 400, result.details);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to upload subtitle';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/movies/:id/subtitles
+   * List available subtitle languages for a movie
+   */
+  getSubtitles = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const movie = await MovieModel.findByPk(id, { attributes: ['id'] });
+      if (!movie) {
+        res.sendError('Movie not found', 404);
+        return;
+      }
+
+      const result = await this.subtitleService.getSubtitles(movie.id);
+
+      if (result.success && result.data) {
+        res.sendSuccess(result.data);
+      } else {
+        res.sendError(result.error || 'Failed to get subtitles', 500);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get subtitles';
+      res.sendError(errorMessage, 500);
+    }
+  };
+
+  /**
+   * GET /api/movies/:id/subtitles/:lang.:format
+   * Serve a subtitle track as WebVTT (.vtt) or SRT (.srt) (requires the subtitles entitlement)
+   */
+  getSubtitleTrack = async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    try {
+      const { id, lang, format } = req.params;
+
+      if (!SUBTITLE_LANGUAGES.includes(lang as SubtitleLanguage)) {
+        res.sendError(`Language must be one of: ${SUBTITLE_LANGUAGES.join(', ')}`, 400);
+        return;
+      }
+
+      if (!SUBTITLE_FORMATS.includes(format as SubtitleFormat)) {
+        res.sendError(`Format must be one of: ${SUBTITLE_FORMATS.join(', ')}`, 400);
+        return;
+      }
+
+      const result = await this.subtitleService.getSubtitleTrack(id, lang as SubtitleLanguage, format as SubtitleFormat);
+
+      if (!result.success) {
+        res.sendError(result.error || 'Failed to get subtitle track', 500);
+        return;
+      }
+
+      if (!result.data) {
+        res.sendError('Subtitle not found', 404);
+        return;
+      }
+
+      res.type(result.data.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${id}.${lang}.${format}"`);
+      res.send(result.data.content);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to get subtitle track';
+      res.sendError(errorMessage, 500);
+    }
+  };
+}
+
+export default SubtitleController;
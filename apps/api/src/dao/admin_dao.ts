@@ -108,6 +108,22 @@ class AdminDao {
     }
   }
 
+  /**
+   * Find every funding of a user, newest first
+   */
+  public async findAllByUserId(userId: string): Promise<IAdminFunding[]> {
+    try {
+      const fundingModels = await AdminFundingModel.findAll({
+        where: { user_id: userId },
+        order: [['created_at', 'DESC']],
+      });
+      return fundingModels.map((model) => this.mapToInterface(model));
+    } catch (error) {
+      console.error(`Error in AdminDao.findAllByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Update funding status
    */
@@ -0,0 +1,165 @@
+import { Op } from 'sequelize';
+import { ApiKeyModel } from '../models';
+import { ApiKeyScope, IApiKey } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for ApiKey operations
+ * Handles all database operations for hashed API keys
+ */
+class ApiKeyDao {
+  private static instance: ApiKeyDao;
+
+  private constructor() {}
+
+  public static getInstance(): ApiKeyDao {
+    if (!ApiKeyDao.instance) {
+      ApiKeyDao.instance = new ApiKeyDao();
+    }
+    return ApiKeyDao.instance;
+  }
+
+  /**
+   * Store a new key hash
+   */
+  public async create(data: {
+    user_id: string;
+    name: string;
+    prefix: string;
+    key_hash: string;
+    scopes: ApiKeyScope[];
+    expires_at: Date | null;
+  }): Promise<IApiKey> {
+    try {
+      const apiKey = await ApiKeyModel.create(data);
+      return this.mapToInterface(apiKey);
+    } catch (error) {
+      console.error('Error in ApiKeyDao.create:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an unrevoked, unexpired key by hash
+   */
+  public async findActiveByHash(keyHash: string): Promise<IApiKey | null> {
+    try {
+      const apiKey = await ApiKeyModel.findOne({
+        where: {
+          key_hash: keyHash,
+          revoked_at: null,
+          [Op.or]: [{ expires_at: null }, { expires_at: { [Op.gt]: new Date() } }],
+        },
+      });
+      return apiKey ? this.mapToInterface(apiKey) : null;
+    } catch (error) {
+      console.error('Error in ApiKeyDao.findActiveByHash:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's unrevoked keys, newest first
+   * Expired keys are included so their owner can see and revoke them
+   */
+  public async findByUserId(userId: string): Promise<IApiKey[]> {
+    try {
+      const apiKeys = await ApiKeyModel.findAll({
+        where: { user_id: userId, revoked_at: null },
+        order: [['created_at', 'DESC']],
+      });
+      return apiKeys.map((apiKey) => this.mapToInterface(apiKey));
+    } catch (error) {
+      console.error(`Error in ApiKeyDao.findByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record key use
+   * Skipped when the key was already marked used after staleBefore
+   */
+  public async touch(id: string, staleBefore: Date): Promise<void> {
+    try {
+      await ApiKeyModel.update(
+        { last_used_at: new Date() },
+        {
+          where: {
+            id,
+            [Op.or]: [{ last_used_at: null }, { last_used_at: { [Op.lt]: staleBefore } }],
+          },
+        }
+      );
+    } catch (error) {
+      console.error(`Error in ApiKeyDao.touch (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a key belonging to a user
+   * Returns false when the key was already revoked or does not exist
+   */
+  public async revoke(id: string, userId: string): Promise<boolean> {
+    try {
+      const [affected] = await ApiKeyModel.update(
+        { revoked_at: new Date() },
+        { where: { id, user_id: userId, revoked_at: null } }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in ApiKeyDao.revoke (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every active key of a user
+   * Returns the number of keys revoked
+   */
+  public async revokeAllForUser(userId: string): Promise<number> {
+    try {
+      const [affected] = await ApiKeyModel.update(
+        { revoked_at: new Date() },
+        { where: { user_id: userId, revoked_at: null } }
+      );
+      return affected;
+    } catch (error) {
+      console.error(`Error in ApiKeyDao.revokeAllForUser (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every key of a user
+   * Returns the number of keys deleted
+   */
+  public async deleteByUserId(userId: string): Promise<number> {
+    try {
+      return await ApiKeyModel.destroy({ where: { user_id: userId } });
+    } catch (error) {
+      console.error(`Error in ApiKeyDao.deleteByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map ApiKeyModel to IApiKey interface
+   */
+  private mapToInterface(apiKey: ApiKeyModel): IApiKey {
+    return {
+      id: apiKey.id,
+      user_id: apiKey.user_id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      key_hash: apiKey.key_hash,
+      scopes: (apiKey.scopes || []) as ApiKeyScope[],
+      expires_at: apiKey.expires_at,
+      last_used_at: apiKey.last_used_at,
+      revoked_at: apiKey.revoked_at,
+      created_at: apiKey.created_at,
+      updated_at: apiKey.updated_at,
+    };
+  }
+}
+
+export default ApiKeyDao;
@@ -0,0 +1,100 @@
+import { Op, WhereOptions } from 'sequelize';
+import { AuditEventModel } from '../models';
+import { AuditAction, AuditActorType, AuditChanges, IAuditEvent, IAuditEventFilters, UserRole } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for AuditEvent operations
+ * Handles all database operations for the append-only audit log
+ * There are deliberately no update or delete methods
+ */
+class AuditEventDao {
+  private static instance: AuditEventDao;
+
+  private constructor() {}
+
+  public static getInstance(): AuditEventDao {
+    if (!AuditEventDao.instance) {
+      AuditEventDao.instance = new AuditEventDao();
+    }
+    return AuditEventDao.instance;
+  }
+
+  /**
+   * Append an event
+   */
+  public async create(data: Omit<IAuditEvent, 'id' | 'created_at'>): Promise<IAuditEvent> {
+    try {
+      const event = await AuditEventModel.create(data);
+      return this.mapToInterface(event);
+    } catch (error) {
+      console.error(`Error in AuditEventDao.create (${data.action}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find events matching the filters, newest first
+   */
+  public async findAll(
+    filters: IAuditEventFilters,
+    options: { limit: number; offset: number }
+  ): Promise<{ rows: IAuditEvent[]; count: number }> {
+    try {
+      const { rows, count } = await AuditEventModel.findAndCountAll({
+        where: this.buildWhere(filters),
+        order: [['created_at', 'DESC'], ['id', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+      });
+      return { rows: rows.map((event) => this.mapToInterface(event)), count };
+    } catch (error) {
+      console.error('Error in AuditEventDao.findAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build the where clause for a set of filters
+   */
+  private buildWhere(filters: IAuditEventFilters): WhereOptions {
+    const where: Record<string | symbol, unknown> = {};
+
+    for (const field of ['actor_type', 'actor_id', 'action', 'target_type', 'target_id', 'request_id'] as const) {
+      if (filters[field] !== undefined) {
+        where[field] = filters[field];
+      }
+    }
+
+    if (filters.from || filters.to) {
+      where.created_at = {
+        ...(filters.from ? { [Op.gte]: filters.from } : {}),
+        ...(filters.to ? { [Op.lte]: filters.to } : {}),
+      };
+    }
+
+    return where as WhereOptions;
+  }
+
+  /**
+   * Map AuditEventModel to IAuditEvent interface
+   */
+  private mapToInterface(event: AuditEventModel): IAuditEvent {
+    return {
+      id: event.id,
+      actor_type: event.actor_type as AuditActorType,
+      actor_id: event.actor_id,
+      actor_role: event.actor_role as UserRole | null,
+      api_key_id: event.api_key_id,
+      action: event.action as AuditAction,
+      target_type: event.target_type,
+      target_id: event.target_id,
+      changes: event.changes as AuditChanges | null,
+      metadata: event.metadata,
+      ip_address: event.ip_address,
+      request_id: event.request_id,
+      created_at: event.created_at,
+    };
+  }
+}
+
+export default AuditEventDao;
@@ -173,6 +173,11 @@ class AuthDao {
       role: UserRole;
       is_active: boolean;
       last_login: Date;
+      two_factor_secret: string | null;
+      two_factor_enabled_at: Date | null;
+      two_factor_recovery_codes: string[];
+      two_factor_last_step: number | null;
+      locked_until: Date | null;
     }>
   ): Promise<IAuth | null> {
     try {
@@ -234,6 +239,11 @@ class AuthDao {
       role: model.role as UserRole,
       is_active: model.is_active,
       last_login: model.last_login,
+      two_factor_secret: model.two_factor_secret,
+      two_factor_enabled_at: model.two_factor_enabled_at,
+      two_factor_recovery_codes: model.two_factor_recovery_codes || [],
+      two_factor_last_step: model.two_factor_last_step,
+      locked_until: model.locked_until,
       created_at: model.created_at,
       updated_at: model.updated_at,
     };
@@ -0,0 +1,194 @@
+import { Op } from 'sequelize';
+import { AuthSessionModel } from '../models';
+import { IAuthSession } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for AuthSession operations
+ * Handles all database operations for signed-in sessions
+ */
+class AuthSessionDao {
+  private static instance: AuthSessionDao;
+
+  private constructor() {}
+
+  public static getInstance(): AuthSessionDao {
+    if (!AuthSessionDao.instance) {
+      AuthSessionDao.instance = new AuthSessionDao();
+    }
+    return AuthSessionDao.instance;
+  }
+
+  /**
+   * Create a new session
+   */
+  public async create(data: {
+    id: string;
+    user_id: string;
+    user_agent?: string;
+    ip_address?: string;
+    expires_at: Date;
+  }): Promise<IAuthSession> {
+    try {
+      const session = await AuthSessionModel.create({ ...data, last_used_at: new Date() });
+      return this.mapToInterface(session);
+    } catch (error) {
+      console.error('Error in AuthSessionDao.create:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find session by ID
+   */
+  public async findById(id: string): Promise<IAuthSession | null> {
+    try {
+      const session = await AuthSessionModel.findByPk(id);
+      return session ? this.mapToInterface(session) : null;
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.findById (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's active sessions, most recently used first
+   */
+  public async findActiveByUserId(userId: string): Promise<IAuthSession[]> {
+    try {
+      const sessions = await AuthSessionModel.findAll({
+        where: {
+          user_id: userId,
+          revoked_at: null,
+          expires_at: { [Op.gt]: new Date() },
+        },
+        order: [
+          ['last_used_at', 'DESC NULLS LAST'],
+          ['created_at', 'DESC'],
+        ],
+      });
+      return sessions.map((session) => this.mapToInterface(session));
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.findActiveByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a session exists, is not revoked and has not expired
+   */
+  public async isActive(id: string): Promise<boolean> {
+    try {
+      const count = await AuthSessionModel.count({
+        where: {
+          id,
+          revoked_at: null,
+          expires_at: { [Op.gt]: new Date() },
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.isActive (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push a session's expiry forward after its refresh token is rotated
+   */
+  public async extend(id: string, expiresAt: Date): Promise<void> {
+    try {
+      await AuthSessionModel.update({ expires_at: expiresAt, last_used_at: new Date() }, { where: { id } });
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.extend (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record session activity
+   * Skipped when the session was already marked used after staleBefore, so
+   * busy sessions are not written on every request
+   */
+  public async touch(id: string, staleBefore: Date): Promise<void> {
+    try {
+      await AuthSessionModel.update(
+        { last_used_at: new Date() },
+        {
+          where: {
+            id,
+            [Op.or]: [{ last_used_at: null }, { last_used_at: { [Op.lt]: staleBefore } }],
+          },
+        }
+      );
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.touch (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a session, optionally only when it belongs to the given user
+   * Returns false when the session was already revoked or does not exist
+   */
+  public async revoke(id: string, userId?: string): Promise<boolean> {
+    try {
+      const [affected] = await AuthSessionModel.update(
+        { revoked_at: new Date() },
+        { where: { id, revoked_at: null, ...(userId ? { user_id: userId } : {}) } }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.revoke (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every active session of a user
+   * Returns the number of sessions revoked
+   */
+  public async revokeAllForUser(userId: string): Promise<number> {
+    try {
+      const [affected] = await AuthSessionModel.update(
+        { revoked_at: new Date() },
+        { where: { user_id: userId, revoked_at: null } }
+      );
+      return affected;
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.revokeAllForUser (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every session of a user (refresh tokens go with them)
+   * Returns the number of sessions deleted
+   */
+  public async deleteByUserId(userId: string): Promise<number> {
+    try {
+      return await AuthSessionModel.destroy({ where: { user_id: userId } });
+    } catch (error) {
+      console.error(`Error in AuthSessionDao.deleteByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map AuthSessionModel to IAuthSession interface
+   */
+  private mapToInterface(session: AuthSessionModel): IAuthSession {
+    return {
+      id: session.id,
+      user_id: session.user_id,
+      user_agent: session.user_agent,
+      ip_address: session.ip_address,
+      last_used_at: session.last_used_at,
+      expires_at: session.expires_at,
+      revoked_at: session.revoked_at,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+    };
+  }
+}
+
+export default AuthSessionDao;
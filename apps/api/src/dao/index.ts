@@ -10,4 +10,16 @@ export { default as ApiCreditDao } from './api_credit_dao';
 export { default as MovieDao } from './movie_dao';
 export { default as ApiUsageDao } from './api_usage_dao';
 export { default as PaymentDao } from './payment_dao';
+export { default as TmdbCacheDao } from './tmdb_cache_dao';
+export { default as SubtitleDao } from './subtitle_dao';
+export { default as UserMovieDao } from './user_movie_dao';
+export { default as AuthSessionDao } from './auth_session_dao';
+export { default as RefreshTokenDao } from './refresh_token_dao';
+export { default as UserTokenDao } from './user_token_dao';
+export { default as LoginAttemptDao } from './login_attempt_dao';
+export { default as RolePermissionDao } from './role_permission_dao';
+export { default as ApiKeyDao } from './api_key_dao';
 
+export { default as AuditEventDao } from './audit_event_dao';
+export { default as StripeEventDao } from './stripe_event_dao';
+export { default as PlanDao } from './plan_dao';
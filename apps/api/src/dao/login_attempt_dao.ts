@@ -0,0 +1,86 @@
+import { LoginAttemptModel } from '../models';
+import { ILoginAttempt } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for LoginAttempt operations
+ * Handles all database operations for failed login attempt counters
+ */
+class LoginAttemptDao {
+  private static instance: LoginAttemptDao;
+
+  private constructor() {}
+
+  public static getInstance(): LoginAttemptDao {
+    if (!LoginAttemptDao.instance) {
+      LoginAttemptDao.instance = new LoginAttemptDao();
+    }
+    return LoginAttemptDao.instance;
+  }
+
+  /**
+   * Find the counter for a key
+   */
+  public async findByKey(key: string): Promise<ILoginAttempt | null> {
+    try {
+      const attempt = await LoginAttemptModel.findByPk(key);
+      return attempt ? this.mapToInterface(attempt) : null;
+    } catch (error) {
+      console.error(`Error in LoginAttemptDao.findByKey (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a failure for a key
+   * Starts over at 1 when the previous failure is older than staleBefore
+   */
+  public async recordFailure(key: string, staleBefore: Date): Promise<ILoginAttempt> {
+    try {
+      const now = new Date();
+      const [attempt, created] = await LoginAttemptModel.findOrCreate({
+        where: { key },
+        defaults: { key, failures: 1, last_failed_at: now },
+      });
+
+      if (!created) {
+        if (attempt.last_failed_at <= staleBefore) {
+          await attempt.update({ failures: 1, last_failed_at: now });
+        } else {
+          await attempt.increment('failures');
+          await attempt.update({ last_failed_at: now });
+          await attempt.reload();
+        }
+      }
+
+      return this.mapToInterface(attempt);
+    } catch (error) {
+      console.error(`Error in LoginAttemptDao.recordFailure (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the counter for a key
+   */
+  public async deleteByKey(key: string): Promise<void> {
+    try {
+      await LoginAttemptModel.destroy({ where: { key } });
+    } catch (error) {
+      console.error(`Error in LoginAttemptDao.deleteByKey (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map Sequelize model to interface
+   */
+  private mapToInterface(model: LoginAttemptModel): ILoginAttempt {
+    return {
+      key: model.key,
+      failures: model.failures,
+      last_failed_at: model.last_failed_at,
+    };
+  }
+}
+
+export default LoginAttemptDao;
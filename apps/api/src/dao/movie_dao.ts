@@ -1,5 +1,6 @@
+import { Op } from 'sequelize';
 import { MovieModel, MovieCategoryModel } from '../models';
-import { MovieCategory } from '@nx-mono-repo-deployment-test/shared';
+import { IStreamingLink, IStreamingRegionRefresh, MovieCategory } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Data Access Object for Movie operations
@@ -60,7 +61,7 @@ class MovieDao {
     vote_count?: number;
     popularity?: number;
     content_type: string;
-    streaming_links?: unknown[];
+    streaming_links?: IStreamingLink[];
   }): Promise<MovieModel> {
     try {
       return await MovieModel.create(data);
@@ -88,7 +89,7 @@ class MovieDao {
       vote_count: number;
       popularity: number;
       content_type: string;
-      streaming_links: unknown[];
+      streaming_links: IStreamingLink[];
     }>
   ): Promise<MovieModel | null> {
     try {
@@ -143,6 +144,61 @@ class MovieDao {
     }
   }
 
+  /**
+   * Update a movie's streaming links under a row lock
+   * update receives the locked row, so concurrent refreshes of other regions are never overwritten
+   */
+  public async updateStreamingLinks(
+    id: string,
+    update: (current: MovieModel) => {
+      streaming_links: IStreamingLink[];
+      streaming_regions: Record<string, IStreamingRegionRefresh>;
+      streaming_links_refresh_at: Date | null;
+      streaming_links_updated_at?: Date | null;
+    }
+  ): Promise<MovieModel | null> {
+    try {
+      return await MovieModel.sequelize!.transaction(async (transaction) => {
+        const movie = await MovieModel.findByPk(id, { transaction, lock: transaction.LOCK.UPDATE });
+        if (!movie) {
+          return null;
+        }
+
+        await movie.update(update(movie), { transaction });
+        return movie;
+      });
+    } catch (error) {
+      console.error(`Error in MovieDao.updateStreamingLinks (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find movies with a region due for a streaming links refresh at dueBefore,
+   * or never refreshed at all. Most popular titles first
+   */
+  public async findWithStaleStreamingLinks(dueBefore: Date, limit: number): Promise<MovieModel[]> {
+    try {
+      return await MovieModel.findAll({
+        where: {
+          tmdb_id: { [Op.ne]: null },
+          [Op.or]: [
+            { streaming_links_refresh_at: null },
+            { streaming_links_refresh_at: { [Op.lte]: dueBefore } },
+          ],
+        },
+        order: [
+          ['popularity', 'DESC NULLS LAST'],
+          ['streaming_links_refresh_at', 'ASC NULLS FIRST'],
+        ],
+        limit,
+      });
+    } catch (error) {
+      console.error('Error in MovieDao.findWithStaleStreamingLinks:', error);
+      throw error;
+    }
+  }
+
   /**
    * Delete movie categories for a movie
    */
@@ -57,6 +57,24 @@ class PaymentDao {
     }
   }
 
+  /**
+   * Strip a user's payments down to what bookkeeping has to keep
+   * Amounts, currency, status, dates and Stripe IDs stay; the payment method goes
+   * Returns the number of payments updated
+   */
+  public async anonymizeByUserId(userId: string): Promise<number> {
+    try {
+      const [affected] = await PaymentModel.update(
+        { payment_method: null },
+        { where: { user_id: userId } }
+      );
+      return affected;
+    } catch (error) {
+      console.error(`Error in PaymentDao.anonymizeByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new payment record
    */
@@ -77,6 +95,34 @@ class PaymentDao {
     }
   }
 
+  /**
+   * Create a payment, or update updateFields on the one with the same payment intent
+   * A single INSERT ... ON CONFLICT, so webhooks racing on one payment intent cannot both insert
+   */
+  public async upsertByStripePaymentIntentId(
+    data: {
+      user_id: string;
+      amount: number;
+      currency: string;
+      status: string;
+      stripe_payment_intent_id: string;
+      subscription_id?: string;
+      metadata?: Record<string, unknown>;
+    },
+    updateFields: Array<'status' | 'amount' | 'subscription_id' | 'metadata'>
+  ): Promise<PaymentModel> {
+    try {
+      const [payment] = await PaymentModel.upsert(data, {
+        conflictFields: ['stripe_payment_intent_id'],
+        fields: updateFields,
+      });
+      return payment;
+    } catch (error) {
+      console.error(`Error in PaymentDao.upsertByStripePaymentIntentId (${data.stripe_payment_intent_id}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Update payment status
    */
@@ -103,6 +149,7 @@ class PaymentDao {
     data: Partial<{
       status: string;
       amount: number;
+      subscription_id: string;
       metadata: Record<string, unknown>;
     }>
   ): Promise<PaymentModel | null> {
@@ -0,0 +1,147 @@
+import { Op } from 'sequelize';
+import { PlanModel } from '../models';
+import { Entitlement, IPlan, PlanType } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Fields of a plan that can be set
+ */
+type PlanFields = Omit<IPlan, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Data Access Object for Plan operations
+ * Handles all database operations for the subscription plan catalog
+ */
+class PlanDao {
+  private static instance: PlanDao;
+
+  private constructor() {}
+
+  public static getInstance(): PlanDao {
+    if (!PlanDao.instance) {
+      PlanDao.instance = new PlanDao();
+    }
+    return PlanDao.instance;
+  }
+
+  /**
+   * Find a plan by ID
+   */
+  public async findById(id: string): Promise<IPlan | null> {
+    try {
+      const plan = await PlanModel.findByPk(id);
+      return plan ? this.mapToInterface(plan) : null;
+    } catch (error) {
+      console.error(`Error in PlanDao.findById (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find plans by ID
+   */
+  public async findByIds(ids: string[]): Promise<IPlan[]> {
+    try {
+      if (ids.length === 0) {
+        return [];
+      }
+      const plans = await PlanModel.findAll({ where: { id: { [Op.in]: ids } } });
+      return plans.map((plan) => this.mapToInterface(plan));
+    } catch (error) {
+      console.error('Error in PlanDao.findByIds:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the plan billed through a Stripe price
+   */
+  public async findByStripePriceId(stripePriceId: string): Promise<IPlan | null> {
+    try {
+      const plan = await PlanModel.findOne({ where: { stripe_price_id: stripePriceId } });
+      return plan ? this.mapToInterface(plan) : null;
+    } catch (error) {
+      console.error(`Error in PlanDao.findByStripePriceId (${stripePriceId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all plans, or only active ones, cheapest first
+   */
+  public async findAll(activeOnly: boolean = false): Promise<IPlan[]> {
+    try {
+      const plans = await PlanModel.findAll({
+        where: activeOnly ? { is_active: true } : {},
+        order: [['price', 'ASC'], ['name', 'ASC']],
+      });
+      return plans.map((plan) => this.mapToInterface(plan));
+    } catch (error) {
+      console.error('Error in PlanDao.findAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a new plan
+   */
+  public async create(data: PlanFields): Promise<IPlan> {
+    try {
+      const plan = await PlanModel.create(data);
+      return this.mapToInterface(plan);
+    } catch (error) {
+      console.error('Error in PlanDao.create:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a plan
+   */
+  public async update(id: string, data: Partial<PlanFields>): Promise<IPlan | null> {
+    try {
+      const plan = await PlanModel.findByPk(id);
+      if (!plan) {
+        return null;
+      }
+
+      await plan.update(data);
+      return this.mapToInterface(plan);
+    } catch (error) {
+      console.error(`Error in PlanDao.update (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a plan
+   */
+  public async delete(id: string): Promise<boolean> {
+    try {
+      const deleted = await PlanModel.destroy({ where: { id } });
+      return deleted > 0;
+    } catch (error) {
+      console.error(`Error in PlanDao.delete (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map PlanModel to IPlan interface
+   */
+  private mapToInterface(plan: PlanModel): IPlan {
+    return {
+      id: plan.id,
+      name: plan.name,
+      interval: plan.interval as PlanType,
+      price: Number(plan.price),
+      currency: plan.currency,
+      stripe_price_id: plan.stripe_price_id,
+      entitlements: plan.entitlements as Entitlement[],
+      is_active: plan.is_active,
+      created_at: plan.created_at,
+      updated_at: plan.updated_at,
+    };
+  }
+}
+
+export default PlanDao;
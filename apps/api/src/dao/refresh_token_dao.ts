@@ -0,0 +1,84 @@
+import { RefreshTokenModel } from '../models';
+import { IRefreshToken } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for RefreshToken operations
+ * Handles all database operations for hashed refresh tokens
+ */
+class RefreshTokenDao {
+  private static instance: RefreshTokenDao;
+
+  private constructor() {}
+
+  public static getInstance(): RefreshTokenDao {
+    if (!RefreshTokenDao.instance) {
+      RefreshTokenDao.instance = new RefreshTokenDao();
+    }
+    return RefreshTokenDao.instance;
+  }
+
+  /**
+   * Store a refresh token hash
+   */
+  public async create(data: {
+    id: string;
+    session_id: string;
+    token_hash: string;
+    expires_at: Date;
+  }): Promise<IRefreshToken> {
+    try {
+      const token = await RefreshTokenModel.create(data);
+      return this.mapToInterface(token);
+    } catch (error) {
+      console.error('Error in RefreshTokenDao.create:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find refresh token by ID (the JWT's jti)
+   */
+  public async findById(id: string): Promise<IRefreshToken | null> {
+    try {
+      const token = await RefreshTokenModel.findByPk(id);
+      return token ? this.mapToInterface(token) : null;
+    } catch (error) {
+      console.error(`Error in RefreshTokenDao.findById (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a token as rotated into another
+   * Conditional on the token not having been rotated yet, so two concurrent
+   * refreshes with the same token cannot both succeed
+   */
+  public async markReplaced(id: string, replacedBy: string): Promise<boolean> {
+    try {
+      const [affected] = await RefreshTokenModel.update(
+        { replaced_by: replacedBy },
+        { where: { id, replaced_by: null } }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in RefreshTokenDao.markReplaced (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map RefreshTokenModel to IRefreshToken interface
+   */
+  private mapToInterface(token: RefreshTokenModel): IRefreshToken {
+    return {
+      id: token.id,
+      session_id: token.session_id,
+      token_hash: token.token_hash,
+      expires_at: token.expires_at,
+      replaced_by: token.replaced_by,
+      created_at: token.created_at,
+    };
+  }
+}
+
+export default RefreshTokenDao;
@@ -0,0 +1,86 @@
+import { RolePermissionModel } from '../models';
+import { IRolePermission, Permission, UserRole } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for RolePermission operations
+ * Handles all database operations for the role → permission mapping
+ */
+class RolePermissionDao {
+  private static instance: RolePermissionDao;
+
+  private constructor() {}
+
+  public static getInstance(): RolePermissionDao {
+    if (!RolePermissionDao.instance) {
+      RolePermissionDao.instance = new RolePermissionDao();
+    }
+    return RolePermissionDao.instance;
+  }
+
+  /**
+   * Find the whole mapping
+   */
+  public async findAll(): Promise<IRolePermission[]> {
+    try {
+      const rows = await RolePermissionModel.findAll({
+        order: [['role', 'ASC'], ['permission', 'ASC']],
+      });
+      return rows.map((row) => this.mapToInterface(row));
+    } catch (error) {
+      console.error('Error in RolePermissionDao.findAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count mapping rows
+   */
+  public async count(): Promise<number> {
+    try {
+      return await RolePermissionModel.count();
+    } catch (error) {
+      console.error('Error in RolePermissionDao.count:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert mapping rows
+   */
+  public async bulkCreate(rows: Array<{ role: UserRole; permission: Permission }>): Promise<void> {
+    try {
+      await RolePermissionModel.bulkCreate(rows);
+    } catch (error) {
+      console.error('Error in RolePermissionDao.bulkCreate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the permissions granted to a role
+   */
+  public async replaceForRole(role: UserRole, permissions: Permission[]): Promise<void> {
+    try {
+      await RolePermissionModel.destroy({ where: { role } });
+      if (permissions.length > 0) {
+        await RolePermissionModel.bulkCreate(permissions.map((permission) => ({ role, permission })));
+      }
+    } catch (error) {
+      console.error(`Error in RolePermissionDao.replaceForRole (${role}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map Sequelize model to interface
+   */
+  private mapToInterface(model: RolePermissionModel): IRolePermission {
+    return {
+      role: model.role as UserRole,
+      permission: model.permission as Permission,
+      created_at: model.created_at,
+    };
+  }
+}
+
+export default RolePermissionDao;
@@ -0,0 +1,164 @@
+import { Op, WhereOptions, literal } from 'sequelize';
+import { StripeEventModel } from '../models';
+import { IStripeEvent, StripeEventStatus } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for StripeEvent operations
+ * Handles all database operations for received Stripe webhook events
+ */
+class StripeEventDao {
+  private static instance: StripeEventDao;
+
+  private constructor() {}
+
+  public static getInstance(): StripeEventDao {
+    if (!StripeEventDao.instance) {
+      StripeEventDao.instance = new StripeEventDao();
+    }
+    return StripeEventDao.instance;
+  }
+
+  /**
+   * Find an event by ID
+   */
+  public async findById(id: string): Promise<IStripeEvent | null> {
+    try {
+      const event = await StripeEventModel.findByPk(id);
+      return event ? this.mapToInterface(event) : null;
+    } catch (error) {
+      console.error(`Error in StripeEventDao.findById (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a received event as processing, or find it when it was received before
+   */
+  public async findOrCreate(data: {
+    stripe_event_id: string;
+    type: string;
+    payload: Record<string, unknown>;
+  }): Promise<{ event: IStripeEvent; created: boolean }> {
+    try {
+      const [event, created] = await StripeEventModel.findOrCreate({
+        where: { stripe_event_id: data.stripe_event_id },
+        defaults: {
+          ...data,
+          status: StripeEventStatus.PROCESSING,
+          attempts: 1,
+        },
+      });
+      return { event: this.mapToInterface(event), created };
+    } catch (error) {
+      console.error(`Error in StripeEventDao.findOrCreate (${data.stripe_event_id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a failed event, or one stuck processing since before staleBefore, as processing again
+   * Returns false when another request claimed it first or it needs no processing
+   */
+  public async claim(id: string, staleBefore: Date): Promise<boolean> {
+    try {
+      const [affected] = await StripeEventModel.update(
+        {
+          status: StripeEventStatus.PROCESSING,
+          attempts: literal('attempts + 1'),
+        },
+        {
+          where: {
+            id,
+            [Op.or]: [
+              { status: StripeEventStatus.FAILED },
+              { status: StripeEventStatus.PROCESSING, updated_at: { [Op.lt]: staleBefore } },
+            ],
+          },
+        }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in StripeEventDao.claim (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that processing an event finished
+   */
+  public async markDone(id: string, status: StripeEventStatus.PROCESSED | StripeEventStatus.IGNORED): Promise<void> {
+    try {
+      await StripeEventModel.update(
+        { status, last_error: null, processed_at: new Date() },
+        { where: { id } }
+      );
+    } catch (error) {
+      console.error(`Error in StripeEventDao.markDone (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that processing an event failed
+   */
+  public async markFailed(id: string, lastError: string): Promise<void> {
+    try {
+      await StripeEventModel.update(
+        { status: StripeEventStatus.FAILED, last_error: lastError },
+        { where: { id } }
+      );
+    } catch (error) {
+      console.error(`Error in StripeEventDao.markFailed (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find events matching the filters, newest first
+   */
+  public async findAll(
+    filters: { status?: StripeEventStatus; type?: string },
+    options: { limit: number; offset: number }
+  ): Promise<{ rows: IStripeEvent[]; count: number }> {
+    try {
+      const where: Record<string, unknown> = {};
+      if (filters.status) {
+        where.status = filters.status;
+      }
+      if (filters.type) {
+        where.type = filters.type;
+      }
+
+      const { rows, count } = await StripeEventModel.findAndCountAll({
+        where: where as WhereOptions,
+        order: [['created_at', 'DESC'], ['id', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+      });
+      return { rows: rows.map((event) => this.mapToInterface(event)), count };
+    } catch (error) {
+      console.error('Error in StripeEventDao.findAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map StripeEventModel to IStripeEvent interface
+   */
+  private mapToInterface(event: StripeEventModel): IStripeEvent {
+    return {
+      id: event.id,
+      stripe_event_id: event.stripe_event_id,
+      type: event.type,
+      status: event.status as StripeEventStatus,
+      attempts: event.attempts,
+      last_error: event.last_error,
+      payload: event.payload,
+      processed_at: event.processed_at,
+      created_at: event.created_at,
+      updated_at: event.updated_at,
+    };
+  }
+}
+
+export default StripeEventDao;
@@ -77,6 +77,18 @@ class SubscriptionDao {
     }
   }
 
+  /**
+   * Count subscriptions on a catalog plan
+   */
+  public async countByPlanId(planId: string): Promise<number> {
+    try {
+      return await SubscriptionModel.count({ where: { plan_id: planId } });
+    } catch (error) {
+      console.error(`Error in SubscriptionDao.countByPlanId (${planId}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new subscription
    */
@@ -85,6 +97,7 @@ class SubscriptionDao {
     stripe_subscription_id?: string;
     status: SubscriptionStatus;
     plan_type: PlanType;
+    plan_id?: string | null;
     start_date?: Date;
     end_date?: Date;
     current_period_start?: Date;
@@ -109,6 +122,7 @@ class SubscriptionDao {
       stripe_subscription_id: string;
       status: SubscriptionStatus;
       plan_type: PlanType;
+      plan_id: string | null;
       start_date: Date;
       end_date: Date;
       current_period_start: Date;
@@ -203,6 +217,7 @@ class SubscriptionDao {
       stripe_subscription_id: model.stripe_subscription_id,
       status: model.status as SubscriptionStatus,
       plan_type: model.plan_type as PlanType,
+      plan_id: model.plan_id,
       start_date: model.start_date,
       end_date: model.end_date,
       current_period_start: model.current_period_start,
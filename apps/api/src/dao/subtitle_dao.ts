@@ -0,0 +1,163 @@
+import { SubtitleModel } from '../models';
+import { ISubtitle, SubtitleLanguage, SubtitleTranslationStatus } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for Subtitle operations
+ * Handles all database operations for subtitle tracks
+ */
+class SubtitleDao {
+  private static instance: SubtitleDao;
+
+  private constructor() {}
+
+  public static getInstance(): SubtitleDao {
+    if (!SubtitleDao.instance) {
+      SubtitleDao.instance = new SubtitleDao();
+    }
+    return SubtitleDao.instance;
+  }
+
+  /**
+   * Find subtitle track by ID
+   */
+  public async findById(id: string): Promise<SubtitleModel | null> {
+    try {
+      return await SubtitleModel.findByPk(id);
+    } catch (error) {
+      console.error(`Error in SubtitleDao.findById (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all subtitle tracks for a movie
+   */
+  public async findByMovieId(movieId: string): Promise<ISubtitle[]> {
+    try {
+      const subtitles = await SubtitleModel.findAll({
+        where: { movie_id: movieId },
+        attributes: { exclude: ['srt_content'] },
+        order: [['language', 'ASC']],
+      });
+      return subtitles.map((subtitle) => this.mapToInterface(subtitle));
+    } catch (error) {
+      console.error(`Error in SubtitleDao.findByMovieId (${movieId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find subtitle track for a movie and language
+   */
+  public async findByMovieAndLanguage(movieId: string, language: SubtitleLanguage): Promise<SubtitleModel | null> {
+    try {
+      return await SubtitleModel.findOne({
+        where: { movie_id: movieId, language },
+      });
+    } catch (error) {
+      console.error(`Error in SubtitleDao.findByMovieAndLanguage (${movieId}, ${language}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the subtitle track for a movie and language
+   */
+  public async upsert(data: {
+    movie_id: string;
+    language: SubtitleLanguage;
+    srt_content: string | null;
+    translated_by_ai?: boolean;
+    translation_status?: SubtitleTranslationStatus;
+  }): Promise<ISubtitle> {
+    try {
+      const [subtitle] = await SubtitleModel.upsert(
+        {
+          translated_by_ai: false,
+          translation_status: 'completed',
+          translation_error: null,
+          translation_attempts: 0,
+          ...data,
+        },
+        { conflictFields: ['movie_id', 'language'] }
+      );
+      return this.mapToInterface(subtitle);
+    } catch (error) {
+      console.error(`Error in SubtitleDao.upsert (${data.movie_id}, ${data.language}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find AI-translated tracks, optionally filtered by translation status
+   * Oldest first so queued work is processed in order
+   */
+  public async findTranslations(options?: {
+    status?: SubtitleTranslationStatus[];
+    limit?: number;
+  }): Promise<ISubtitle[]> {
+    try {
+      const where: Record<string, unknown> = { translated_by_ai: true };
+      if (options?.status) {
+        where.translation_status = options.status;
+      }
+
+      const subtitles = await SubtitleModel.findAll({
+        where,
+        attributes: { exclude: ['srt_content'] },
+        order: [['updated_at', 'ASC']],
+        limit: options?.limit,
+      });
+      return subtitles.map((subtitle) => this.mapToInterface(subtitle));
+    } catch (error) {
+      console.error('Error in SubtitleDao.findTranslations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update translation state of a subtitle track
+   */
+  public async updateTranslation(
+    id: string,
+    data: Partial<{
+      srt_content: string | null;
+      translated_by_ai: boolean;
+      translation_status: SubtitleTranslationStatus;
+      translation_error: string | null;
+      translation_attempts: number;
+    }>
+  ): Promise<ISubtitle | null> {
+    try {
+      const subtitle = await SubtitleModel.findByPk(id);
+      if (!subtitle) {
+        return null;
+      }
+
+      await subtitle.update(data);
+      return this.mapToInterface(subtitle);
+    } catch (error) {
+      console.error(`Error in SubtitleDao.updateTranslation (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map SubtitleModel to ISubtitle interface
+   */
+  private mapToInterface(subtitle: SubtitleModel): ISubtitle {
+    return {
+      id: subtitle.id,
+      movie_id: subtitle.movie_id,
+      language: subtitle.language as SubtitleLanguage,
+      translated_by_ai: subtitle.translated_by_ai,
+      translation_status: subtitle.translation_status as SubtitleTranslationStatus,
+      translation_error: subtitle.translation_error,
+      translation_attempts: subtitle.translation_attempts,
+      created_at: subtitle.created_at,
+      updated_at: subtitle.updated_at,
+    };
+  }
+}
+
+export default SubtitleDao;
@@ -0,0 +1,134 @@
+import { Op } from 'sequelize';
+import { TmdbCacheModel } from '../models';
+import { ITmdbCacheEntry } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for TMDB cache operations
+ * Handles all database operations for cached TMDB responses
+ */
+class TmdbCacheDao {
+  private static instance: TmdbCacheDao;
+
+  private constructor() {}
+
+  public static getInstance(): TmdbCacheDao {
+    if (!TmdbCacheDao.instance) {
+      TmdbCacheDao.instance = new TmdbCacheDao();
+    }
+    return TmdbCacheDao.instance;
+  }
+
+  /**
+   * Find cache entry by key
+   */
+  public async findByKey(key: string): Promise<TmdbCacheModel | null> {
+    try {
+      return await TmdbCacheModel.findByPk(key);
+    } catch (error) {
+      console.error(`Error in TmdbCacheDao.findByKey (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace a cache entry
+   */
+  public async upsert(data: {
+    key: string;
+    endpoint: string;
+    payload: unknown;
+    expires_at: Date;
+  }): Promise<void> {
+    try {
+      await TmdbCacheModel.upsert({ ...data, hits: 0 });
+    } catch (error) {
+      console.error(`Error in TmdbCacheDao.upsert (${data.key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Increment hit counter for a cache entry
+   */
+  public async incrementHits(key: string): Promise<void> {
+    try {
+      await TmdbCacheModel.increment('hits', { by: 1, where: { key } });
+    } catch (error) {
+      console.error(`Error in TmdbCacheDao.incrementHits (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find cache entries, optionally filtered by key prefix
+   */
+  public async findAll(options?: { prefix?: string; limit?: number }): Promise<ITmdbCacheEntry[]> {
+    try {
+      const entries = await TmdbCacheModel.findAll({
+        attributes: ['key', 'endpoint', 'hits', 'expires_at', 'created_at'],
+        where: options?.prefix ? { key: { [Op.startsWith]: options.prefix } } : undefined,
+        limit: options?.limit,
+        order: [['created_at', 'DESC']],
+      });
+      return entries.map((entry) => this.mapToInterface(entry));
+    } catch (error) {
+      console.error('Error in TmdbCacheDao.findAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count cache entries
+   */
+  public async count(): Promise<number> {
+    try {
+      return await TmdbCacheModel.count();
+    } catch (error) {
+      console.error('Error in TmdbCacheDao.count:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete cache entry by key
+   */
+  public async deleteByKey(key: string): Promise<boolean> {
+    try {
+      const deleted = await TmdbCacheModel.destroy({ where: { key } });
+      return deleted > 0;
+    } catch (error) {
+      console.error(`Error in TmdbCacheDao.deleteByKey (${key}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete cache entries, optionally filtered by key prefix
+   * @returns Number of deleted entries
+   */
+  public async deleteAll(prefix?: string): Promise<number> {
+    try {
+      return await TmdbCacheModel.destroy({
+        where: prefix ? { key: { [Op.startsWith]: prefix } } : {},
+      });
+    } catch (error) {
+      console.error('Error in TmdbCacheDao.deleteAll:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map Sequelize model to interface
+   */
+  private mapToInterface(model: TmdbCacheModel): ITmdbCacheEntry {
+    return {
+      key: model.key,
+      endpoint: model.endpoint,
+      hits: model.hits,
+      expires_at: model.expires_at,
+      created_at: model.created_at,
+    };
+  }
+}
+
+export default TmdbCacheDao;
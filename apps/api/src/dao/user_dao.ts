@@ -1,4 +1,11 @@
-import { UserModel } from '../models';
+import { Op, Order, WhereOptions } from 'sequelize';
+import { AuthModel, UserModel } from '../models';
+import { AdminUserSortField, IAdminUserSummary, UserRole } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Auth attributes included with admin user listings
+ */
+const ADMIN_AUTH_ATTRIBUTES = ['role', 'is_active', 'last_login', 'locked_until', 'two_factor_enabled_at'];
 
 /**
  * Data Access Object for User operations
@@ -42,6 +49,20 @@ class UserDao {
     }
   }
 
+  /**
+   * Find user by linked Stripe customer ID
+   */
+  public async findByStripeCustomerId(stripeCustomerId: string): Promise<UserModel | null> {
+    try {
+      return await UserModel.findOne({
+        where: { stripe_customer_id: stripeCustomerId },
+      });
+    } catch (error) {
+      console.error(`Error in UserDao.findByStripeCustomerId (${stripeCustomerId}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Create a new user (personal data only, no auth data)
    */
@@ -49,6 +70,7 @@ class UserDao {
     email: string;
     first_name?: string;
     last_name?: string;
+    country?: string;
     subscription_status?: string;
   }): Promise<UserModel> {
     try {
@@ -56,6 +78,7 @@ class UserDao {
         email: data.email,
         first_name: data.first_name,
         last_name: data.last_name,
+        country: data.country,
         subscription_status: data.subscription_status || 'inactive',
       });
     } catch (error) {
@@ -92,9 +115,14 @@ class UserDao {
     id: string,
     data: Partial<{
       email: string;
-      first_name: string;
-      last_name: string;
+      first_name: string | null;
+      last_name: string | null;
+      country: string | null;
+      stripe_customer_id: string | null;
       subscription_status: string;
+      email_verified_at: Date | null;
+      deletion_scheduled_at: Date | null;
+      anonymized_at: Date | null;
     }>
   ): Promise<UserModel | null> {
     try {
@@ -111,6 +139,122 @@ class UserDao {
     }
   }
 
+  /**
+   * Link a Stripe customer to a user that has none yet
+   * Returns false when the user already has one (e.g. set by a concurrent request)
+   */
+  public async setStripeCustomerId(id: string, stripeCustomerId: string): Promise<boolean> {
+    try {
+      const [affected] = await UserModel.update(
+        { stripe_customer_id: stripeCustomerId },
+        { where: { id, stripe_customer_id: null } }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in UserDao.setStripeCustomerId (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find users whose deletion grace period has ended and are not yet anonymized
+   */
+  public async findDueForDeletion(now: Date, limit: number): Promise<UserModel[]> {
+    try {
+      return await UserModel.findAll({
+        where: {
+          deletion_scheduled_at: { [Op.lte]: now },
+          anonymized_at: null,
+        },
+        order: [['deletion_scheduled_at', 'ASC']],
+        limit,
+      });
+    } catch (error) {
+      console.error('Error in UserDao.findDueForDeletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search users for the admin back office, joined with their auth record
+   * search matches email, first or last name (case-insensitive)
+   */
+  public async findForAdmin(options: {
+    search?: string;
+    subscription_status?: string;
+    role?: UserRole;
+    is_active?: boolean;
+    sort: AdminUserSortField;
+    order: 'asc' | 'desc';
+    limit: number;
+    offset: number;
+  }): Promise<{ rows: IAdminUserSummary[]; count: number }> {
+    try {
+      const where: WhereOptions = {};
+      if (options.search) {
+        const pattern = `%${options.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+        Object.assign(where, {
+          [Op.or]: [
+            { email: { [Op.iLike]: pattern } },
+            { first_name: { [Op.iLike]: pattern } },
+            { last_name: { [Op.iLike]: pattern } },
+          ],
+        });
+      }
+      if (options.subscription_status) {
+        Object.assign(where, { subscription_status: options.subscription_status });
+      }
+
+      const authWhere: WhereOptions = {};
+      if (options.role) {
+        Object.assign(authWhere, { role: options.role });
+      }
+      if (options.is_active !== undefined) {
+        Object.assign(authWhere, { is_active: options.is_active });
+      }
+      const filterOnAuth = options.role !== undefined || options.is_active !== undefined;
+
+      const direction = options.order.toUpperCase();
+      const order: Order = options.sort === 'last_login'
+        ? [[{ model: AuthModel, as: 'auth' }, 'last_login', `${direction} NULLS LAST`], ['id', 'ASC']]
+        : [[options.sort, direction], ['id', 'ASC']];
+
+      const { rows, count } = await UserModel.findAndCountAll({
+        where,
+        include: [{
+          model: AuthModel,
+          as: 'auth',
+          attributes: ADMIN_AUTH_ATTRIBUTES,
+          where: filterOnAuth ? authWhere : undefined,
+          required: filterOnAuth,
+        }],
+        order,
+        limit: options.limit,
+        offset: options.offset,
+      });
+
+      return { rows: rows.map((user) => this.mapToAdminSummary(user)), count };
+    } catch (error) {
+      console.error('Error in UserDao.findForAdmin:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user for the admin back office, joined with their auth record
+   */
+  public async findAdminSummaryById(id: string): Promise<IAdminUserSummary | null> {
+    try {
+      const user = await UserModel.findByPk(id, {
+        include: [{ model: AuthModel, as: 'auth', attributes: ADMIN_AUTH_ATTRIBUTES }],
+      });
+      return user ? this.mapToAdminSummary(user) : null;
+    } catch (error) {
+      console.error(`Error in UserDao.findAdminSummaryById (${id}):`, error);
+      throw error;
+    }
+  }
+
   /**
    * Delete user
    */
@@ -140,6 +284,30 @@ class UserDao {
       throw error;
     }
   }
+
+  /**
+   * Map UserModel with its auth record to IAdminUserSummary interface
+   */
+  private mapToAdminSummary(user: UserModel): IAdminUserSummary {
+    const auth = user.auth as AuthModel | undefined;
+    return {
+      id: user.id,
+      email: user.email,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      country: user.country,
+      subscription_status: user.subscription_status,
+      role: auth ? (auth.role as UserRole) : null,
+      is_active: auth ? auth.is_active : false,
+      email_verified_at: user.email_verified_at,
+      last_login: auth?.last_login ?? null,
+      locked_until: auth?.locked_until ?? null,
+      two_factor_enabled: !!auth?.two_factor_enabled_at,
+      deletion_scheduled_at: user.deletion_scheduled_at,
+      anonymized_at: user.anonymized_at,
+      created_at: user.created_at,
+    };
+  }
 }
 
 export default UserDao;
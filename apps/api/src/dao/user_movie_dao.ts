@@ -0,0 +1,203 @@
+import { Op } from 'sequelize';
+import { MovieModel, UserMovieModel } from '../models';
+import { ILibraryEntry } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Movie attributes included with library entries
+ */
+const LIBRARY_MOVIE_ATTRIBUTES = [
+  'id',
+  'tmdb_id',
+  'title',
+  'poster_path',
+  'backdrop_path',
+  'release_date',
+  'language',
+  'runtime',
+  'vote_average',
+];
+
+/**
+ * Data Access Object for UserMovie operations
+ * Handles all database operations for user libraries (favorites, history, progress)
+ */
+class UserMovieDao {
+  private static instance: UserMovieDao;
+
+  private constructor() {}
+
+  public static getInstance(): UserMovieDao {
+    if (!UserMovieDao.instance) {
+      UserMovieDao.instance = new UserMovieDao();
+    }
+    return UserMovieDao.instance;
+  }
+
+  /**
+   * Find library entry for a user and movie
+   */
+  public async findByUserAndMovie(userId: string, movieId: string): Promise<ILibraryEntry | null> {
+    try {
+      const userMovie = await UserMovieModel.findOne({
+        where: { user_id: userId, movie_id: movieId },
+      });
+      return userMovie ? this.mapToInterface(userMovie) : null;
+    } catch (error) {
+      console.error(`Error in UserMovieDao.findByUserAndMovie (${userId}, ${movieId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or update library entry for a user and movie
+   */
+  public async upsert(
+    userId: string,
+    movieId: string,
+    data: Partial<{
+      favorited: boolean;
+      watched_at: Date | null;
+      watch_position: number;
+      progress_updated_at: Date;
+    }>
+  ): Promise<ILibraryEntry> {
+    try {
+      const [userMovie] = await UserMovieModel.findOrCreate({
+        where: { user_id: userId, movie_id: movieId },
+        defaults: { user_id: userId, movie_id: movieId, ...data },
+      });
+
+      await userMovie.update(data);
+      return this.mapToInterface(userMovie);
+    } catch (error) {
+      console.error(`Error in UserMovieDao.upsert (${userId}, ${movieId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's favorites, most recently updated first
+   */
+  public async findFavorites(
+    userId: string,
+    options: { limit: number; offset: number }
+  ): Promise<{ rows: ILibraryEntry[]; count: number }> {
+    try {
+      const { rows, count } = await UserMovieModel.findAndCountAll({
+        where: { user_id: userId, favorited: true },
+        include: [{ model: MovieModel, as: 'movie', attributes: LIBRARY_MOVIE_ATTRIBUTES }],
+        order: [['updated_at', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+      });
+      return { rows: rows.map((userMovie) => this.mapToInterface(userMovie)), count };
+    } catch (error) {
+      console.error(`Error in UserMovieDao.findFavorites (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's watch history, most recently watched first
+   */
+  public async findHistory(
+    userId: string,
+    options: { limit: number; offset: number }
+  ): Promise<{ rows: ILibraryEntry[]; count: number }> {
+    try {
+      const { rows, count } = await UserMovieModel.findAndCountAll({
+        where: { user_id: userId, watched_at: { [Op.ne]: null } },
+        include: [{ model: MovieModel, as: 'movie', attributes: LIBRARY_MOVIE_ATTRIBUTES }],
+        order: [['watched_at', 'DESC']],
+        limit: options.limit,
+        offset: options.offset,
+      });
+      return { rows: rows.map((userMovie) => this.mapToInterface(userMovie)), count };
+    } catch (error) {
+      console.error(`Error in UserMovieDao.findHistory (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find titles the user has started but not finished, most recently played first
+   */
+  public async findInProgress(
+    userId: string,
+    options: { limit: number; offset: number }
+  ): Promise<{ rows: ILibraryEntry[]; count: number }> {
+    try {
+      const { rows, count } = await UserMovieModel.findAndCountAll({
+        where: { user_id: userId, watch_position: { [Op.gt]: 0 } },
+        include: [{ model: MovieModel, as: 'movie', attributes: LIBRARY_MOVIE_ATTRIBUTES }],
+        order: [['progress_updated_at', 'DESC NULLS LAST']],
+        limit: options.limit,
+        offset: options.offset,
+      });
+      return { rows: rows.map((userMovie) => this.mapToInterface(userMovie)), count };
+    } catch (error) {
+      console.error(`Error in UserMovieDao.findInProgress (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's whole library, most recently updated first
+   */
+  public async findAllByUserId(userId: string): Promise<ILibraryEntry[]> {
+    try {
+      const userMovies = await UserMovieModel.findAll({
+        where: { user_id: userId },
+        include: [{ model: MovieModel, as: 'movie', attributes: LIBRARY_MOVIE_ATTRIBUTES }],
+        order: [['updated_at', 'DESC']],
+      });
+      return userMovies.map((userMovie) => this.mapToInterface(userMovie));
+    } catch (error) {
+      console.error(`Error in UserMovieDao.findAllByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a user's whole library
+   * Returns the number of entries deleted
+   */
+  public async deleteByUserId(userId: string): Promise<number> {
+    try {
+      return await UserMovieModel.destroy({ where: { user_id: userId } });
+    } catch (error) {
+      console.error(`Error in UserMovieDao.deleteByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map UserMovieModel to ILibraryEntry interface
+   */
+  private mapToInterface(userMovie: UserMovieModel): ILibraryEntry {
+    const movie = userMovie.movie;
+    return {
+      movie_id: userMovie.movie_id,
+      favorited: userMovie.favorited,
+      watched_at: userMovie.watched_at || null,
+      watch_position: userMovie.watch_position,
+      progress_updated_at: userMovie.progress_updated_at || null,
+      updated_at: userMovie.updated_at,
+      movie: movie
+        ? {
+            id: movie.id,
+            tmdb_id: movie.tmdb_id,
+            title: movie.title,
+            poster_path: movie.poster_path,
+            backdrop_path: movie.backdrop_path,
+            release_date: movie.release_date,
+            language: movie.language,
+            runtime: movie.runtime,
+            vote_average: movie.vote_average !== undefined && movie.vote_average !== null ? Number(movie.vote_average) : undefined,
+          }
+        : undefined,
+    };
+  }
+}
+
+export default UserMovieDao;
@@ -0,0 +1,122 @@
+import { Op } from 'sequelize';
+import { UserTokenModel } from '../models';
+import { IUserToken, UserTokenPurpose } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Data Access Object for UserToken operations
+ * Handles all database operations for single-use user tokens
+ */
+class UserTokenDao {
+  private static instance: UserTokenDao;
+
+  private constructor() {}
+
+  public static getInstance(): UserTokenDao {
+    if (!UserTokenDao.instance) {
+      UserTokenDao.instance = new UserTokenDao();
+    }
+    return UserTokenDao.instance;
+  }
+
+  /**
+   * Store a token hash
+   */
+  public async create(data: {
+    user_id: string;
+    purpose: UserTokenPurpose;
+    token_hash: string;
+    expires_at: Date;
+  }): Promise<IUserToken> {
+    try {
+      const token = await UserTokenModel.create(data);
+      return this.mapToInterface(token);
+    } catch (error) {
+      console.error('Error in UserTokenDao.create:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an unused, unexpired token by hash and purpose
+   */
+  public async findValidByHash(tokenHash: string, purpose: UserTokenPurpose): Promise<IUserToken | null> {
+    try {
+      const token = await UserTokenModel.findOne({
+        where: {
+          token_hash: tokenHash,
+          purpose,
+          used_at: null,
+          expires_at: { [Op.gt]: new Date() },
+        },
+      });
+      return token ? this.mapToInterface(token) : null;
+    } catch (error) {
+      console.error(`Error in UserTokenDao.findValidByHash (${purpose}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a token as used
+   * Conditional on it being unused, so a token can only be redeemed once
+   */
+  public async consume(id: string): Promise<boolean> {
+    try {
+      const [affected] = await UserTokenModel.update(
+        { used_at: new Date() },
+        { where: { id, used_at: null } }
+      );
+      return affected > 0;
+    } catch (error) {
+      console.error(`Error in UserTokenDao.consume (${id}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retire a user's outstanding tokens for a purpose
+   * Used when a new token is issued so only the latest link works
+   */
+  public async invalidateForUser(userId: string, purpose: UserTokenPurpose): Promise<number> {
+    try {
+      const [affected] = await UserTokenModel.update(
+        { used_at: new Date() },
+        { where: { user_id: userId, purpose, used_at: null } }
+      );
+      return affected;
+    } catch (error) {
+      console.error(`Error in UserTokenDao.invalidateForUser (${userId}, ${purpose}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every token of a user
+   * Returns the number of tokens deleted
+   */
+  public async deleteByUserId(userId: string): Promise<number> {
+    try {
+      return await UserTokenModel.destroy({ where: { user_id: userId } });
+    } catch (error) {
+      console.error(`Error in UserTokenDao.deleteByUserId (${userId}):`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map UserTokenModel to IUserToken interface
+   */
+  private mapToInterface(token: UserTokenModel): IUserToken {
+    return {
+      id: token.id,
+      user_id: token.user_id,
+      purpose: token.purpose as UserTokenPurpose,
+      token_hash: token.token_hash,
+      expires_at: token.expires_at,
+      used_at: token.used_at,
+      created_at: token.created_at,
+    };
+  }
+}
+
+export default UserTokenDao;
@@ -1,20 +1,95 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { AuthDao } from '../dao';
-import { UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { AuthDao, AuthSessionDao } from '../dao';
+import { ApiKeyScope, Permission, UserRole } from '@nx-mono-repo-deployment-test/shared';
 import { appConfig } from '../config/app.config';
+import PermissionService from '../services/permission.service';
+import ApiKeyService from '../services/api_key.service';
+import { setRequestActor } from '../utils/request-context';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: UserRole;
+    sessionId?: string;
+    twoFactorEnabled?: boolean;
+    apiKeyId?: string; // set when authenticated with X-API-Key instead of a Bearer token
+    apiKeyScopes?: ApiKeyScope[];
   };
 }
 
+/**
+ * Access token JWT payload
+ * sid is absent on tokens issued before sessions were tracked
+ */
+interface IAccessTokenPayload {
+  id: string;
+  email: string;
+  sid?: string;
+}
+
+/**
+ * How often authenticated requests refresh a session's last_used_at
+ */
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Check that an access token's session is still active and record its use
+ */
+const checkSession = async (sessionId: string): Promise<boolean> => {
+  const authSessionDao = AuthSessionDao.getInstance();
+  const session = await authSessionDao.findById(sessionId);
+
+  if (!session || session.revoked_at || session.expires_at <= new Date()) {
+    return false;
+  }
+
+  const staleBefore = new Date(Date.now() - SESSION_TOUCH_INTERVAL_MS);
+  if (!session.last_used_at || session.last_used_at < staleBefore) {
+    // Best effort; the DAO logs failures
+    authSessionDao.touch(sessionId, staleBefore).catch(() => undefined);
+  }
+
+  return true;
+};
+
+/**
+ * Resolve an X-API-Key header to the user it acts for
+ * Returns null for unknown, revoked or expired keys and inactive owners
+ */
+const resolveApiKeyUser = async (key: string): Promise<AuthRequest['user'] | null> => {
+  const apiKey = await ApiKeyService.getInstance().verify(key);
+  if (!apiKey) {
+    return null;
+  }
+
+  const auth = await AuthDao.getInstance().findByUserId(apiKey.user_id);
+  if (!auth || !auth.is_active) {
+    return null;
+  }
+
+  return {
+    id: auth.user_id,
+    email: auth.user?.email || '',
+    role: auth.role,
+    twoFactorEnabled: !!auth.two_factor_enabled_at,
+    apiKeyId: apiKey.id,
+    apiKeyScopes: apiKey.scopes,
+  };
+};
+
+/**
+ * Attach the authenticated user to the request and its context (for the audit log)
+ */
+const attachUser = (req: AuthRequest, user: NonNullable<AuthRequest['user']>): void => {
+  req.user = user;
+  setRequestActor({ id: user.id, role: user.role, apiKeyId: user.apiKeyId });
+};
+
 /**
  * Authentication middleware
- * Verifies JWT token and attaches user to request
+ * Verifies the JWT token (or X-API-Key header) and attaches user to request
  */
 export const authenticate = async (
   req: AuthRequest,
@@ -22,6 +97,26 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKey = req.get('x-api-key');
+
+    if (apiKey) {
+      const user = await resolveApiKeyUser(apiKey);
+
+      if (!user) {
+        res.sendError('Invalid API key', 401);
+        return;
+      }
+
+      if (!ApiKeyService.getInstance().allowsMethod(user.apiKeyScopes || [], req.method)) {
+        res.sendError('API key scope does not allow this request', 403);
+        return;
+      }
+
+      attachUser(req, user);
+      next();
+      return;
+    }
+
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -32,7 +127,7 @@ export const authenticate = async (
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
     try {
-      const decoded = jwt.verify(token, appConfig.jwt.secret) as { id: string; email: string };
+      const decoded = jwt.verify(token, appConfig.jwt.secret) as IAccessTokenPayload;
 
       // Fetch auth record from database
       const authDao = AuthDao.getInstance();
@@ -43,12 +138,20 @@ export const authenticate = async (
         return;
       }
 
+      // Reject access tokens whose session was logged out or revoked
+      if (decoded.sid && !(await checkSession(decoded.sid))) {
+        res.sendError('Session revoked', 401);
+        return;
+      }
+
       // Attach user to request
-      req.user = {
+      attachUser(req, {
         id: decoded.id,
         email: decoded.email,
         role: auth.role,
-      };
+        sessionId: decoded.sid,
+        twoFactorEnabled: !!auth.two_factor_enabled_at,
+      });
 
       next();
     } catch (error) {
@@ -66,7 +169,7 @@ export const authenticate = async (
 
 /**
  * Optional authentication middleware
- * Attaches user if token is valid, but doesn't fail if no token
+ * Attaches user if token or API key is valid, but doesn't fail if neither is
  */
 export const optionalAuth = async (
   req: AuthRequest,
@@ -74,6 +177,17 @@ export const optionalAuth = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKey = req.get('x-api-key');
+
+    if (apiKey) {
+      const user = await resolveApiKeyUser(apiKey);
+      if (user && ApiKeyService.getInstance().allowsMethod(user.apiKeyScopes || [], req.method)) {
+        attachUser(req, user);
+      }
+      next();
+      return;
+    }
+
     const authHeader = req.headers.authorization;
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -84,16 +198,19 @@ export const optionalAuth = async (
     const token = authHeader.substring(7);
 
     try {
-      const decoded = jwt.verify(token, appConfig.jwt.secret) as { id: string; email: string };
+      const decoded = jwt.verify(token, appConfig.jwt.secret) as IAccessTokenPayload;
       const authDao = AuthDao.getInstance();
       const auth = await authDao.findByUserId(decoded.id);
+      const sessionActive = !decoded.sid || (await checkSession(decoded.sid));
 
-      if (auth && auth.is_active) {
-        req.user = {
+      if (auth && auth.is_active && sessionActive) {
+        attachUser(req, {
           id: decoded.id,
           email: decoded.email,
           role: auth.role,
-        };
+          sessionId: decoded.sid,
+          twoFactorEnabled: !!auth.two_factor_enabled_at,
+        });
       }
     } catch (error) {
       // Silently fail for optional auth
@@ -105,6 +222,97 @@ export const optionalAuth = async (
   }
 };
 
+/**
+ * Whether a user must enroll in 2FA before using role-protected routes
+ * Admins can still log in without it, so they are able to enroll
+ */
+const requiresTwoFactorEnrollment = (user: NonNullable<AuthRequest['user']>): boolean =>
+  appConfig.auth.twoFactor.requiredForAdmins && user.role === UserRole.ADMIN && !user.twoFactorEnabled;
+
+/**
+ * Role-based middleware factory
+ * Allows the request through when the user has any of the given roles
+ * Must be used after authenticate middleware
+ */
+export const requireRole = (...roles: UserRole[]) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.sendError('Authentication required', 401);
+    return;
+  }
+
+  if (!roles.includes(req.user.role)) {
+    res.sendError('Insufficient permissions', 403);
+    return;
+  }
+
+  if (requiresTwoFactorEnrollment(req.user)) {
+    res.sendError('Two-factor authentication must be enabled for admin accounts', 403);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Permission-based middleware factory
+ * Allows the request through when the user's role holds every given permission
+ * Must be used after authenticate middleware
+ */
+export const requirePermission = (...permissions: Permission[]) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.sendError('Authentication required', 401);
+      return;
+    }
+
+    if (!(await PermissionService.getInstance().hasPermissions(req.user.role, permissions))) {
+      res.sendError('Insufficient permissions', 403);
+      return;
+    }
+
+    const { apiKeyScopes } = req.user;
+    if (apiKeyScopes && !permissions.every((permission) => apiKeyScopes.includes(permission))) {
+      res.sendError('API key scope does not allow this request', 403);
+      return;
+    }
+
+    if (requiresTwoFactorEnrollment(req.user)) {
+      res.sendError('Two-factor authentication must be enabled for admin accounts', 403);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rejects requests authenticated with an API key
+ * For account security routes (API keys, two-factor, data export and deletion) that need a signed-in user
+ * Must be used after authenticate middleware
+ */
+export const forbidApiKey = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.apiKeyId) {
+    res.sendError('This action requires signing in; API keys are not accepted', 403);
+    return;
+  }
+
+  next();
+};
+
 /**
  * Admin only middleware
  * Must be used after authenticate middleware
@@ -124,6 +332,11 @@ export const requireAdmin = (
     return;
   }
 
+  if (requiresTwoFactorEnrollment(req.user)) {
+    res.sendError('Two-factor authentication must be enabled for admin accounts', 403);
+    return;
+  }
+
   next();
 };
 
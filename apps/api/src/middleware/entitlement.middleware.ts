@@ -0,0 +1,57 @@
+import { Response, NextFunction } from 'express';
+import { Entitlement, IEntitlementRequiredDetails, IEntitlements } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+import EntitlementService from '../services/entitlement.service';
+import { AuthRequest } from './auth.middleware';
+
+export interface EntitlementRequest extends AuthRequest {
+  entitlements?: IEntitlements; // resolved once per request
+}
+
+/**
+ * The authenticated user's entitlements, resolved on first use and cached on the request
+ */
+export const getEntitlements = async (req: EntitlementRequest): Promise<IEntitlements> => {
+  if (!req.entitlements) {
+    req.entitlements = await EntitlementService.getInstance().resolve(req.user!.id);
+  }
+  return req.entitlements;
+};
+
+/**
+ * Entitlement-based middleware factory
+ * Allows the request through when the user is entitled to every given feature;
+ * otherwise responds 402 with details the web app uses to prompt an upgrade
+ * Must be used after authenticate middleware
+ */
+export const requireEntitlement = (...entitlements: Entitlement[]) => async (
+  req: EntitlementRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.sendError('Authentication required', 401);
+      return;
+    }
+
+    const resolved = await getEntitlements(req);
+    const missing = entitlements.find((entitlement) => !resolved.entitlements.includes(entitlement));
+
+    if (missing) {
+      const details: IEntitlementRequiredDetails = {
+        code: 'entitlement_required',
+        entitlement: missing,
+        subscription_status: resolved.subscription_status,
+        expired_at: resolved.expires_at,
+        upgrade_url: `${appConfig.mail.appUrl}/subscription`,
+      };
+      res.sendError('An active subscription is required', 402, details);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
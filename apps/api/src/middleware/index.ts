@@ -3,3 +3,5 @@ export * from './responseHandler';
 export * from './validation';
 export * from './auth.middleware';
 export * from './simple-validation';
+export * from './requestContext';
+export * from './entitlement.middleware';
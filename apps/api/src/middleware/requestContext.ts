@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/request-context';
+
+/**
+ * Incoming X-Request-Id values accepted as-is (e.g. from a load balancer)
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request context middleware
+ * Assigns a request ID (echoed in the X-Request-Id response header) and makes
+ * it and the client IP available to services for the rest of the request
+ * Must be registered after the body parsers, which would otherwise lose the context
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+  res.setHeader('X-Request-Id', requestId);
+  runWithRequestContext({ requestId, ipAddress: req.ip }, () => next());
+}
@@ -0,0 +1,77 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+import UserModel from './user.model';
+
+@Table({
+  tableName: 'api_keys',
+  timestamps: true,
+  underscored: false,
+})
+export default class ApiKeyModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @ForeignKey(() => UserModel)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  user_id!: string;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  name!: string;
+
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+  })
+  prefix!: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    unique: true,
+  })
+  key_hash!: string; // SHA-256 of the key
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+    defaultValue: [],
+  })
+  scopes!: string[];
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  expires_at?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  last_used_at?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  revoked_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => UserModel, 'user_id')
+  user!: UserModel;
+}
@@ -0,0 +1,88 @@
+import { Table, Column, Model, DataType, CreatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'audit_events',
+  timestamps: true,
+  updatedAt: false, // append-only
+  underscored: false,
+})
+export default class AuditEventModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: [['user', 'system', 'stripe']],
+    },
+  })
+  actor_type!: string;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  actor_id?: string | null;
+
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: true,
+  })
+  actor_role?: string | null;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  api_key_id?: string | null;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  action!: string;
+
+  @Column({
+    type: DataType.STRING(50),
+    allowNull: false,
+  })
+  target_type!: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  target_id?: string | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  changes?: Record<string, { before: unknown; after: unknown }> | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  metadata?: Record<string, unknown> | null;
+
+  @Column({
+    type: DataType.STRING(45),
+    allowNull: true,
+  })
+  ip_address?: string | null;
+
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  request_id?: string | null;
+
+  @CreatedAt
+  created_at!: Date;
+}
@@ -32,7 +32,7 @@ export default class AuthModel extends Model {
     type: DataType.STRING(20),
     defaultValue: 'user',
     validate: {
-      isIn: [['user', 'admin']],
+      isIn: [['user', 'moderator', 'support', 'admin']],
     },
   })
   role!: string;
@@ -49,6 +49,36 @@ export default class AuthModel extends Model {
   })
   last_login?: Date;
 
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  two_factor_secret?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  two_factor_enabled_at?: Date | null;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: [],
+  })
+  two_factor_recovery_codes!: string[]; // SHA-256 hashes of unused recovery codes
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  two_factor_last_step?: number | null; // last accepted TOTP time step, rejects replays
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  locked_until?: Date | null; // set after too many failed logins
+
   @CreatedAt
   created_at!: Date;
 
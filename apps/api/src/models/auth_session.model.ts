@@ -0,0 +1,63 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+import UserModel from './user.model';
+
+@Table({
+  tableName: 'auth_sessions',
+  timestamps: true,
+  underscored: false,
+})
+export default class AuthSessionModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @ForeignKey(() => UserModel)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  user_id!: string;
+
+  @Column({
+    type: DataType.STRING(512),
+    allowNull: true,
+  })
+  user_agent?: string | null;
+
+  @Column({
+    type: DataType.STRING(45),
+    allowNull: true,
+  })
+  ip_address?: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  last_used_at?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  revoked_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => UserModel, 'user_id')
+  user!: UserModel;
+}
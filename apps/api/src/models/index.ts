@@ -17,6 +17,16 @@ import UserMovieModel from './user_movie.model';
 import ApiCreditModel from './api_credit.model';
 import AdminFundingModel from './admin_funding.model';
 import ApiUsageModel from './api_usage.model';
+import TmdbCacheModel from './tmdb_cache.model';
+import AuthSessionModel from './auth_session.model';
+import RefreshTokenModel from './refresh_token.model';
+import UserTokenModel from './user_token.model';
+import LoginAttemptModel from './login_attempt.model';
+import RolePermissionModel from './role_permission.model';
+import ApiKeyModel from './api_key.model';
+import AuditEventModel from './audit_event.model';
+import StripeEventModel from './stripe_event.model';
+import PlanModel from './plan.model';
 
 /**
  * Initialize model associations here
@@ -31,10 +41,19 @@ export const initializeAssociations = (): void => {
   UserModel.hasMany(UserMovieModel, { foreignKey: 'user_id', as: 'user_movies' });
   UserModel.hasMany(AdminFundingModel, { foreignKey: 'user_id', as: 'fundings' });
   UserModel.hasMany(AdminFundingModel, { foreignKey: 'created_by', as: 'created_fundings' });
+  UserModel.hasMany(AuthSessionModel, { foreignKey: 'user_id', as: 'sessions' });
+  UserModel.hasMany(UserTokenModel, { foreignKey: 'user_id', as: 'tokens' });
+  UserModel.hasMany(ApiKeyModel, { foreignKey: 'user_id', as: 'api_keys' });
+
+  // Session associations
+  AuthSessionModel.hasMany(RefreshTokenModel, { foreignKey: 'session_id', as: 'refresh_tokens' });
 
   // Subscription associations
   SubscriptionModel.hasMany(PaymentModel, { foreignKey: 'subscription_id', as: 'payments' });
 
+  // Plan associations
+  PlanModel.hasMany(SubscriptionModel, { foreignKey: 'plan_id', as: 'subscriptions' });
+
   // Movie associations
   MovieModel.hasMany(MovieCategoryModel, { foreignKey: 'movie_id', as: 'categories' });
   MovieModel.hasMany(SubtitleModel, { foreignKey: 'movie_id', as: 'subtitles' });
@@ -55,6 +74,16 @@ export { default as UserMovieModel } from './user_movie.model';
 export { default as ApiCreditModel } from './api_credit.model';
 export { default as AdminFundingModel } from './admin_funding.model';
 export { default as ApiUsageModel } from './api_usage.model';
+export { default as TmdbCacheModel } from './tmdb_cache.model';
+export { default as AuthSessionModel } from './auth_session.model';
+export { default as RefreshTokenModel } from './refresh_token.model';
+export { default as UserTokenModel } from './user_token.model';
+export { default as LoginAttemptModel } from './login_attempt.model';
+export { default as RolePermissionModel } from './role_permission.model';
+export { default as ApiKeyModel } from './api_key.model';
+export { default as AuditEventModel } from './audit_event.model';
+export { default as StripeEventModel } from './stripe_event.model';
+export { default as PlanModel } from './plan.model';
 
 // Export sequelize instance
 export { sequelize };
@@ -73,6 +102,16 @@ export const models = {
   ApiCredit: ApiCreditModel,
   AdminFunding: AdminFundingModel,
   ApiUsage: ApiUsageModel,
+  TmdbCache: TmdbCacheModel,
+  AuthSession: AuthSessionModel,
+  RefreshToken: RefreshTokenModel,
+  UserToken: UserTokenModel,
+  LoginAttempt: LoginAttemptModel,
+  RolePermission: RolePermissionModel,
+  ApiKey: ApiKeyModel,
+  AuditEvent: AuditEventModel,
+  StripeEvent: StripeEventModel,
+  Plan: PlanModel,
 };
 
 export default models;
@@ -0,0 +1,33 @@
+import { Table, Column, Model, DataType, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'login_attempts',
+  timestamps: true,
+  underscored: false,
+})
+export default class LoginAttemptModel extends Model {
+  @Column({
+    type: DataType.STRING(320),
+    primaryKey: true,
+  })
+  key!: string; // "account:<email>" or "ip:<address>"
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  failures!: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  last_failed_at!: Date;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+}
@@ -1,4 +1,5 @@
 import { Table, Column, Model, DataType, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+import { IStreamingLink, IStreamingRegionRefresh } from '@nx-mono-repo-deployment-test/shared';
 
 @Table({
   tableName: 'movies',
@@ -81,7 +82,25 @@ export default class MovieModel extends Model {
     type: DataType.JSONB,
     defaultValue: [],
   })
-  streaming_links!: unknown[];
+  streaming_links!: IStreamingLink[];
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  streaming_links_updated_at?: Date | null;
+
+  @Column({
+    type: DataType.JSONB,
+    defaultValue: {},
+  })
+  streaming_regions!: Record<string, IStreamingRegionRefresh>;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  streaming_links_refresh_at?: Date | null;
 
   @Column({
     type: DataType.INTEGER,
@@ -39,6 +39,7 @@ export default class PaymentModel extends Model {
   @Column({
     type: DataType.STRING(255),
     allowNull: true,
+    unique: true,
   })
   stripe_payment_intent_id?: string;
 
@@ -0,0 +1,70 @@
+import { Table, Column, Model, DataType, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'plans',
+  timestamps: true,
+  underscored: false,
+})
+export default class PlanModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  name!: string;
+
+  @Column({
+    type: DataType.STRING(50),
+    allowNull: false,
+    validate: {
+      isIn: [['monthly', 'yearly']],
+    },
+  })
+  interval!: string;
+
+  @Column({
+    type: DataType.DECIMAL(10, 2),
+    allowNull: false,
+  })
+  price!: number;
+
+  @Column({
+    type: DataType.STRING(3),
+    allowNull: false,
+    defaultValue: 'usd',
+  })
+  currency!: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+    unique: true,
+  })
+  stripe_price_id!: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+    defaultValue: [],
+  })
+  entitlements!: string[];
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  })
+  is_active!: boolean;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+}
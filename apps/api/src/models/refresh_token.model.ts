@@ -0,0 +1,50 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+import AuthSessionModel from './auth_session.model';
+
+@Table({
+  tableName: 'refresh_tokens',
+  timestamps: true,
+  underscored: false,
+})
+export default class RefreshTokenModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+  })
+  id!: string;
+
+  @ForeignKey(() => AuthSessionModel)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  session_id!: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  token_hash!: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  replaced_by?: string | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => AuthSessionModel, 'session_id')
+  session!: AuthSessionModel;
+}
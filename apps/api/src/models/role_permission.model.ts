@@ -0,0 +1,36 @@
+import { Table, Column, Model, DataType, CreatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'role_permissions',
+  timestamps: false,
+  underscored: false,
+})
+export default class RolePermissionModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: false,
+    validate: {
+      isIn: [['user', 'moderator', 'support', 'admin']],
+    },
+  })
+  role!: string;
+
+  @Column({
+    type: DataType.STRING(50),
+    allowNull: false,
+    validate: {
+      isIn: [['catalog:write', 'subtitles:moderate', 'billing:read', 'billing:write', 'funding:write', 'users:read', 'users:write', 'roles:write', 'audit:read']],
+    },
+  })
+  permission!: string;
+
+  @CreatedAt
+  created_at!: Date;
+}
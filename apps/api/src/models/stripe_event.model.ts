@@ -0,0 +1,69 @@
+import { Table, Column, Model, DataType, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'stripe_events',
+  timestamps: true,
+  underscored: false,
+})
+export default class StripeEventModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+    unique: true,
+  })
+  stripe_event_id!: string;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  type!: string;
+
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: false,
+    defaultValue: 'processing',
+    validate: {
+      isIn: [['processing', 'processed', 'failed', 'ignored']],
+    },
+  })
+  status!: string;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 1,
+  })
+  attempts!: number;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  last_error?: string | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  payload!: Record<string, unknown>;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  processed_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+}
@@ -1,5 +1,6 @@
 import { Table, Column, Model, DataType, BelongsTo, ForeignKey, CreatedAt, UpdatedAt } from 'sequelize-typescript';
 import UserModel from './user.model';
+import PlanModel from './plan.model';
 
 @Table({
   tableName: 'subscriptions',
@@ -47,6 +48,13 @@ export default class SubscriptionModel extends Model {
   })
   plan_type!: string;
 
+  @ForeignKey(() => PlanModel)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  plan_id?: string | null;
+
   @Column({
     type: DataType.DATE,
     allowNull: true,
@@ -92,5 +100,8 @@ export default class SubscriptionModel extends Model {
   // Associations
   @BelongsTo(() => UserModel, 'user_id')
   user!: UserModel;
+
+  @BelongsTo(() => PlanModel, 'plan_id')
+  plan?: PlanModel;
 }
 
@@ -5,6 +5,8 @@ import MovieModel from './movie.model';
   tableName: 'subtitles',
   timestamps: true,
   underscored: false,
+  // SubtitleDao.upsert conflicts on (movie_id, language)
+  indexes: [{ name: 'idx_subtitles_unique', unique: true, fields: ['movie_id', 'language'] }],
 })
 export default class SubtitleModel extends Model {
   @Column({
@@ -57,6 +59,18 @@ export default class SubtitleModel extends Model {
   })
   translation_status!: string;
 
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  translation_error?: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  translation_attempts!: number;
+
   @CreatedAt
   created_at!: Date;
 
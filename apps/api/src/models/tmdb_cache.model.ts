@@ -0,0 +1,44 @@
+import { Table, Column, Model, DataType, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+
+@Table({
+  tableName: 'tmdb_cache',
+  timestamps: true,
+  underscored: false,
+})
+export default class TmdbCacheModel extends Model {
+  @Column({
+    type: DataType.STRING(500),
+    primaryKey: true,
+  })
+  key!: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+  })
+  endpoint!: string;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: false,
+  })
+  payload!: unknown;
+
+  @Column({
+    type: DataType.INTEGER,
+    defaultValue: 0,
+  })
+  hits!: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  expires_at!: Date;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+}
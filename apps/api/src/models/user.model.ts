@@ -35,6 +35,12 @@ export default class UserModel extends Model {
   })
   last_name?: string;
 
+  @Column({
+    type: DataType.STRING(2),
+    allowNull: true,
+  })
+  country?: string;
+
   @Column({
     type: DataType.STRING(50),
     defaultValue: 'inactive',
@@ -44,6 +50,31 @@ export default class UserModel extends Model {
   })
   subscription_status!: string;
 
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  email_verified_at?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deletion_scheduled_at?: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  anonymized_at?: Date | null;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+    unique: true,
+  })
+  stripe_customer_id?: string | null;
+
   @CreatedAt
   created_at!: Date;
 
@@ -52,6 +83,7 @@ export default class UserModel extends Model {
 
   // Associations are defined in models/index.ts
   // These are type hints for TypeScript
+  declare auth?: unknown;
   declare subscriptions?: unknown[];
   declare payments?: unknown[];
   declare user_movies?: unknown[];
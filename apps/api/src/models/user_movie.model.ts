@@ -33,7 +33,7 @@ export default class UserMovieModel extends Model {
     type: DataType.DATE,
     allowNull: true,
   })
-  watched_at?: Date;
+  watched_at?: Date | null;
 
   @Column({
     type: DataType.BOOLEAN,
@@ -47,6 +47,12 @@ export default class UserMovieModel extends Model {
   })
   watch_position!: number;
 
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  progress_updated_at?: Date | null;
+
   @CreatedAt
   created_at!: Date;
 
@@ -0,0 +1,61 @@
+import { Table, Column, Model, DataType, ForeignKey, BelongsTo, CreatedAt, UpdatedAt } from 'sequelize-typescript';
+import UserModel from './user.model';
+
+@Table({
+  tableName: 'user_tokens',
+  timestamps: true,
+  underscored: false,
+})
+export default class UserTokenModel extends Model {
+  @Column({
+    type: DataType.UUID,
+    primaryKey: true,
+    defaultValue: DataType.UUIDV4,
+  })
+  id!: string;
+
+  @ForeignKey(() => UserModel)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  user_id!: string;
+
+  @Column({
+    type: DataType.STRING(30),
+    allowNull: false,
+    validate: {
+      isIn: [['password_reset', 'email_verification']],
+    },
+  })
+  purpose!: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+    unique: true,
+  })
+  token_hash!: string;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  expires_at!: Date;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  used_at?: Date | null;
+
+  @CreatedAt
+  created_at!: Date;
+
+  @UpdatedAt
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => UserModel, 'user_id')
+  user!: UserModel;
+}
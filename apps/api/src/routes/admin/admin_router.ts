@@ -1,12 +1,14 @@
 import { BaseRouter } from '../common/base_router';
 import { AdminController } from '../../controllers';
-import { authenticate, requireAdmin } from '../../middleware';
+import { authenticate, requirePermission } from '../../middleware';
 import { ValidationMiddleware } from '../../middleware/validation';
-import { FundSubscriptionDto, AddApiCreditsDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+import { FundSubscriptionDto, AddApiCreditsDto, UpdateStreamingProvidersDto, EnqueueSubtitleTranslationDto, UserIdParamDto, SessionIdParamDto, RoleParamDto, UpdateUserRoleDto, UpdateRolePermissionsDto, CreateApiKeyDto, ApiKeyIdParamDto, ListUsersQueryDto, ListAuditEventsQueryDto, ListStripeEventsQueryDto, TmdbCacheQueryDto, StripeEventIdParamDto, CreatePlanDto, UpdatePlanDto, PlanIdParamDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+import { Permission } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Admin Router
- * Handles admin-only operations
+ * Handles back-office operations; each route requires a permission
+ * (admins hold all of them, moderator and support roles a subset)
  */
 export class AdminRouter extends BaseRouter {
   private adminController!: AdminController;
@@ -38,32 +40,256 @@ export class AdminRouter extends BaseRouter {
   protected initializeRoutes(): void {
     const controller = this.getAdminController();
 
-    // All routes require admin authentication
+    // All routes require authentication; permissions are checked per route
     this.router.use(authenticate);
-    this.router.use(requireAdmin);
 
     // Fund user subscription
     this.router.post(
       '/fund-subscription',
+      requirePermission(Permission.FUNDING_WRITE),
       ValidationMiddleware.body(FundSubscriptionDto),
       controller.fundUserSubscription
     );
 
     // Get API credits
-    this.router.get('/api-credits', controller.getApiCredits);
+    this.router.get('/api-credits', requirePermission(Permission.BILLING_READ), controller.getApiCredits);
 
     // Add API credits
     this.router.post(
       '/api-credits',
+      requirePermission(Permission.FUNDING_WRITE),
       ValidationMiddleware.body(AddApiCreditsDto),
       controller.addApiCredits
     );
 
     // Get funding statistics
-    this.router.get('/funding/stats', controller.getFundingStats);
+    this.router.get('/funding/stats', requirePermission(Permission.BILLING_READ), controller.getFundingStats);
 
     // List all funded users
-    this.router.get('/funding/users', controller.getFundedUsers);
+    this.router.get('/funding/users', requirePermission(Permission.BILLING_READ), controller.getFundedUsers);
+
+    // Inspect TMDB response cache
+    this.router.get(
+      '/tmdb-cache',
+      requirePermission(Permission.CATALOG_WRITE),
+      ValidationMiddleware.query(TmdbCacheQueryDto),
+      controller.getTmdbCache
+    );
+
+    // Purge TMDB response cache (optionally by ?prefix=)
+    this.router.delete('/tmdb-cache', requirePermission(Permission.CATALOG_WRITE), controller.purgeTmdbCache);
+
+    // Get streaming provider fallback chain
+    this.router.get('/streaming/providers', requirePermission(Permission.CATALOG_WRITE), controller.getStreamingProviders);
+
+    // Replace streaming provider fallback chain
+    this.router.put(
+      '/streaming/providers',
+      requirePermission(Permission.CATALOG_WRITE),
+      ValidationMiddleware.body(UpdateStreamingProvidersDto),
+      controller.updateStreamingProviders
+    );
+
+    // List AI subtitle translation jobs (?status=failed to view failures)
+    this.router.get(
+      '/subtitles/translations',
+      requirePermission(Permission.SUBTITLES_MODERATE),
+      controller.getSubtitleTranslations
+    );
+
+    // Queue an AI Sinhala subtitle translation
+    this.router.post(
+      '/subtitles/translations',
+      requirePermission(Permission.SUBTITLES_MODERATE),
+      ValidationMiddleware.body(EnqueueSubtitleTranslationDto),
+      controller.enqueueSubtitleTranslation
+    );
+
+    // Retry a failed subtitle translation
+    this.router.post(
+      '/subtitles/translations/:id/retry',
+      requirePermission(Permission.SUBTITLES_MODERATE),
+      controller.retrySubtitleTranslation
+    );
+
+    // Search, filter and page through users
+    this.router.get(
+      '/users',
+      requirePermission(Permission.USERS_READ),
+      ValidationMiddleware.query(ListUsersQueryDto),
+      controller.listUsers
+    );
+
+    // Get a user with subscriptions, payments and fundings
+    this.router.get(
+      '/users/:userId',
+      requirePermission(Permission.USERS_READ),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.getUser
+    );
+
+    // Deactivate a user's account
+    this.router.post(
+      '/users/:userId/deactivate',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.deactivateUser
+    );
+
+    // Reactivate a user's account
+    this.router.post(
+      '/users/:userId/reactivate',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.reactivateUser
+    );
+
+    // Invalidate a user's password and email a reset link
+    this.router.post(
+      '/users/:userId/password-reset',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.forceUserPasswordReset
+    );
+
+    // List a user's active sessions
+    this.router.get(
+      '/users/:userId/sessions',
+      requirePermission(Permission.USERS_READ),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.getUserSessions
+    );
+
+    // Sign a user out of all devices
+    this.router.delete(
+      '/users/:userId/sessions',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.revokeAllUserSessions
+    );
+
+    // Sign a user out of one device
+    this.router.delete(
+      '/users/:userId/sessions/:id',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      ValidationMiddleware.params(SessionIdParamDto),
+      controller.revokeUserSession
+    );
+
+    // Lift a login lockout
+    this.router.post(
+      '/users/:userId/unlock',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.unlockUser
+    );
+
+    // List a user's API keys
+    this.router.get(
+      '/users/:userId/api-keys',
+      requirePermission(Permission.USERS_READ),
+      ValidationMiddleware.params(UserIdParamDto),
+      controller.getUserApiKeys
+    );
+
+    // Create an API key for a user (service accounts)
+    this.router.post(
+      '/users/:userId/api-keys',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      ValidationMiddleware.body(CreateApiKeyDto),
+      controller.createUserApiKey
+    );
+
+    // Revoke one of a user's API keys
+    this.router.delete(
+      '/users/:userId/api-keys/:id',
+      requirePermission(Permission.USERS_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      ValidationMiddleware.params(ApiKeyIdParamDto),
+      controller.revokeUserApiKey
+    );
+
+    // Change a user's role
+    this.router.put(
+      '/users/:userId/role',
+      requirePermission(Permission.ROLES_WRITE),
+      ValidationMiddleware.params(UserIdParamDto),
+      ValidationMiddleware.body(UpdateUserRoleDto),
+      controller.updateUserRole
+    );
+
+    // List the permissions of every role
+    this.router.get('/roles', requirePermission(Permission.USERS_READ), controller.getRolePermissions);
+
+    // Replace the permissions granted to a role
+    this.router.put(
+      '/roles/:role/permissions',
+      requirePermission(Permission.ROLES_WRITE),
+      ValidationMiddleware.params(RoleParamDto),
+      ValidationMiddleware.body(UpdateRolePermissionsDto),
+      controller.updateRolePermissions
+    );
+
+    // Search the audit log
+    this.router.get(
+      '/audit',
+      requirePermission(Permission.AUDIT_READ),
+      ValidationMiddleware.query(ListAuditEventsQueryDto),
+      controller.getAuditEvents
+    );
+
+    // Export the audit log as CSV
+    this.router.get(
+      '/audit/export',
+      requirePermission(Permission.AUDIT_READ),
+      ValidationMiddleware.query(ListAuditEventsQueryDto),
+      controller.exportAuditEvents
+    );
+
+    // List received Stripe webhook events
+    this.router.get(
+      '/stripe-events',
+      requirePermission(Permission.BILLING_READ),
+      ValidationMiddleware.query(ListStripeEventsQueryDto),
+      controller.getStripeEvents
+    );
+
+    // Replay a failed Stripe webhook event
+    this.router.post(
+      '/stripe-events/:id/replay',
+      requirePermission(Permission.BILLING_WRITE),
+      ValidationMiddleware.params(StripeEventIdParamDto),
+      controller.replayStripeEvent
+    );
+
+    // List catalog plans, including inactive ones
+    this.router.get('/plans', requirePermission(Permission.BILLING_READ), controller.getPlans);
+
+    // Add a plan to the catalog
+    this.router.post(
+      '/plans',
+      requirePermission(Permission.BILLING_WRITE),
+      ValidationMiddleware.body(CreatePlanDto),
+      controller.createPlan
+    );
+
+    // Edit a catalog plan
+    this.router.put(
+      '/plans/:id',
+      requirePermission(Permission.BILLING_WRITE),
+      ...ValidationMiddleware.bodyAndParams(UpdatePlanDto, PlanIdParamDto),
+      controller.updatePlan
+    );
+
+    // Remove a plan without subscriptions
+    this.router.delete(
+      '/plans/:id',
+      requirePermission(Permission.BILLING_WRITE),
+      ValidationMiddleware.params(PlanIdParamDto),
+      controller.deletePlan
+    );
   }
 
   /**
@@ -83,6 +309,29 @@ export class AdminRouter extends BaseRouter {
       { path: '/api-credits', methods: ['GET', 'POST'] },
       { path: '/funding/stats', methods: ['GET'] },
       { path: '/funding/users', methods: ['GET'] },
+      { path: '/tmdb-cache', methods: ['GET', 'DELETE'] },
+      { path: '/streaming/providers', methods: ['GET', 'PUT'] },
+      { path: '/subtitles/translations', methods: ['GET', 'POST'] },
+      { path: '/subtitles/translations/:id/retry', methods: ['POST'] },
+      { path: '/users', methods: ['GET'] },
+      { path: '/users/:userId', methods: ['GET'] },
+      { path: '/users/:userId/deactivate', methods: ['POST'] },
+      { path: '/users/:userId/reactivate', methods: ['POST'] },
+      { path: '/users/:userId/password-reset', methods: ['POST'] },
+      { path: '/users/:userId/sessions', methods: ['GET', 'DELETE'] },
+      { path: '/users/:userId/sessions/:id', methods: ['DELETE'] },
+      { path: '/users/:userId/unlock', methods: ['POST'] },
+      { path: '/users/:userId/api-keys', methods: ['GET', 'POST'] },
+      { path: '/users/:userId/api-keys/:id', methods: ['DELETE'] },
+      { path: '/users/:userId/role', methods: ['PUT'] },
+      { path: '/roles', methods: ['GET'] },
+      { path: '/roles/:role/permissions', methods: ['PUT'] },
+      { path: '/audit', methods: ['GET'] },
+      { path: '/audit/export', methods: ['GET'] },
+      { path: '/stripe-events', methods: ['GET'] },
+      { path: '/stripe-events/:id/replay', methods: ['POST'] },
+      { path: '/plans', methods: ['GET', 'POST'] },
+      { path: '/plans/:id', methods: ['PUT', 'DELETE'] },
     ];
   }
 }
@@ -1,11 +1,20 @@
 import { BaseRouter } from '../common/base_router';
 import { AuthController } from '../../controllers';
-import { authenticate } from '../../middleware';
+import { authenticate, forbidApiKey } from '../../middleware';
 import { ValidationMiddleware } from '../../middleware/validation';
 import { 
   RegisterDto, 
   LoginDto, 
   RefreshTokenDto,
+  UpdateProfileDto,
+  SessionIdParamDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+  CreateApiKeyDto,
+  ApiKeyIdParamDto,
   AuthResponseDto,
   TokenResponseDto,
   UserResponseDto
@@ -14,7 +23,8 @@ import { SwaggerAutoDoc } from '../../utils/swagger-auto-doc';
 
 /**
  * Authentication Router
- * Handles user registration, login, and token refresh
+ * Handles user registration, login (with optional TOTP two-factor), token refresh,
+ * logout, password reset, email verification and personal API keys
  */
 export class AuthRouter extends BaseRouter {
   private authController!: AuthController;
@@ -60,6 +70,13 @@ export class AuthRouter extends BaseRouter {
       controller.login
     );
 
+    // Complete a two-factor login
+    this.router.post(
+      '/login/2fa',
+      ValidationMiddleware.body(TwoFactorLoginDto),
+      controller.loginWithTwoFactor
+    );
+
     // Refresh token
     this.router.post(
       '/refresh',
@@ -67,9 +84,105 @@ export class AuthRouter extends BaseRouter {
       controller.refresh
     );
 
+    // Logout (revoke the refresh token's session)
+    this.router.post(
+      '/logout',
+      ValidationMiddleware.body(RefreshTokenDto),
+      controller.logout
+    );
+
+    // Logout of all sessions (protected)
+    this.router.post('/logout-all', authenticate, forbidApiKey, controller.logoutAll);
+
+    // Request a password reset email
+    this.router.post(
+      '/forgot-password',
+      ValidationMiddleware.body(ForgotPasswordDto),
+      controller.forgotPassword
+    );
+
+    // Set a new password with a reset token
+    this.router.post(
+      '/reset-password',
+      ValidationMiddleware.body(ResetPasswordDto),
+      controller.resetPassword
+    );
+
+    // Verify email address
+    this.router.post(
+      '/verify-email',
+      ValidationMiddleware.body(VerifyEmailDto),
+      controller.verifyEmail
+    );
+
+    // Resend verification email (protected)
+    this.router.post('/resend-verification', authenticate, controller.resendVerification);
+
+    // Start two-factor enrollment (protected)
+    this.router.post('/2fa/enroll', authenticate, forbidApiKey, controller.enrollTwoFactor);
+
+    // Enable two-factor authentication (protected)
+    this.router.post(
+      '/2fa/confirm',
+      authenticate,
+      forbidApiKey,
+      ValidationMiddleware.body(TwoFactorCodeDto),
+      controller.confirmTwoFactor
+    );
+
+    // Disable two-factor authentication (protected)
+    this.router.post(
+      '/2fa/disable',
+      authenticate,
+      forbidApiKey,
+      ValidationMiddleware.body(TwoFactorCodeDto),
+      controller.disableTwoFactor
+    );
+
+    // List signed-in devices (protected)
+    this.router.get('/sessions', authenticate, forbidApiKey, controller.getSessions);
+
+    // Sign out a specific device (protected)
+    this.router.delete(
+      '/sessions/:id',
+      authenticate,
+      forbidApiKey,
+      ValidationMiddleware.params(SessionIdParamDto),
+      controller.revokeSession
+    );
+
+    // List API keys (protected)
+    this.router.get('/api-keys', authenticate, forbidApiKey, controller.listApiKeys);
+
+    // Create an API key (protected)
+    this.router.post(
+      '/api-keys',
+      authenticate,
+      forbidApiKey,
+      ValidationMiddleware.body(CreateApiKeyDto),
+      controller.createApiKey
+    );
+
+    // Revoke an API key (protected)
+    this.router.delete(
+      '/api-keys/:id',
+      authenticate,
+      forbidApiKey,
+      ValidationMiddleware.params(ApiKeyIdParamDto),
+      controller.revokeApiKey
+    );
+
     // Get current user (protected)
     this.router.get('/me', authenticate, controller.getCurrentUser);
 
+    // Update current user profile (protected)
+    this.router.patch(
+      '/me',
+      authenticate,
+      ValidationMiddleware.body(UpdateProfileDto),
+      controller.updateCurrentUser
+    );
+
     // Register Swagger documentation
     this.registerSwaggerDocs(this.generateSwaggerDocs());
   }
@@ -103,6 +216,17 @@ export class AuthRouter extends BaseRouter {
         successMessage: 'Login successful',
         middleware: [ValidationMiddleware.body(LoginDto)],
       },
+      {
+        path: this.buildSwaggerPath('/login/2fa', false),
+        method: 'post',
+        summary: 'Complete two-factor login',
+        description: 'Exchange the challenge token from login and a TOTP or recovery code for access tokens',
+        tags: ['Authentication'],
+        responseDto: AuthResponseDto,
+        successStatus: 200,
+        successMessage: 'Login successful',
+        middleware: [ValidationMiddleware.body(TwoFactorLoginDto)],
+      },
       {
         path: this.buildSwaggerPath('/refresh', false),
         method: 'post',
@@ -114,6 +238,146 @@ export class AuthRouter extends BaseRouter {
         successMessage: 'Token refreshed successfully',
         middleware: [ValidationMiddleware.body(RefreshTokenDto)],
       },
+      {
+        path: this.buildSwaggerPath('/logout', false),
+        method: 'post',
+        summary: 'Logout',
+        description: 'Revoke the session the refresh token belongs to; its access tokens stop working immediately',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Logged out successfully',
+        middleware: [ValidationMiddleware.body(RefreshTokenDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/logout-all', false),
+        method: 'post',
+        summary: 'Logout of all sessions',
+        description: 'Revoke every session of the currently authenticated user',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Logged out of all sessions successfully',
+        middleware: [authenticate, forbidApiKey],
+      },
+      {
+        path: this.buildSwaggerPath('/forgot-password', false),
+        method: 'post',
+        summary: 'Request password reset',
+        description: 'Email a single-use password reset link; responds the same whether or not the account exists',
+        tags: ['Authentication'],
+        successStatus: 202,
+        successMessage: 'If an account exists for this email, a password reset link has been sent',
+        middleware: [ValidationMiddleware.body(ForgotPasswordDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/reset-password', false),
+        method: 'post',
+        summary: 'Reset password',
+        description: 'Set a new password with a reset token; signs out every existing session',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Password reset successfully',
+        middleware: [ValidationMiddleware.body(ResetPasswordDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/verify-email', false),
+        method: 'post',
+        summary: 'Verify email',
+        description: 'Verify the account email address with the token sent on registration',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Email verified successfully',
+        middleware: [ValidationMiddleware.body(VerifyEmailDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/resend-verification', false),
+        method: 'post',
+        summary: 'Resend verification email',
+        description: 'Send a new verification link to the current user; earlier links stop working',
+        tags: ['Authentication'],
+        successStatus: 202,
+        successMessage: 'Verification email sent',
+        middleware: [authenticate],
+      },
+      {
+        path: this.buildSwaggerPath('/2fa/enroll', false),
+        method: 'post',
+        summary: 'Start two-factor enrollment',
+        description: 'Generate a TOTP secret and otpauth URI for an authenticator app',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Scan the code with an authenticator app, then confirm with a code',
+        middleware: [authenticate, forbidApiKey],
+      },
+      {
+        path: this.buildSwaggerPath('/2fa/confirm', false),
+        method: 'post',
+        summary: 'Enable two-factor authentication',
+        description: 'Confirm enrollment with a code from the authenticator app; returns single-use recovery codes',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Two-factor authentication enabled',
+        middleware: [authenticate, forbidApiKey, ValidationMiddleware.body(TwoFactorCodeDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/2fa/disable', false),
+        method: 'post',
+        summary: 'Disable two-factor authentication',
+        description: 'Turn off two-factor authentication with a TOTP or recovery code',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Two-factor authentication disabled',
+        middleware: [authenticate, forbidApiKey, ValidationMiddleware.body(TwoFactorCodeDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/sessions', false),
+        method: 'get',
+        summary: 'List sessions',
+        description: 'List the devices the current user is signed in on, with user agent, IP, created and last-used time',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Sessions retrieved successfully',
+        middleware: [authenticate, forbidApiKey],
+      },
+      {
+        path: this.buildSwaggerPath('/sessions/:id', false),
+        method: 'delete',
+        summary: 'Revoke session',
+        description: 'Sign out one of the current user\'s devices',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'Session revoked successfully',
+        middleware: [authenticate, forbidApiKey, ValidationMiddleware.params(SessionIdParamDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/api-keys', false),
+        method: 'get',
+        summary: 'List API keys',
+        description: 'List the current user\'s API keys with prefix, scopes, expiry and last-used time',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'API keys retrieved successfully',
+        middleware: [authenticate, forbidApiKey],
+      },
+      {
+        path: this.buildSwaggerPath('/api-keys', false),
+        method: 'post',
+        summary: 'Create API key',
+        description: 'Create a named, scoped API key for the X-API-Key header; the key is only returned once',
+        tags: ['Authentication'],
+        successStatus: 201,
+        successMessage: 'API key created. Copy it now; it will not be shown again',
+        middleware: [authenticate, forbidApiKey, ValidationMiddleware.body(CreateApiKeyDto)],
+      },
+      {
+        path: this.buildSwaggerPath('/api-keys/:id', false),
+        method: 'delete',
+        summary: 'Revoke API key',
+        description: 'Revoke one of the current user\'s API keys',
+        tags: ['Authentication'],
+        successStatus: 200,
+        successMessage: 'API key revoked',
+        middleware: [authenticate, forbidApiKey, ValidationMiddleware.params(ApiKeyIdParamDto)],
+      },
       {
         path: this.buildSwaggerPath('/me', false),
         method: 'get',
@@ -125,6 +389,17 @@ export class AuthRouter extends BaseRouter {
         successMessage: 'User retrieved successfully',
         middleware: [authenticate],
       },
+      {
+        path: this.buildSwaggerPath('/me', false),
+        method: 'patch',
+        summary: 'Update current user',
+        description: 'Update profile fields (name, country) of the currently authenticated user',
+        tags: ['Authentication'],
+        responseDto: UserResponseDto,
+        successStatus: 200,
+        successMessage: 'Profile updated successfully',
+        middleware: [authenticate, ValidationMiddleware.body(UpdateProfileDto)],
+      },
     ]);
   }
 
@@ -135,8 +410,22 @@ export class AuthRouter extends BaseRouter {
     return [
       { path: '/register', methods: ['POST'] },
       { path: '/login', methods: ['POST'] },
+      { path: '/login/2fa', methods: ['POST'] },
       { path: '/refresh', methods: ['POST'] },
-      { path: '/me', methods: ['GET'] },
+      { path: '/logout', methods: ['POST'] },
+      { path: '/logout-all', methods: ['POST'] },
+      { path: '/forgot-password', methods: ['POST'] },
+      { path: '/reset-password', methods: ['POST'] },
+      { path: '/2fa/enroll', methods: ['POST'] },
+      { path: '/2fa/confirm', methods: ['POST'] },
+      { path: '/2fa/disable', methods: ['POST'] },
+      { path: '/verify-email', methods: ['POST'] },
+      { path: '/resend-verification', methods: ['POST'] },
+      { path: '/sessions', methods: ['GET'] },
+      { path: '/api-keys', methods: ['GET', 'POST'] },
+      { path: '/api-keys/:id', methods: ['DELETE'] },
+      { path: '/sessions/:id', methods: ['DELETE'] },
+      { path: '/me', methods: ['GET', 'PATCH'] },
     ];
   }
 
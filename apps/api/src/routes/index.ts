@@ -20,6 +20,8 @@ export * from './subscriptions';
 export * from './webhooks';
 export * from './movies';
 export * from './admin';
+export * from './me';
+export * from './plans';
 
 // Export RouterManager
 export { RouterManager } from './router_manager';
@@ -0,0 +1 @@
+export * from './me_router';
@@ -0,0 +1,140 @@
+import { BaseRouter } from '../common/base_router';
+import { AccountController, LibraryController } from '../../controllers';
+import { authenticate, forbidApiKey } from '../../middleware';
+import { ValidationMiddleware } from '../../middleware/validation';
+import { DeleteAccountDto, MovieIdParamDto, UpdateProgressDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+
+/**
+ * Me Router
+ * Handles the current user's library (favorites, history, playback progress)
+ * and account data (export and deletion)
+ */
+export class MeRouter extends BaseRouter {
+  private libraryController!: LibraryController;
+  private accountController!: AccountController;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Get or create the library controller instance (lazy initialization)
+   */
+  private getLibraryController(): LibraryController {
+    if (!this.libraryController) {
+      this.libraryController = new LibraryController();
+    }
+    return this.libraryController;
+  }
+
+  /**
+   * Get or create the account controller instance (lazy initialization)
+   */
+  private getAccountController(): AccountController {
+    if (!this.accountController) {
+      this.accountController = new AccountController();
+    }
+    return this.accountController;
+  }
+
+  /**
+   * Get base path for me routes
+   */
+  public getBasePath(): string {
+    return '/me';
+  }
+
+  /**
+   * Initialize routes
+   */
+  protected initializeRoutes(): void {
+    const controller = this.getLibraryController();
+    const accountController = this.getAccountController();
+
+    // All routes require authentication
+    this.router.use(authenticate);
+
+    // Export account data (JSON, or ZIP of CSV files with ?format=zip)
+    this.router.get('/export', forbidApiKey, accountController.exportData);
+
+    // Request account deletion
+    this.router.delete(
+      '/',
+      forbidApiKey,
+      ValidationMiddleware.body(DeleteAccountDto),
+      accountController.deleteAccount
+    );
+
+    // Cancel a pending account deletion
+    this.router.post('/deletion/cancel', forbidApiKey, accountController.cancelDeletion);
+
+    // List favorites
+    this.router.get('/library/favorites', controller.getFavorites);
+
+    // Add to favorites
+    this.router.put(
+      '/library/favorites/:movieId',
+      ValidationMiddleware.params(MovieIdParamDto),
+      controller.addFavorite
+    );
+
+    // Remove from favorites
+    this.router.delete(
+      '/library/favorites/:movieId',
+      ValidationMiddleware.params(MovieIdParamDto),
+      controller.removeFavorite
+    );
+
+    // List watch history
+    this.router.get('/library/history', controller.getHistory);
+
+    // Mark as watched
+    this.router.put(
+      '/library/watched/:movieId',
+      ValidationMiddleware.params(MovieIdParamDto),
+      controller.markWatched
+    );
+
+    // Mark as unwatched
+    this.router.delete(
+      '/library/watched/:movieId',
+      ValidationMiddleware.params(MovieIdParamDto),
+      controller.markUnwatched
+    );
+
+    // Sync playback progress
+    this.router.put(
+      '/progress/:movieId',
+      ...ValidationMiddleware.bodyAndParams(UpdateProgressDto, MovieIdParamDto),
+      controller.updateProgress
+    );
+
+    // List titles to resume
+    this.router.get('/continue-watching', controller.getContinueWatching);
+  }
+
+  /**
+   * Get the library controller instance
+   * Useful for testing or accessing controller methods directly
+   */
+  public getController(): LibraryController {
+    return this.getLibraryController();
+  }
+
+  /**
+   * Get route information
+   */
+  public getRouteInfo(): Array<{ path: string; methods: string[] }> {
+    return [
+      { path: '/export', methods: ['GET'] },
+      { path: '/', methods: ['DELETE'] },
+      { path: '/deletion/cancel', methods: ['POST'] },
+      { path: '/library/favorites', methods: ['GET'] },
+      { path: '/library/favorites/:movieId', methods: ['PUT', 'DELETE'] },
+      { path: '/library/history', methods: ['GET'] },
+      { path: '/library/watched/:movieId', methods: ['PUT', 'DELETE'] },
+      { path: '/progress/:movieId', methods: ['PUT'] },
+      { path: '/continue-watching', methods: ['GET'] },
+    ];
+  }
+}
@@ -1,6 +1,8 @@
 import { BaseRouter } from '../common/base_router';
-import { MovieController } from '../../controllers';
-import { optionalAuth } from '../../middleware';
+import { MovieController, SubtitleController } from '../../controllers';
+import { authenticate, optionalAuth, requireEntitlement, requirePermission } from '../../middleware';
+import { ValidationMiddleware } from '../../middleware/validation';
+import { UploadSubtitleDto, Entitlement, Permission } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Movie Router
@@ -8,6 +10,7 @@ import { optionalAuth } from '../../middleware';
  */
 export class MovieRouter extends BaseRouter {
   private movieController!: MovieController;
+  private subtitleController!: SubtitleController;
 
   constructor() {
     super();
@@ -23,6 +26,16 @@ export class MovieRouter extends BaseRouter {
     return this.movieController;
   }
 
+  /**
+   * Get or create the subtitle controller instance (lazy initialization)
+   */
+  private getSubtitleController(): SubtitleController {
+    if (!this.subtitleController) {
+      this.subtitleController = new SubtitleController();
+    }
+    return this.subtitleController;
+  }
+
   /**
    * Get base path for movie routes
    */
@@ -51,8 +64,35 @@ export class MovieRouter extends BaseRouter {
     // Search movies
     this.router.get('/search/:query', optionalAuth, controller.searchMovies);
 
-    // Get streaming links for a movie
-    this.router.get('/:id/streaming', optionalAuth, controller.getStreamingLinks);
+    // Get streaming links for a movie (subscribers)
+    this.router.get(
+      '/:id/streaming',
+      authenticate,
+      requireEntitlement(Entitlement.STREAMING),
+      controller.getStreamingLinks
+    );
+
+    const subtitleController = this.getSubtitleController();
+
+    // List available subtitle languages
+    this.router.get('/:id/subtitles', subtitleController.getSubtitles);
+
+    // Serve a subtitle track as .vtt or .srt (subscribers)
+    this.router.get(
+      '/:id/subtitles/:lang.:format',
+      authenticate,
+      requireEntitlement(Entitlement.SUBTITLES),
+      subtitleController.getSubtitleTrack
+    );
+
+    // Upload a subtitle track (subtitle moderators)
+    this.router.post(
+      '/:id/subtitles',
+      authenticate,
+      requirePermission(Permission.SUBTITLES_MODERATE),
+      ValidationMiddleware.body(UploadSubtitleDto),
+      subtitleController.uploadSubtitle
+    );
   }
 
   /**
@@ -74,6 +114,8 @@ export class MovieRouter extends BaseRouter {
       { path: '/category/:category', methods: ['GET'] },
       { path: '/search/:query', methods: ['GET'] },
       { path: '/:id/streaming', methods: ['GET'] },
+      { path: '/:id/subtitles', methods: ['GET', 'POST'] },
+      { path: '/:id/subtitles/:lang.:format', methods: ['GET'] },
     ];
   }
 }
@@ -0,0 +1,58 @@
+import { BaseRouter } from '../common/base_router';
+import { PlanController } from '../../controllers';
+
+/**
+ * Plan Router
+ * Handles the public plan catalog shown on the pricing page
+ */
+export class PlanRouter extends BaseRouter {
+  private planController!: PlanController;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Get or create the plan controller instance (lazy initialization)
+   */
+  private getPlanController(): PlanController {
+    if (!this.planController) {
+      this.planController = new PlanController();
+    }
+    return this.planController;
+  }
+
+  /**
+   * Get base path for plan routes
+   */
+  public getBasePath(): string {
+    return '/plans';
+  }
+
+  /**
+   * Initialize routes
+   */
+  protected initializeRoutes(): void {
+    const controller = this.getPlanController();
+
+    // List active plans
+    this.router.get('/', controller.getPlans);
+  }
+
+  /**
+   * Get the plan controller instance
+   * Useful for testing or accessing controller methods directly
+   */
+  public getController(): PlanController {
+    return this.getPlanController();
+  }
+
+  /**
+   * Get route information
+   */
+  public getRouteInfo(): Array<{ path: string; methods: string[] }> {
+    return [
+      { path: '/', methods: ['GET'] },
+    ];
+  }
+}
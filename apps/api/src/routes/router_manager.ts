@@ -6,6 +6,8 @@ import { SubscriptionRouter } from './subscriptions/subscription_router';
 import { WebhookRouter } from './webhooks/webhook_router';
 import { MovieRouter } from './movies/movie_router';
 import { AdminRouter } from './admin/admin_router';
+import { MeRouter } from './me/me_router';
+import { PlanRouter } from './plans/plan_router';
 
 // Interface for router-like objects
 interface RouterLike {
@@ -41,6 +43,8 @@ export class RouterManager {
   private webhookRouter: WebhookRouter;
   private movieRouter: MovieRouter;
   private adminRouter: AdminRouter;
+  private meRouter: MeRouter;
+  private planRouter: PlanRouter;
 
   private constructor() {
     this.mainRouter = Router();
@@ -51,6 +55,8 @@ export class RouterManager {
     this.webhookRouter = new WebhookRouter();
     this.movieRouter = new MovieRouter();
     this.adminRouter = new AdminRouter();
+    this.meRouter = new MeRouter();
+    this.planRouter = new PlanRouter();
     
     // Set API prefix for routers that need it (for Swagger documentation)
     this.itemRouter.setApiPrefix(API_PREFIX);
@@ -58,6 +64,8 @@ export class RouterManager {
     this.subscriptionRouter.setApiPrefix(API_PREFIX);
     this.movieRouter.setApiPrefix(API_PREFIX);
     this.adminRouter.setApiPrefix(API_PREFIX);
+    this.meRouter.setApiPrefix(API_PREFIX);
+    this.planRouter.setApiPrefix(API_PREFIX);
     
     this.configureRoutes();
   }
@@ -93,6 +101,8 @@ export class RouterManager {
     this.mainRouter.use(`${API_PREFIX}${this.subscriptionRouter.getBasePath()}`, this.subscriptionRouter.getRouter());
     this.mainRouter.use(`${API_PREFIX}${this.movieRouter.getBasePath()}`, this.movieRouter.getRouter());
     this.mainRouter.use(`${API_PREFIX}${this.adminRouter.getBasePath()}`, this.adminRouter.getRouter());
+    this.mainRouter.use(`${API_PREFIX}${this.meRouter.getBasePath()}`, this.meRouter.getRouter());
+    this.mainRouter.use(`${API_PREFIX}${this.planRouter.getBasePath()}`, this.planRouter.getRouter());
     // Webhooks don't use /api prefix and need raw body
     this.mainRouter.use(this.webhookRouter.getBasePath(), this.webhookRouter.getRouter());
   }
@@ -1,8 +1,9 @@
 import { BaseRouter } from '../common/base_router';
 import { SubscriptionController } from '../../controllers';
-import { authenticate, requireAdmin } from '../../middleware';
+import { authenticate, requirePermission } from '../../middleware';
 import { ValidationMiddleware } from '../../middleware/validation';
-import { CreateSubscriptionDto, CancelSubscriptionDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+import { CreateSubscriptionDto, CancelSubscriptionDto, CreateCheckoutSessionDto, ChangePlanDto, ChangePlanPreviewQueryDto } from '@nx-mono-repo-deployment-test/shared/src/dtos';
+import { Permission } from '@nx-mono-repo-deployment-test/shared';
 
 /**
  * Subscription Router
@@ -41,6 +42,9 @@ export class SubscriptionRouter extends BaseRouter {
     // Get current user's subscription
     this.router.get('/current', authenticate, controller.getCurrentSubscription);
 
+    // Get current user's premium feature entitlements
+    this.router.get('/entitlements', authenticate, controller.getEntitlements);
+
     // Create subscription
     this.router.post(
       '/create',
@@ -49,6 +53,33 @@ export class SubscriptionRouter extends BaseRouter {
       controller.createSubscription
     );
 
+    // Start a hosted Stripe Checkout
+    this.router.post(
+      '/checkout',
+      authenticate,
+      ValidationMiddleware.body(CreateCheckoutSessionDto),
+      controller.createCheckoutSession
+    );
+
+    // Open the Stripe Billing Portal
+    this.router.post('/portal', authenticate, controller.createPortalSession);
+
+    // Preview switching to another plan
+    this.router.get(
+      '/change-plan/preview',
+      authenticate,
+      ValidationMiddleware.query(ChangePlanPreviewQueryDto),
+      controller.previewPlanChange
+    );
+
+    // Switch to another plan
+    this.router.post(
+      '/change-plan',
+      authenticate,
+      ValidationMiddleware.body(ChangePlanDto),
+      controller.changePlan
+    );
+
     // Cancel subscription
     this.router.post(
       '/cancel',
@@ -57,16 +88,16 @@ export class SubscriptionRouter extends BaseRouter {
       controller.cancelSubscription
     );
 
-    // Get subscription by ID (admin)
+    // Get subscription by ID (billing staff)
     this.router.get(
       '/:id',
       authenticate,
-      requireAdmin,
+      requirePermission(Permission.BILLING_READ),
       controller.getSubscriptionById
     );
 
-    // List all subscriptions (admin)
-    this.router.get('/', authenticate, requireAdmin, controller.listSubscriptions);
+    // List all subscriptions (billing staff)
+    this.router.get('/', authenticate, requirePermission(Permission.BILLING_READ), controller.listSubscriptions);
   }
 
   /**
@@ -83,7 +114,12 @@ export class SubscriptionRouter extends BaseRouter {
   public getRouteInfo(): Array<{ path: string; methods: string[] }> {
     return [
       { path: '/current', methods: ['GET'] },
+      { path: '/entitlements', methods: ['GET'] },
       { path: '/create', methods: ['POST'] },
+      { path: '/checkout', methods: ['POST'] },
+      { path: '/portal', methods: ['POST'] },
+      { path: '/change-plan/preview', methods: ['GET'] },
+      { path: '/change-plan', methods: ['POST'] },
       { path: '/cancel', methods: ['POST'] },
       { path: '/:id', methods: ['GET'] },
       { path: '/', methods: ['GET'] },
@@ -1,9 +1,8 @@
 import { Request, Response } from 'express';
 import { BaseRouter } from '../common/base_router';
 import stripeService from '../../services/stripe.service';
-import { SubscriptionModel } from '../../models';
+import StripeWebhookService from '../../services/stripe_webhook.service';
 import { appConfig } from '../../config/app.config';
-import Stripe from 'stripe';
 
 /**
  * Webhook Router
@@ -22,7 +21,7 @@ export class WebhookRouter extends BaseRouter {
    */
   protected initializeRoutes(): void {
     // Stripe webhook endpoint
-    // Note: Stripe webhooks require raw body, so we handle it differently
+    // Note: the server parses this path with express.raw so the signature can be checked
     this.router.post(
       '/stripe',
       this.handleStripeWebhook.bind(this)
@@ -41,12 +40,15 @@ export class WebhookRouter extends BaseRouter {
       return;
     }
 
+    if (!Buffer.isBuffer(req.body)) {
+      res.sendError('Webhook payload must be the raw request body', 400);
+      return;
+    }
+
     let event;
     try {
-      // Get raw body for webhook verification
-      const rawBody = JSON.stringify(req.body);
       event = stripeService.verifyWebhookSignature(
-        rawBody,
+        req.body,
         sig as string,
         webhookSecret
       );
@@ -57,30 +59,9 @@ export class WebhookRouter extends BaseRouter {
     }
 
     try {
-      // Handle different event types
-      switch (event.type) {
-        case 'customer.subscription.created':
-        case 'customer.subscription.updated':
-          await this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription);
-          break;
-
-        case 'customer.subscription.deleted':
-          await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
-          break;
-
-        case 'payment_intent.succeeded':
-          await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
-          break;
+      const outcome = await StripeWebhookService.getInstance().handleEvent(event);
 
-        case 'payment_intent.payment_failed':
-          await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
-          break;
-
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
-      }
-
-      res.json({ received: true });
+      res.json({ received: true, ...(outcome === 'duplicate' ? { duplicate: true } : {}) });
     } catch (error: unknown) {
       console.error('Error handling webhook:', error);
       const errorMessage = error instanceof Error ? error.message : 'Webhook handling failed';
@@ -88,73 +69,6 @@ export class WebhookRouter extends BaseRouter {
     }
   }
 
-  /**
-   * Handle subscription update
-   */
-  private async handleSubscriptionUpdate(stripeSubscription: Stripe.Subscription): Promise<void> {
-    const userId = stripeSubscription.metadata?.userId;
-    if (!userId) {
-      console.error('No userId in subscription metadata');
-      return;
-    }
-
-    await stripeService.syncSubscriptionToDatabase(stripeSubscription, userId);
-  }
-
-  /**
-   * Handle subscription deleted
-   */
-  private async handleSubscriptionDeleted(stripeSubscription: Stripe.Subscription): Promise<void> {
-    const subscription = await SubscriptionModel.findOne({
-      where: { stripe_subscription_id: stripeSubscription.id },
-    });
-
-    if (subscription) {
-      await subscription.update({
-        status: 'cancelled',
-        cancelled_at: new Date(),
-      });
-    }
-  }
-
-  /**
-   * Handle payment succeeded
-   */
-  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const userId = paymentIntent.metadata?.userId;
-    if (!userId) {
-      console.error('No userId in payment intent metadata');
-      return;
-    }
-
-    // Find associated subscription if any
-    const subscription = await SubscriptionModel.findOne({
-      where: { user_id: userId },
-      order: [['created_at', 'DESC']],
-    });
-
-    await stripeService.syncPaymentToDatabase(
-      paymentIntent,
-      userId,
-      subscription?.id
-    );
-  }
-
-  /**
-   * Handle payment failed
-   */
-  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const userId = paymentIntent.metadata?.userId;
-    if (!userId) {
-      return;
-    }
-
-    await stripeService.syncPaymentToDatabase(
-      paymentIntent,
-      userId
-    );
-  }
-
   /**
    * Get route information
    */
@@ -6,10 +6,11 @@ import morgan from 'morgan';
 import { Server as HttpServer } from 'http';
 import Database from './database';
 import { RouterManager } from './routes';
-import { normalizeResponse, errorHandler } from './middleware';
+import { normalizeResponse, errorHandler, requestContext } from './middleware';
 import { setupSwagger } from './middleware/swagger';
 import { getCurrentEnvironment, getEnvironmentDisplayName, isDevelopment } from './enums';
 import { appConfig } from './config/app.config';
+import { AccountPurgeService, PermissionService, StreamingRefreshService, SubtitleTranslationService } from './services';
 
 /**
  * Server class - Handles application lifecycle
@@ -40,6 +41,8 @@ class Server {
    * Setup middleware
    */
   private setupMiddleware(): void {
+    // Behind nginx, req.ip (login throttling, sessions, audit) must come from X-Forwarded-For
+    this.app.set('trust proxy', appConfig.trustProxy);
     this.app.use(helmet());
     
     // CORS configuration - allow frontend domains
@@ -47,12 +50,16 @@ class Server {
       origin: appConfig.corsOrigin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+      exposedHeaders: ['X-Request-Id']
     }));
     
-    this.app.use(express.json());
+    // Stripe signs the exact bytes it sends, so webhooks keep the raw body (express.json skips parsed requests)
+    this.app.use('/webhooks/stripe', express.raw({ type: 'application/json', limit: '1mb' }));
+    this.app.use(express.json({ limit: '2mb' })); // Subtitle uploads carry the file as JSON
     this.app.use(express.urlencoded({ extended: true }));
     this.app.use(morgan('combined'));
+    this.app.use(requestContext);
     
     // Response normalization middleware
     this.app.use(normalizeResponse);
@@ -123,6 +130,7 @@ class Server {
       // Sync database models (only alter in development)
       const shouldAlter = isDevelopment();
       await this.database.sync(false, shouldAlter);
+      await PermissionService.getInstance().seedDefaults();
 
       // Setup application
       this.setupMiddleware();
@@ -135,6 +143,9 @@ class Server {
         this.server = this.app.listen(port, () => {
           console.log(`✓ API Server is running on port ${port} `);
           console.log(`✓ Environment: ${getEnvironmentDisplayName(getCurrentEnvironment())}`);
+          StreamingRefreshService.getInstance().start();
+          AccountPurgeService.getInstance().start();
+          SubtitleTranslationService.getInstance().resumePendingTranslations();
           resolve();
         });
 
@@ -160,6 +171,9 @@ class Server {
   public async stop(): Promise<void> {
     try {
       console.log('\n🛑 Stopping server...');
+
+      StreamingRefreshService.getInstance().stop();
+      AccountPurgeService.getInstance().stop();
       
       // Close HTTP server
       if (this.server) {
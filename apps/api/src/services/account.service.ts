@@ -0,0 +1,299 @@
+import { AdminDao, ApiKeyDao, AuthDao, AuthSessionDao, PaymentDao, SubscriptionDao, UserDao, UserMovieDao, UserTokenDao } from '../dao';
+import { IAccountDeletion, IAccountExport, IApiResponse, IPayment, IUser, SubscriptionStatus } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+import { toCsv } from '../utils/csv';
+import { createZip } from '../utils/zip';
+import authService from './auth.service';
+import stripeService from './stripe.service';
+import LoginThrottleService from './login_throttle.service';
+
+/**
+ * Subscription statuses Stripe may still bill for
+ */
+const BILLABLE_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.ACTIVE,
+  SubscriptionStatus.TRIALING,
+  SubscriptionStatus.PAST_DUE,
+];
+
+/**
+ * Account Service
+ * Data export and deletion of the current user's account (GDPR)
+ * Deletion is two-step: a request stops billing and signs the user out, and
+ * once the grace period ends the purge removes personal data; the user row
+ * is kept as an anonymized tombstone so payment records stay consistent
+ */
+class AccountService {
+  private static instance: AccountService;
+  private userDao: UserDao;
+  private authDao: AuthDao;
+  private subscriptionDao: SubscriptionDao;
+  private paymentDao: PaymentDao;
+  private adminDao: AdminDao;
+  private userMovieDao: UserMovieDao;
+  private authSessionDao: AuthSessionDao;
+  private userTokenDao: UserTokenDao;
+  private apiKeyDao: ApiKeyDao;
+  private loginThrottleService: LoginThrottleService;
+
+  private constructor() {
+    this.userDao = UserDao.getInstance();
+    this.authDao = AuthDao.getInstance();
+    this.subscriptionDao = SubscriptionDao.getInstance();
+    this.paymentDao = PaymentDao.getInstance();
+    this.adminDao = AdminDao.getInstance();
+    this.userMovieDao = UserMovieDao.getInstance();
+    this.authSessionDao = AuthSessionDao.getInstance();
+    this.userTokenDao = UserTokenDao.getInstance();
+    this.apiKeyDao = ApiKeyDao.getInstance();
+    this.loginThrottleService = LoginThrottleService.getInstance();
+  }
+
+  /**
+   * Get AccountService singleton instance
+   */
+  public static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  /**
+   * Collect everything held about a user
+   */
+  public async exportData(userId: string): Promise<IApiResponse<IAccountExport>> {
+    try {
+      const user = await this.userDao.findById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      const [subscriptions, payments, adminFundings, library] = await Promise.all([
+        this.subscriptionDao.findAllByUserId(userId),
+        this.paymentDao.findByUserId(userId),
+        this.adminDao.findAllByUserId(userId),
+        this.userMovieDao.findAllByUserId(userId),
+      ]);
+
+      const profile: IUser = {
+        id: user.id,
+        email: user.email,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        country: user.country,
+        subscription_status: user.subscription_status,
+        email_verified_at: user.email_verified_at,
+        deletion_scheduled_at: user.deletion_scheduled_at,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+      };
+
+      return {
+        success: true,
+        data: {
+          exported_at: new Date(),
+          profile,
+          subscriptions,
+          payments: payments.map((payment): IPayment => ({
+            id: payment.id,
+            user_id: payment.user_id,
+            amount: Number(payment.amount),
+            currency: payment.currency,
+            status: payment.status,
+            stripe_payment_intent_id: payment.stripe_payment_intent_id,
+            subscription_id: payment.subscription_id ?? undefined,
+            created_at: payment.created_at,
+            updated_at: payment.updated_at,
+          })),
+          admin_fundings: adminFundings,
+          library,
+        },
+      };
+    } catch (error) {
+      console.error('Error in AccountService.exportData:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export account data',
+      };
+    }
+  }
+
+  /**
+   * The export as a ZIP archive with one CSV file per section
+   */
+  public async exportZip(userId: string): Promise<IApiResponse<Buffer>> {
+    const result = await this.exportData(userId);
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error,
+      };
+    }
+
+    const { profile, subscriptions, payments, admin_fundings, library } = result.data;
+
+    return {
+      success: true,
+      data: createZip([
+        { name: 'profile.csv', content: toCsv([profile]) },
+        { name: 'subscriptions.csv', content: toCsv(subscriptions) },
+        { name: 'payments.csv', content: toCsv(payments) },
+        { name: 'admin_fundings.csv', content: toCsv(admin_fundings) },
+        {
+          name: 'library.csv',
+          content: toCsv(
+            library.map(({ movie, ...entry }) => ({ ...entry, title: movie?.title, tmdb_id: movie?.tmdb_id })),
+            ['movie_id', 'tmdb_id', 'title', 'favorited', 'watched_at', 'watch_position', 'progress_updated_at', 'updated_at']
+          ),
+        },
+      ], result.data.exported_at),
+    };
+  }
+
+  /**
+   * Schedule deletion of a user's account
+   * Cancels Stripe subscriptions right away and signs the user out everywhere;
+   * signing in again before the grace period ends allows cancelling the request
+   */
+  public async requestDeletion(userId: string, password: string): Promise<IApiResponse<IAccountDeletion>> {
+    try {
+      const user = await this.userDao.findById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (!(await authService.verifyPassword(userId, password))) {
+        return {
+          success: false,
+          error: 'Invalid password',
+        };
+      }
+
+      if (user.deletion_scheduled_at) {
+        return {
+          success: false,
+          error: 'Account deletion is already scheduled',
+          details: { deletion_scheduled_at: user.deletion_scheduled_at },
+        };
+      }
+
+      // Stop billing first; if Stripe fails nothing else has changed and the request can be retried
+      const subscriptions = await this.subscriptionDao.findAllByUserId(userId);
+      for (const subscription of subscriptions) {
+        if (!subscription.id || !BILLABLE_STATUSES.includes(subscription.status)) {
+          continue;
+        }
+        if (subscription.stripe_subscription_id) {
+          await stripeService.cancelSubscription(subscription.stripe_subscription_id, true);
+        }
+        await this.subscriptionDao.update(subscription.id, {
+          status: SubscriptionStatus.CANCELLED,
+          cancelled_at: new Date(),
+        });
+      }
+
+      const deletionScheduledAt = new Date(Date.now() + appConfig.accountDeletion.graceDays * 24 * 60 * 60 * 1000);
+      await this.userDao.update(userId, {
+        subscription_status: 'cancelled',
+        deletion_scheduled_at: deletionScheduledAt,
+      });
+      await this.authSessionDao.revokeAllForUser(userId);
+      await this.apiKeyDao.revokeAllForUser(userId);
+
+      return {
+        success: true,
+        data: { deletion_scheduled_at: deletionScheduledAt },
+        message: 'Account deletion scheduled. Sign in again before the date shown to cancel it',
+      };
+    } catch (error) {
+      console.error('Error in AccountService.requestDeletion:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to schedule account deletion',
+      };
+    }
+  }
+
+  /**
+   * Cancel a pending deletion
+   * Cancelled subscriptions and revoked API keys are not restored
+   */
+  public async cancelDeletion(userId: string): Promise<IApiResponse<void>> {
+    try {
+      const user = await this.userDao.findById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (!user.deletion_scheduled_at) {
+        return {
+          success: false,
+          error: 'Account deletion is not scheduled',
+        };
+      }
+
+      await this.userDao.update(userId, { deletion_scheduled_at: null });
+
+      return {
+        success: true,
+        message: 'Account deletion cancelled',
+      };
+    } catch (error) {
+      console.error('Error in AccountService.cancelDeletion:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel account deletion',
+      };
+    }
+  }
+
+  /**
+   * Remove a user's personal data
+   * Credentials, sessions, tokens, API keys, the library and the Stripe customer
+   * are deleted; payments keep what bookkeeping needs and the user row becomes a tombstone
+   */
+  public async purgeAccount(userId: string): Promise<void> {
+    const user = await this.userDao.findById(userId);
+    if (!user || user.anonymized_at) {
+      return;
+    }
+
+    const auth = await this.authDao.findByUserId(userId);
+    if (auth?.id) {
+      await this.authDao.delete(auth.id);
+    }
+    await this.authSessionDao.deleteByUserId(userId);
+    await this.userTokenDao.deleteByUserId(userId);
+    await this.apiKeyDao.deleteByUserId(userId);
+    await this.userMovieDao.deleteByUserId(userId);
+    await this.paymentDao.anonymizeByUserId(userId);
+    await this.loginThrottleService.reset(user.email);
+
+    // The customer carries the email and name sent at checkout; a failure here retries the purge
+    if (user.stripe_customer_id) {
+      await stripeService.deleteCustomer(user.stripe_customer_id);
+    }
+
+    await this.userDao.update(userId, {
+      email: `deleted+${userId}@deleted.invalid`,
+      first_name: null,
+      last_name: null,
+      country: null,
+      stripe_customer_id: null,
+      email_verified_at: null,
+      anonymized_at: new Date(),
+    });
+  }
+}
+
+export default AccountService;
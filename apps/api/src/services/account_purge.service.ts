@@ -0,0 +1,96 @@
+import { UserDao } from '../dao';
+import { appConfig } from '../config/app.config';
+import AccountService from './account.service';
+
+/**
+ * Account Purge Service
+ * Periodically removes the personal data of accounts whose deletion grace
+ * period has ended
+ */
+class AccountPurgeService {
+  private static instance: AccountPurgeService;
+  private userDao: UserDao;
+  private accountService: AccountService;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  private constructor() {
+    this.userDao = UserDao.getInstance();
+    this.accountService = AccountService.getInstance();
+  }
+
+  /**
+   * Get AccountPurgeService singleton instance
+   */
+  public static getInstance(): AccountPurgeService {
+    if (!AccountPurgeService.instance) {
+      AccountPurgeService.instance = new AccountPurgeService();
+    }
+    return AccountPurgeService.instance;
+  }
+
+  /**
+   * Start the periodic purge job
+   */
+  public start(): void {
+    const { enabled, intervalMinutes } = appConfig.accountDeletion.purgeJob;
+    if (!enabled || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runBatch().catch((error) => {
+        console.error('Account purge job failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for the job
+    this.timer.unref();
+    console.log(`✓ Account purge job scheduled every ${intervalMinutes} minute(s)`);
+  }
+
+  /**
+   * Stop the periodic purge job
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purge one batch of accounts due for deletion
+   * Skipped when a previous batch is still running
+   * @returns Number of accounts purged
+   */
+  public async runBatch(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const users = await this.userDao.findDueForDeletion(new Date(), appConfig.accountDeletion.purgeJob.batchSize);
+
+      let purged = 0;
+      for (const user of users) {
+        try {
+          await this.accountService.purgeAccount(user.id);
+          purged++;
+        } catch (error) {
+          console.error(`Error purging account (${user.id}):`, error);
+        }
+      }
+
+      if (purged > 0) {
+        console.log(`✓ Purged ${purged} deleted account(s)`);
+      }
+      return purged;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default AccountPurgeService;
@@ -1,5 +1,14 @@
-import { AdminDao, UserDao, SubscriptionDao, ApiCreditDao } from '../dao';
-import { IApiResponse, IAdminFunding, IApiCredit, ISubscription, AdminFundingStatus, SubscriptionStatus, PlanType } from '@nx-mono-repo-deployment-test/shared';
+import { AdminDao, UserDao, AuthDao, SubscriptionDao, ApiCreditDao, PaymentDao } from '../dao';
+import { AuditAction, IAuditEventFilters, IPlan, IAuditEventPage, IStripeEvent, IStripeEventPage, StripeEventStatus, IApiResponse, IActiveSession, IAdminUserDetail, IAdminUserPage, AdminUserSortField, IAuth, IApiKeySummary, ICreatedApiKey, ApiKeyScope, IRolePermissions, Permission, UserRole, IAdminFunding, IApiCredit, ISubscription, ISubtitle, ITmdbCacheEntry, ITmdbCacheStats, AdminFundingStatus, StreamingProvider, SubscriptionStatus, SubtitleTranslationStatus, PlanType } from '@nx-mono-repo-deployment-test/shared';
+import TmdbCacheService from './tmdb_cache.service';
+import SubtitleTranslationService from './subtitle_translation.service';
+import streamingService from './streaming.service';
+import authService from './auth.service';
+import PermissionService from './permission.service';
+import ApiKeyService from './api_key.service';
+import AuditService from './audit.service';
+import StripeWebhookService from './stripe_webhook.service';
+import PlanService, { IPlanInput } from './plan.service';
 
 /**
  * Service layer for Admin business logic
@@ -9,15 +18,28 @@ class AdminService {
   private static instance: AdminService;
   private adminDao: AdminDao;
   private userDao: UserDao;
+  private authDao: AuthDao;
   private subscriptionDao: SubscriptionDao;
   private apiCreditDao: ApiCreditDao;
+  private paymentDao: PaymentDao;
+  private tmdbCacheService: TmdbCacheService;
+  private subtitleTranslationService: SubtitleTranslationService;
+  private permissionService: PermissionService;
+  private auditService: AuditService;
 
   private constructor() {
     // Initialize DAOs
     this.adminDao = AdminDao.getInstance();
     this.userDao = UserDao.getInstance();
+    this.authDao = AuthDao.getInstance();
     this.subscriptionDao = SubscriptionDao.getInstance();
     this.apiCreditDao = ApiCreditDao.getInstance();
+    this.paymentDao = PaymentDao.getInstance();
+
+    this.tmdbCacheService = TmdbCacheService.getInstance();
+    this.subtitleTranslationService = SubtitleTranslationService.getInstance();
+    this.permissionService = PermissionService.getInstance();
+    this.auditService = AuditService.getInstance();
   }
 
   /**
@@ -92,6 +114,17 @@ class AdminService {
       // Update user subscription status
       await this.userDao.updateSubscriptionStatus(userId, 'active');
 
+      await this.auditService.record({
+        action: AuditAction.SUBSCRIPTION_FUNDED,
+        target_type: 'subscription',
+        target_id: subscription.id,
+        before: existingSubscription
+          ? { status: existingSubscription.status, end_date: existingSubscription.end_date, funded_by_admin: existingSubscription.funded_by_admin }
+          : null,
+        after: { status: subscription.status, end_date: subscription.end_date, funded_by_admin: subscription.funded_by_admin },
+        metadata: { user_id: userId, funding_id: funding.id, months, amount: amount || 0 },
+      });
+
       return {
         success: true,
         data: {
@@ -148,6 +181,13 @@ class AdminService {
         expiry_date: expiryDate ? new Date(expiryDate) : null,
       });
 
+      await this.auditService.record({
+        action: AuditAction.API_CREDITS_ADDED,
+        target_type: 'api_credit',
+        target_id: credit.id,
+        metadata: { api_provider: apiProvider, credits, cost: cost ?? null },
+      });
+
       return {
         success: true,
         data: credit,
@@ -217,6 +257,679 @@ class AdminService {
       };
     }
   }
+
+  /**
+   * Get TMDB cache statistics and entries
+   */
+  public async getTmdbCache(
+    prefix?: string,
+    limit: number = 100
+  ): Promise<IApiResponse<{ stats: ITmdbCacheStats; entries: ITmdbCacheEntry[] }>> {
+    try {
+      const stats = await this.tmdbCacheService.getStats();
+      const entries = await this.tmdbCacheService.list(prefix, limit);
+
+      return {
+        success: true,
+        data: {
+          stats,
+          entries,
+        },
+      };
+    } catch (error) {
+      console.error('Error in AdminService.getTmdbCache:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get TMDB cache',
+      };
+    }
+  }
+
+  /**
+   * Purge TMDB cache entries (all entries when no prefix is given)
+   */
+  public async purgeTmdbCache(prefix?: string): Promise<IApiResponse<{ purged: number }>> {
+    try {
+      const purged = await this.tmdbCacheService.purge(prefix);
+
+      return {
+        success: true,
+        data: { purged },
+        message: 'TMDB cache purged successfully',
+      };
+    } catch (error) {
+      console.error('Error in AdminService.purgeTmdbCache:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to purge TMDB cache',
+      };
+    }
+  }
+
+  /**
+   * Get the streaming provider fallback chain
+   */
+  public async getStreamingProviders(): Promise<IApiResponse<{ providers: StreamingProvider[] }>> {
+    return {
+      success: true,
+      data: { providers: streamingService.getProviderChain() },
+    };
+  }
+
+  /**
+   * Replace the streaming provider fallback chain
+   * Overrides STREAMING_PROVIDERS until the next restart
+   */
+  public async updateStreamingProviders(
+    providers: StreamingProvider[]
+  ): Promise<IApiResponse<{ providers: StreamingProvider[] }>> {
+    try {
+      const previous = streamingService.getProviderChain();
+      const chain = streamingService.setProviderChain(providers);
+
+      await this.auditService.record({
+        action: AuditAction.STREAMING_PROVIDERS_UPDATED,
+        target_type: 'streaming_providers',
+        before: { providers: previous },
+        after: { providers: chain },
+      });
+
+      return {
+        success: true,
+        data: { providers: chain },
+        message: 'Streaming providers updated successfully',
+      };
+    } catch (error) {
+      console.error('Error in AdminService.updateStreamingProviders:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update streaming providers',
+      };
+    }
+  }
+
+  /**
+   * List AI subtitle translation jobs, optionally filtered by status
+   */
+  public async getSubtitleTranslations(
+    status?: SubtitleTranslationStatus,
+    limit?: number
+  ): Promise<IApiResponse<ISubtitle[]>> {
+    return this.subtitleTranslationService.getTranslations(status, limit);
+  }
+
+  /**
+   * Queue an AI Sinhala translation of a movie's English subtitles
+   */
+  public async enqueueSubtitleTranslation(movieId: string): Promise<IApiResponse<ISubtitle>> {
+    return this.subtitleTranslationService.enqueueTranslation(movieId);
+  }
+
+  /**
+   * Retry a failed AI subtitle translation
+   */
+  public async retrySubtitleTranslation(subtitleId: string): Promise<IApiResponse<ISubtitle>> {
+    return this.subtitleTranslationService.retryTranslation(subtitleId);
+  }
+
+  /**
+   * Search, filter and page through users
+   */
+  public async listUsers(options: {
+    search?: string;
+    subscription_status?: string;
+    role?: UserRole;
+    is_active?: boolean;
+    sort?: AdminUserSortField;
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+  }): Promise<IApiResponse<IAdminUserPage>> {
+    try {
+      const page = options.page || 1;
+      const limit = options.limit || 20;
+      const { rows, count } = await this.userDao.findForAdmin({
+        search: options.search?.trim() || undefined,
+        subscription_status: options.subscription_status,
+        role: options.role,
+        is_active: options.is_active,
+        sort: options.sort || 'created_at',
+        order: options.order || 'desc',
+        limit,
+        offset: (page - 1) * limit,
+      });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in AdminService.listUsers:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list users',
+      };
+    }
+  }
+
+  /**
+   * Get a user with subscriptions, payments and fundings
+   */
+  public async getUser(userId: string): Promise<IApiResponse<IAdminUserDetail>> {
+    try {
+      const user = await this.userDao.findAdminSummaryById(userId);
+      if (!user) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      const [subscriptions, payments, adminFundings] = await Promise.all([
+        this.subscriptionDao.findAllByUserId(userId),
+        this.paymentDao.findByUserId(userId),
+        this.adminDao.findAllByUserId(userId),
+      ]);
+
+      return {
+        success: true,
+        data: {
+          ...user,
+          subscriptions,
+          payments: payments.map((payment) => ({
+            id: payment.id,
+            user_id: payment.user_id,
+            amount: Number(payment.amount),
+            currency: payment.currency,
+            status: payment.status,
+            stripe_payment_intent_id: payment.stripe_payment_intent_id,
+            subscription_id: payment.subscription_id ?? undefined,
+            created_at: payment.created_at,
+            updated_at: payment.updated_at,
+          })),
+          admin_fundings: adminFundings,
+        },
+      };
+    } catch (error) {
+      console.error('Error in AdminService.getUser:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get user',
+      };
+    }
+  }
+
+  /**
+   * Deactivate a user's account and sign them out everywhere
+   * Deactivated users cannot sign in or use their API keys until reactivated
+   */
+  public async deactivateUser(
+    userId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      const refusal = this.checkCanManage(auth, actor, 'deactivate');
+      if (refusal) {
+        return refusal;
+      }
+
+      if (!auth!.is_active) {
+        return {
+          success: false,
+          error: 'User is already deactivated',
+        };
+      }
+
+      await this.authDao.updateByUserId(userId, { is_active: false });
+      await authService.logoutAll(userId);
+
+      await this.auditService.record({
+        action: AuditAction.USER_DEACTIVATED,
+        target_type: 'user',
+        target_id: userId,
+        before: { is_active: true },
+        after: { is_active: false },
+      });
+
+      return {
+        success: true,
+        message: 'User deactivated',
+      };
+    } catch (error) {
+      console.error('Error in AdminService.deactivateUser:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to deactivate user',
+      };
+    }
+  }
+
+  /**
+   * Reactivate a deactivated account
+   */
+  public async reactivateUser(
+    userId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      const refusal = this.checkCanManage(auth, actor, 'reactivate');
+      if (refusal) {
+        return refusal;
+      }
+
+      if (auth!.is_active) {
+        return {
+          success: false,
+          error: 'User is already active',
+        };
+      }
+
+      await this.authDao.updateByUserId(userId, { is_active: true });
+
+      await this.auditService.record({
+        action: AuditAction.USER_REACTIVATED,
+        target_type: 'user',
+        target_id: userId,
+        before: { is_active: false },
+        after: { is_active: true },
+      });
+
+      return {
+        success: true,
+        message: 'User reactivated',
+      };
+    } catch (error) {
+      console.error('Error in AdminService.reactivateUser:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reactivate user',
+      };
+    }
+  }
+
+  /**
+   * Make a user choose a new password via an emailed link
+   */
+  public async forcePasswordReset(
+    userId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      const refusal = this.checkCanManage(auth, actor, 'reset the password of');
+      if (refusal) {
+        return refusal;
+      }
+
+      const result = await authService.forcePasswordReset(userId);
+      if (result.success) {
+        await this.auditService.record({
+          action: AuditAction.USER_PASSWORD_RESET_FORCED,
+          target_type: 'user',
+          target_id: userId,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error in AdminService.forcePasswordReset:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to force password reset',
+      };
+    }
+  }
+
+  /**
+   * List a user's active sessions
+   */
+  public async getUserSessions(userId: string): Promise<IApiResponse<IActiveSession[]>> {
+    const user = await this.userDao.findById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+
+    return authService.getSessions(userId);
+  }
+
+  /**
+   * Sign a user out of one device
+   */
+  public async revokeUserSession(
+    userId: string,
+    sessionId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<void>> {
+    const refusal = this.checkCanManage(await this.authDao.findByUserId(userId), actor, 'revoke sessions of');
+    if (refusal) {
+      return refusal;
+    }
+
+    const result = await authService.revokeSession(userId, sessionId);
+    if (result.success) {
+      await this.auditService.record({
+        action: AuditAction.USER_SESSIONS_REVOKED,
+        target_type: 'user',
+        target_id: userId,
+        metadata: { session_id: sessionId },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sign a user out of all devices
+   */
+  public async revokeAllUserSessions(
+    userId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<{ revoked: number }>> {
+    const refusal = this.checkCanManage(await this.authDao.findByUserId(userId), actor, 'revoke sessions of');
+    if (refusal) {
+      return refusal;
+    }
+
+    const result = await authService.logoutAll(userId);
+    if (result.success) {
+      await this.auditService.record({
+        action: AuditAction.USER_SESSIONS_REVOKED,
+        target_type: 'user',
+        target_id: userId,
+        metadata: { revoked: result.data?.revoked ?? 0 },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Lift a login lockout before it expires
+   */
+  public async unlockUser(userId: string, actor: { id: string; role: UserRole }): Promise<IApiResponse<void>> {
+    const refusal = this.checkCanManage(await this.authDao.findByUserId(userId), actor, 'unlock');
+    if (refusal) {
+      return refusal;
+    }
+
+    const result = await authService.unlockAccount(userId);
+    if (result.success) {
+      await this.auditService.record({
+        action: AuditAction.USER_UNLOCKED,
+        target_type: 'user',
+        target_id: userId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * List a user's API keys
+   */
+  public async getUserApiKeys(userId: string): Promise<IApiResponse<IApiKeySummary[]>> {
+    const user = await this.userDao.findById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+
+    return ApiKeyService.getInstance().list(userId);
+  }
+
+  /**
+   * Create an API key on behalf of a user, e.g. a service account
+   * The actor must hold every permission the key grants; the read and write
+   * scopes act with all of the user's permissions, so they require holding those
+   */
+  public async createUserApiKey(
+    userId: string,
+    data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number },
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<ICreatedApiKey>> {
+    const auth = await this.authDao.findByUserId(userId);
+    const refusal = this.checkCanManage(auth, actor, 'create API keys for');
+    if (refusal) {
+      return refusal;
+    }
+
+    const permissionService = PermissionService.getInstance();
+    const actorPermissions = await permissionService.getPermissions(actor.role);
+    const grantedPermissions = data.scopes.some((scope) => scope === 'read' || scope === 'write')
+      ? await permissionService.getPermissions(auth!.role)
+      : (data.scopes as Permission[]);
+    const missing = grantedPermissions.filter((permission) => !actorPermissions.includes(permission));
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `You cannot grant permissions you do not hold: ${missing.join(', ')}`,
+      };
+    }
+
+    const result = await ApiKeyService.getInstance().create(userId, data);
+    if (result.success && result.data) {
+      await this.auditService.record({
+        action: AuditAction.API_KEY_CREATED,
+        target_type: 'api_key',
+        target_id: result.data.id,
+        metadata: { user_id: userId, name: data.name, scopes: data.scopes },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Revoke one of a user's API keys
+   */
+  public async revokeUserApiKey(
+    userId: string,
+    apiKeyId: string,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<void>> {
+    const refusal = this.checkCanManage(await this.authDao.findByUserId(userId), actor, 'revoke API keys of');
+    if (refusal) {
+      return refusal;
+    }
+
+    const result = await ApiKeyService.getInstance().revoke(userId, apiKeyId);
+    if (result.success) {
+      await this.auditService.record({
+        action: AuditAction.API_KEY_REVOKED,
+        target_type: 'api_key',
+        target_id: apiKeyId,
+        metadata: { user_id: userId },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Change a user's role
+   * Users cannot change their own role, and only admins can grant or revoke admin
+   */
+  public async updateUserRole(
+    userId: string,
+    role: UserRole,
+    actor: { id: string; role: UserRole }
+  ): Promise<IApiResponse<{ user_id: string; role: UserRole }>> {
+    try {
+      if (userId === actor.id) {
+        return {
+          success: false,
+          error: 'You cannot change your own role',
+        };
+      }
+
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if ((role === UserRole.ADMIN || auth.role === UserRole.ADMIN) && actor.role !== UserRole.ADMIN) {
+        return {
+          success: false,
+          error: 'Only admins can grant or revoke the admin role',
+        };
+      }
+
+      await this.authDao.updateByUserId(userId, { role });
+
+      await this.auditService.record({
+        action: AuditAction.USER_ROLE_CHANGED,
+        target_type: 'user',
+        target_id: userId,
+        before: { role: auth.role },
+        after: { role },
+      });
+
+      return {
+        success: true,
+        data: { user_id: userId, role },
+        message: 'User role updated',
+      };
+    } catch (error) {
+      console.error('Error in AdminService.updateUserRole:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update user role',
+      };
+    }
+  }
+
+  /**
+   * List the permissions of every role
+   */
+  public async getRolePermissions(): Promise<IApiResponse<IRolePermissions[]>> {
+    return this.permissionService.listRolePermissions();
+  }
+
+  /**
+   * Replace the permissions granted to a role
+   */
+  public async updateRolePermissions(role: UserRole, permissions: Permission[]): Promise<IApiResponse<IRolePermissions>> {
+    const previous = await this.permissionService.getPermissions(role);
+    const result = await this.permissionService.updateRolePermissions(role, permissions);
+    if (result.success && result.data) {
+      await this.auditService.record({
+        action: AuditAction.ROLE_PERMISSIONS_UPDATED,
+        target_type: 'role',
+        target_id: role,
+        before: { permissions: previous },
+        after: { permissions: result.data.permissions },
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Search the audit log
+   */
+  public async getAuditEvents(
+    filters: IAuditEventFilters,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<IApiResponse<IAuditEventPage>> {
+    return this.auditService.list(filters, page, limit);
+  }
+
+  /**
+   * Export audit log entries matching the filters as CSV
+   */
+  public async exportAuditEvents(filters: IAuditEventFilters): Promise<IApiResponse<string>> {
+    return this.auditService.exportCsv(filters);
+  }
+
+  /**
+   * List received Stripe webhook events
+   */
+  public async getStripeEvents(
+    filters: { status?: StripeEventStatus; type?: string },
+    page: number = 1,
+    limit: number = 50
+  ): Promise<IApiResponse<IStripeEventPage>> {
+    return StripeWebhookService.getInstance().list(filters, page, limit);
+  }
+
+  /**
+   * Process a failed Stripe webhook event again
+   */
+  public async replayStripeEvent(id: string): Promise<IApiResponse<IStripeEvent>> {
+    return StripeWebhookService.getInstance().replay(id);
+  }
+
+  /**
+   * List every catalog plan, including inactive ones
+   */
+  public async getPlans(): Promise<IApiResponse<IPlan[]>> {
+    return PlanService.getInstance().list();
+  }
+
+  /**
+   * Add a plan to the catalog
+   */
+  public async createPlan(input: IPlanInput): Promise<IApiResponse<IPlan>> {
+    return PlanService.getInstance().create(input);
+  }
+
+  /**
+   * Change some fields of a catalog plan
+   */
+  public async updatePlan(id: string, input: Partial<IPlanInput>): Promise<IApiResponse<IPlan>> {
+    return PlanService.getInstance().update(id, input);
+  }
+
+  /**
+   * Remove a plan without subscriptions from the catalog
+   */
+  public async deletePlan(id: string): Promise<IApiResponse> {
+    return PlanService.getInstance().delete(id);
+  }
+
+  /**
+   * Refuse account actions on oneself, and on admins unless the actor is an admin
+   * Returns the error response, or null when the action is allowed
+   */
+  private checkCanManage(
+    auth: IAuth | null,
+    actor: { id: string; role: UserRole },
+    action: string
+  ): IApiResponse<never> | null {
+    if (!auth) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+
+    if (auth.user_id === actor.id) {
+      return {
+        success: false,
+        error: `You cannot ${action} your own account`,
+      };
+    }
+
+    if (auth.role === UserRole.ADMIN && actor.role !== UserRole.ADMIN) {
+      return {
+        success: false,
+        error: 'Only admins can manage admin accounts',
+      };
+    }
+
+    return null;
+  }
 }
 
 export default AdminService;
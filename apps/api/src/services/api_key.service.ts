@@ -0,0 +1,207 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyDao, AuthDao } from '../dao';
+import { ApiKeyScope, IApiKey, IApiKeySummary, IApiResponse, ICreatedApiKey, Permission } from '@nx-mono-repo-deployment-test/shared';
+import PermissionService from './permission.service';
+
+/**
+ * Marks keys issued by this API so leaked ones are easy to grep for
+ */
+const KEY_PREFIX = 'fm_';
+
+/**
+ * Characters of the key kept in clear to tell keys apart
+ */
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+const MAX_KEYS_PER_USER = 25;
+
+/**
+ * How often a key's last_used_at is refreshed
+ */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * API Key Service
+ * Issues, lists, verifies and revokes personal API keys
+ * Keys are shown once and stored as SHA-256 hashes; permission scopes are
+ * limited to what the owner's role currently grants
+ */
+class ApiKeyService {
+  private static instance: ApiKeyService;
+  private apiKeyDao: ApiKeyDao;
+  private authDao: AuthDao;
+  private permissionService: PermissionService;
+
+  private constructor() {
+    this.apiKeyDao = ApiKeyDao.getInstance();
+    this.authDao = AuthDao.getInstance();
+    this.permissionService = PermissionService.getInstance();
+  }
+
+  /**
+   * Get ApiKeyService singleton instance
+   */
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  /**
+   * Create a key for a user
+   */
+  public async create(
+    userId: string,
+    data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }
+  ): Promise<IApiResponse<ICreatedApiKey>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      const granted = await this.permissionService.getPermissions(auth.role);
+      const disallowed = data.scopes.filter(
+        (scope) => scope !== 'read' && scope !== 'write' && !granted.includes(scope as Permission)
+      );
+      if (disallowed.length > 0) {
+        return {
+          success: false,
+          error: `Scopes not allowed for this account: ${disallowed.join(', ')}`,
+        };
+      }
+
+      const existing = await this.apiKeyDao.findByUserId(userId);
+      if (existing.length >= MAX_KEYS_PER_USER) {
+        return {
+          success: false,
+          error: `API key limit reached (${MAX_KEYS_PER_USER}); revoke an unused key first`,
+        };
+      }
+
+      const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+      const apiKey = await this.apiKeyDao.create({
+        user_id: userId,
+        name: data.name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        key_hash: this.hashKey(key),
+        scopes: data.scopes,
+        expires_at: data.expiresInDays ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+
+      return {
+        success: true,
+        data: { ...this.toSummary(apiKey), key },
+        message: 'API key created. Copy it now; it will not be shown again',
+      };
+    } catch (error) {
+      console.error('Error in ApiKeyService.create:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create API key',
+      };
+    }
+  }
+
+  /**
+   * List a user's keys
+   */
+  public async list(userId: string): Promise<IApiResponse<IApiKeySummary[]>> {
+    try {
+      const apiKeys = await this.apiKeyDao.findByUserId(userId);
+
+      return {
+        success: true,
+        data: apiKeys.map((apiKey) => this.toSummary(apiKey)),
+        count: apiKeys.length,
+      };
+    } catch (error) {
+      console.error('Error in ApiKeyService.list:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get API keys',
+      };
+    }
+  }
+
+  /**
+   * Revoke one of a user's keys
+   */
+  public async revoke(userId: string, id: string): Promise<IApiResponse<void>> {
+    try {
+      const revoked = await this.apiKeyDao.revoke(id, userId);
+      if (!revoked) {
+        return {
+          success: false,
+          error: 'API key not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'API key revoked',
+      };
+    } catch (error) {
+      console.error('Error in ApiKeyService.revoke:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to revoke API key',
+      };
+    }
+  }
+
+  /**
+   * Resolve a presented key to its active record and record its use
+   * Returns null for unknown, revoked or expired keys
+   */
+  public async verify(key: string): Promise<IApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyDao.findActiveByHash(this.hashKey(key));
+    if (!apiKey) {
+      return null;
+    }
+
+    const staleBefore = new Date(Date.now() - TOUCH_INTERVAL_MS);
+    if (!apiKey.last_used_at || apiKey.last_used_at < staleBefore) {
+      // Best effort; the DAO logs failures
+      this.apiKeyDao.touch(apiKey.id, staleBefore).catch(() => undefined);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Whether a key's scopes allow a request method ("write" implies "read")
+   */
+  public allowsMethod(scopes: ApiKeyScope[], method: string): boolean {
+    if (['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase())) {
+      return scopes.includes('read') || scopes.includes('write');
+    }
+    return scopes.includes('write');
+  }
+
+  private toSummary(apiKey: IApiKey): IApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expires_at: apiKey.expires_at ?? null,
+      last_used_at: apiKey.last_used_at ?? null,
+      created_at: apiKey.created_at!,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export default ApiKeyService;
@@ -0,0 +1,156 @@
+import { AuditEventDao } from '../dao';
+import { AuditAction, AuditActorType, AuditChanges, IApiResponse, IAuditEventFilters, IAuditEventPage } from '@nx-mono-repo-deployment-test/shared';
+import { getRequestContext } from '../utils/request-context';
+import { toCsv } from '../utils/csv';
+
+/**
+ * Most events a single CSV export returns (newest first)
+ */
+const EXPORT_LIMIT = 10000;
+
+const CSV_COLUMNS = [
+  'created_at',
+  'actor_type',
+  'actor_id',
+  'actor_role',
+  'api_key_id',
+  'action',
+  'target_type',
+  'target_id',
+  'changes',
+  'metadata',
+  'ip_address',
+  'request_id',
+  'id',
+];
+
+/**
+ * An action to record
+ * before/after are snapshots of the target; only fields that differ are stored
+ */
+export interface IAuditEntry {
+  action: AuditAction;
+  target_type: string;
+  target_id?: string | null;
+  before?: object | null;
+  after?: object | null;
+  metadata?: Record<string, unknown>;
+  actor_type?: AuditActorType; // defaults to the signed-in user, or system outside a request
+  actor_id?: string; // acting user who is not signed in, e.g. one following a password reset link
+}
+
+/**
+ * Audit Service
+ * Appends privileged and billing actions to the audit log and queries it
+ * Actor, IP and request ID come from the request context; recording never
+ * fails the action being audited
+ */
+class AuditService {
+  private static instance: AuditService;
+  private auditEventDao: AuditEventDao;
+
+  private constructor() {
+    this.auditEventDao = AuditEventDao.getInstance();
+  }
+
+  /**
+   * Get AuditService singleton instance
+   */
+  public static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  /**
+   * Append an event for an action that has been carried out
+   */
+  public async record(entry: IAuditEntry): Promise<void> {
+    try {
+      const context = getRequestContext();
+      const actor = entry.actor_id ? { id: entry.actor_id } : context?.actor;
+      const actorType = entry.actor_type || (actor ? AuditActorType.USER : AuditActorType.SYSTEM);
+      const changes = entry.before || entry.after ? this.diff(entry.before || {}, entry.after || {}) : null;
+
+      await this.auditEventDao.create({
+        actor_type: actorType,
+        actor_id: actorType === AuditActorType.USER ? actor?.id : null,
+        actor_role: actorType === AuditActorType.USER ? context?.actor?.role : null,
+        api_key_id: actorType === AuditActorType.USER ? context?.actor?.apiKeyId : null,
+        action: entry.action,
+        target_type: entry.target_type,
+        target_id: entry.target_id ?? null,
+        changes,
+        metadata: entry.metadata ?? null,
+        ip_address: context?.ipAddress ?? null,
+        request_id: context?.requestId ?? null,
+      });
+    } catch (error) {
+      console.error(`Error recording audit event (${entry.action}):`, error);
+    }
+  }
+
+  /**
+   * List events matching the filters, newest first
+   */
+  public async list(filters: IAuditEventFilters, page: number, limit: number): Promise<IApiResponse<IAuditEventPage>> {
+    try {
+      const { rows, count } = await this.auditEventDao.findAll(filters, { limit, offset: (page - 1) * limit });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in AuditService.list:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get audit events',
+      };
+    }
+  }
+
+  /**
+   * Events matching the filters as CSV, newest first, up to EXPORT_LIMIT rows
+   */
+  public async exportCsv(filters: IAuditEventFilters): Promise<IApiResponse<string>> {
+    try {
+      const { rows, count } = await this.auditEventDao.findAll(filters, { limit: EXPORT_LIMIT, offset: 0 });
+
+      return {
+        success: true,
+        data: toCsv(rows, CSV_COLUMNS),
+        count,
+      };
+    } catch (error) {
+      console.error('Error in AuditService.exportCsv:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export audit events',
+      };
+    }
+  }
+
+  /**
+   * Fields whose values differ between two snapshots
+   * Values are compared by their JSON form so dates and nested objects compare by value
+   */
+  private diff(before: object, after: object): AuditChanges {
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+    const changes: AuditChanges = {};
+
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      const from = previous[field] ?? null;
+      const to = next[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { before: from, after: to };
+      }
+    }
+
+    return changes;
+  }
+}
+
+export default AuditService;
@@ -0,0 +1,220 @@
+import { beforeEach, describe, test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { IAuth, IRefreshToken, UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { AuthDao, AuthSessionDao, RefreshTokenDao, UserDao } from '../dao';
+import { appConfig } from '../config/app.config';
+import authService from './auth.service';
+import AuditService from './audit.service';
+import LoginThrottleService from './login_throttle.service';
+import TwoFactorService from './two_factor.service';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const EMAIL = 'user@example.com';
+
+let refreshTokens: Map<string, IRefreshToken>;
+let revokedSessions: Set<string>;
+
+beforeEach(() => {
+  refreshTokens = new Map();
+  revokedSessions = new Set();
+});
+
+/**
+ * Back the session and refresh token DAOs with in-memory stores
+ */
+function setup(t: TestContext): void {
+  const refreshTokenDao = RefreshTokenDao.getInstance();
+  const authSessionDao = AuthSessionDao.getInstance();
+
+  t.mock.method(refreshTokenDao, 'create', async (data: IRefreshToken) => {
+    const token = { ...data, replaced_by: null };
+    refreshTokens.set(token.id, token);
+    return token;
+  });
+  t.mock.method(refreshTokenDao, 'findById', async (id: string) => {
+    const token = refreshTokens.get(id);
+    return token ? { ...token } : null;
+  });
+  t.mock.method(refreshTokenDao, 'markReplaced', async (id: string, replacedBy: string) => {
+    const token = refreshTokens.get(id);
+    if (!token || token.replaced_by) {
+      return false;
+    }
+    token.replaced_by = replacedBy;
+    return true;
+  });
+
+  t.mock.method(authSessionDao, 'create', async () => ({}));
+  t.mock.method(authSessionDao, 'isActive', async (id: string) => !revokedSessions.has(id));
+  t.mock.method(authSessionDao, 'extend', async () => undefined);
+  t.mock.method(authSessionDao, 'revoke', async (id: string) => {
+    revokedSessions.add(id);
+    return true;
+  });
+
+  const auth: IAuth = { user_id: USER_ID, password_hash: 'hash', role: UserRole.USER, is_active: true };
+  t.mock.method(AuthDao.getInstance(), 'findByUserId', async () => auth);
+}
+
+function decode(token: string): { jti: string; sid: string } {
+  return jwt.decode(token) as { jti: string; sid: string };
+}
+
+describe('AuthService.refreshToken', () => {
+  test('should rotate the refresh token within the same session', async (t) => {
+    setup(t);
+    const first = await authService.generateTokens(USER_ID, EMAIL);
+
+    const second = await authService.refreshToken(first.refreshToken);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(decode(second.refreshToken).sid, decode(first.refreshToken).sid);
+    assert.equal(refreshTokens.get(decode(first.refreshToken).jti)!.replaced_by, decode(second.refreshToken).jti);
+
+    const third = await authService.refreshToken(second.refreshToken);
+    assert.equal(decode(third.refreshToken).sid, decode(first.refreshToken).sid);
+  });
+
+  test('should revoke the session when a rotated token is reused', async (t) => {
+    setup(t);
+    const first = await authService.generateTokens(USER_ID, EMAIL);
+    const second = await authService.refreshToken(first.refreshToken);
+
+    await assert.rejects(authService.refreshToken(first.refreshToken), /Refresh token reuse detected/);
+    assert.ok(revokedSessions.has(decode(first.refreshToken).sid));
+
+    // The legitimate holder of the newer token is signed out too
+    await assert.rejects(authService.refreshToken(second.refreshToken), /Session revoked/);
+  });
+
+  test('should let only one of two concurrent refreshes with the same token succeed', async (t) => {
+    setup(t);
+    const first = await authService.generateTokens(USER_ID, EMAIL);
+
+    const results = await Promise.allSettled([
+      authService.refreshToken(first.refreshToken),
+      authService.refreshToken(first.refreshToken),
+    ]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    assert.match(rejected!.reason.message, /Refresh token reuse detected/);
+  });
+
+  test('should reject tokens that are forged or not stored', async (t) => {
+    setup(t);
+    const issued = await authService.generateTokens(USER_ID, EMAIL);
+    const { jti, sid } = decode(issued.refreshToken);
+
+    const forged = jwt.sign({ id: USER_ID, email: EMAIL, sid }, 'another-secret', { jwtid: jti });
+    await assert.rejects(authService.refreshToken(forged), /Invalid refresh token/);
+
+    refreshTokens.delete(jti);
+    await assert.rejects(authService.refreshToken(issued.refreshToken), /Invalid refresh token/);
+  });
+});
+
+describe('AuthService.loginWithTwoFactor', () => {
+  const password = 'correct horse battery staple';
+  const client = { ip_address: '203.0.113.7' };
+  let failures: number;
+  let resets: number;
+  let codeChecks: number;
+  let lockedUntil: Date | null | undefined;
+
+  /**
+   * A 2FA-enabled account behind mocked throttle, audit and second-factor checks
+   */
+  function setupTwoFactor(t: TestContext, codeIsValid: boolean, retryAfter = 0): void {
+    setup(t);
+    failures = 0;
+    resets = 0;
+    codeChecks = 0;
+    lockedUntil = undefined;
+
+    const auth: IAuth = {
+      user_id: USER_ID,
+      password_hash: bcrypt.hashSync(password, 4),
+      role: UserRole.USER,
+      is_active: true,
+      two_factor_enabled_at: new Date(),
+      user: { id: USER_ID, email: EMAIL },
+    };
+    const authDao = AuthDao.getInstance();
+    t.mock.method(authDao, 'findByUserEmail', async () => auth);
+    t.mock.method(authDao, 'findByUserId', async () => ({ ...auth, locked_until: lockedUntil }));
+    t.mock.method(authDao, 'updateByUserId', async (_userId: string, data: Partial<IAuth>) => {
+      if ('locked_until' in data) {
+        lockedUntil = data.locked_until;
+      }
+      return null;
+    });
+    t.mock.method(UserDao.getInstance(), 'findById', async () => ({ id: USER_ID, email: EMAIL }));
+
+    const throttle = LoginThrottleService.getInstance();
+    t.mock.method(throttle, 'getRetryAfter', async () => retryAfter);
+    t.mock.method(throttle, 'recordFailure', async () => ++failures);
+    t.mock.method(throttle, 'reset', async () => {
+      resets++;
+    });
+
+    t.mock.method(AuditService.getInstance(), 'record', async () => undefined);
+    t.mock.method(TwoFactorService.getInstance(), 'verifyCode', async () => {
+      codeChecks++;
+      return codeIsValid;
+    });
+  }
+
+  async function challenge(): Promise<string> {
+    const result = await authService.login({ email: EMAIL, password }, client);
+    assert.equal(result.success, true);
+    return result.data!.challenge!.challengeToken;
+  }
+
+  test('should not reset the throttle until the second factor passes', async (t) => {
+    setupTwoFactor(t, true);
+
+    const challengeToken = await challenge();
+    assert.equal(resets, 0);
+
+    const result = await authService.loginWithTwoFactor(challengeToken, '123456', client);
+    assert.equal(result.success, true);
+    assert.ok(result.data!.tokens);
+    assert.equal(resets, 1);
+  });
+
+  test('should count a wrong code as a failed login', async (t) => {
+    setupTwoFactor(t, false);
+
+    const result = await authService.loginWithTwoFactor(await challenge(), '000000', client);
+    assert.equal(result.error, 'Invalid two-factor code');
+    assert.equal(failures, 1);
+    assert.equal(resets, 0);
+  });
+
+  test('should lock the account once wrong codes reach the threshold', async (t) => {
+    setupTwoFactor(t, false);
+    failures = appConfig.auth.lockout.threshold - 1;
+
+    const result = await authService.loginWithTwoFactor(await challenge(), '000000', client);
+    assert.equal(result.error, 'Account is temporarily locked');
+    assert.ok(lockedUntil && lockedUntil > new Date());
+
+    // Further codes are refused outright, even on a fresh challenge
+    const retry = await authService.loginWithTwoFactor(await challenge(), '000000', client);
+    assert.equal(retry.error, 'Account is temporarily locked');
+  });
+
+  test('should refuse codes while the throttle is backing off', async (t) => {
+    setupTwoFactor(t, true, 30);
+    const challengeToken = jwt.sign({ id: USER_ID, purpose: 'two_factor' }, appConfig.jwt.challengeSecret, {
+      expiresIn: '5m',
+      jwtid: 'backoff-challenge',
+    });
+
+    const result = await authService.loginWithTwoFactor(challengeToken, '123456', client);
+    assert.equal(result.error, 'Too many failed login attempts');
+    assert.equal(codeChecks, 0);
+  });
+});
@@ -1,22 +1,71 @@
 import * as bcrypt from 'bcrypt';
-import jwt, { SignOptions } from 'jsonwebtoken';
-import { UserDao, AuthDao } from '../dao';
-import { IRegisterData, ILoginData, IAuthTokens, IUser, IApiResponse, UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import jwt, { JwtPayload, SignOptions } from 'jsonwebtoken';
+import { UserDao, AuthDao, AuthSessionDao, RefreshTokenDao, UserTokenDao, ApiKeyDao } from '../dao';
+import { AuditAction, AuditActorType, IRegisterData, ILoginData, ILoginResult, IAuthTokens, IUser, IApiResponse, IActiveSession, ISessionClient, ITwoFactorChallenge, UserRole, UserTokenPurpose } from '@nx-mono-repo-deployment-test/shared';
 import { appConfig } from '../config/app.config';
+import { IMailer, createMailer } from './mailer.service';
+import TwoFactorService from './two_factor.service';
+import LoginThrottleService from './login_throttle.service';
+import AuditService from './audit.service';
+import { emailVerificationEmail, forcedPasswordResetEmail, passwordResetEmail } from '../utils/mail-templates';
+
+/**
+ * Refresh token JWT payload
+ * sid is the session (token family) and jti the stored token row
+ */
+interface IRefreshTokenPayload extends JwtPayload {
+  id: string;
+  email: string;
+  sid?: string;
+  jti?: string;
+}
+
+/**
+ * Two-factor challenge JWT payload
+ */
+interface ITwoFactorChallengePayload extends JwtPayload {
+  id: string;
+  purpose: 'two_factor';
+}
+
+/**
+ * Wrong codes allowed per two-factor challenge before the user must log in again
+ */
+const MAX_CHALLENGE_ATTEMPTS = 5;
 
 /**
  * Authentication Service
  * Handles user registration, login, and token generation
+ * Each login starts a session whose refresh tokens are stored hashed and
+ * rotated on every refresh; presenting an already-rotated token revokes the
+ * whole session
  */
 class AuthService {
   private readonly SALT_ROUNDS = 10;
   private userDao: UserDao;
   private authDao: AuthDao;
+  private authSessionDao: AuthSessionDao;
+  private refreshTokenDao: RefreshTokenDao;
+  private userTokenDao: UserTokenDao;
+  private apiKeyDao: ApiKeyDao;
+  private mailer: IMailer | null = null;
+  private twoFactorService: TwoFactorService;
+  private loginThrottleService: LoginThrottleService;
+  private auditService: AuditService;
+  private challengeAttempts = new Map<string, { attempts: number; expiresAt: number }>();
 
   constructor() {
     // Configuration loaded from centralized app.config
     this.userDao = UserDao.getInstance();
     this.authDao = AuthDao.getInstance();
+    this.authSessionDao = AuthSessionDao.getInstance();
+    this.refreshTokenDao = RefreshTokenDao.getInstance();
+    this.userTokenDao = UserTokenDao.getInstance();
+    this.apiKeyDao = ApiKeyDao.getInstance();
+    this.twoFactorService = TwoFactorService.getInstance();
+    this.loginThrottleService = LoginThrottleService.getInstance();
+    this.auditService = AuditService.getInstance();
   }
 
   /**
@@ -42,6 +91,7 @@ class AuthService {
         email: data.email,
         first_name: data.first_name,
         last_name: data.last_name,
+        country: data.country?.toUpperCase(),
         subscription_status: 'inactive',
       });
 
@@ -53,13 +103,20 @@ class AuthService {
         is_active: true,
       });
 
+      // Sent in the background; the user can ask for a new link if it never arrives
+      this.sendEmailVerification(userModel.id, userModel.email).catch((error) =>
+        console.error(`Error sending verification email (${userModel.id}):`, error)
+      );
+
       // Convert model to plain interface object
       const user: IUser = {
         id: userModel.id,
         email: userModel.email,
         first_name: userModel.first_name,
         last_name: userModel.last_name,
+        country: userModel.country,
         subscription_status: userModel.subscription_status,
+        email_verified_at: userModel.email_verified_at ?? null,
         created_at: userModel.created_at,
         updated_at: userModel.updated_at,
       };
@@ -80,19 +137,35 @@ class AuthService {
 
   /**
    * Login user and generate tokens
+   * Accounts with 2FA enabled get a challenge instead, to be completed with loginWithTwoFactor
+   * client describes the device the new session is started from
    */
-  async login(data: ILoginData): Promise<IApiResponse<{ user: IUser; tokens: IAuthTokens }>> {
+  async login(data: ILoginData, client: ISessionClient = {}): Promise<IApiResponse<ILoginResult>> {
     try {
+      const retryAfter = await this.loginThrottleService.getRetryAfter(data.email, client.ip_address);
+      if (retryAfter > 0) {
+        return {
+          success: false,
+          error: 'Too many failed login attempts',
+          details: { retry_after: retryAfter },
+        };
+      }
+
       // Find auth record by email
       const auth = await this.authDao.findByUserEmail(data.email);
 
       if (!auth) {
+        await this.loginThrottleService.recordFailure(data.email, client.ip_address);
         return {
           success: false,
           error: 'Invalid email or password',
         };
       }
 
+      if (auth.locked_until && new Date(auth.locked_until) > new Date()) {
+        return this.accountLockedResponse(auth.locked_until);
+      }
+
       if (!auth.is_active) {
         return {
           success: false,
@@ -104,19 +177,163 @@ class AuthService {
       const isPasswordValid = await bcrypt.compare(data.password, auth.password_hash);
 
       if (!isPasswordValid) {
+        return await this.recordLoginFailure(auth.user_id, data.email, client, 'Invalid email or password');
+      }
+
+      if (auth.locked_until) {
+        await this.authDao.updateByUserId(auth.user_id, { locked_until: null });
+      }
+
+      // The throttle is only reset once every factor passed, so wrong codes keep counting
+      if (auth.two_factor_enabled_at) {
+        return {
+          success: true,
+          data: { challenge: this.issueTwoFactorChallenge(auth.user_id) },
+          message: 'Two-factor authentication required',
+        };
+      }
+
+      await this.loginThrottleService.reset(data.email);
+      return await this.completeLogin(auth.user_id, client);
+    } catch (error) {
+      console.error('Error in AuthService.login:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Login failed',
+      };
+    }
+  }
+
+  /**
+   * Exchange a two-factor challenge and a TOTP or recovery code for tokens
+   */
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    client: ISessionClient = {}
+  ): Promise<IApiResponse<ILoginResult>> {
+    try {
+      let decoded: ITwoFactorChallengePayload;
+      try {
+        decoded = jwt.verify(challengeToken, appConfig.jwt.challengeSecret) as ITwoFactorChallengePayload;
+      } catch {
         return {
           success: false,
-          error: 'Invalid email or password',
+          error: 'Invalid or expired challenge',
+        };
+      }
+
+      if (decoded.purpose !== 'two_factor' || !decoded.jti || !decoded.exp) {
+        return {
+          success: false,
+          error: 'Invalid or expired challenge',
+        };
+      }
+
+      if (!this.recordChallengeAttempt(decoded.jti, decoded.exp * 1000)) {
+        return {
+          success: false,
+          error: 'Too many attempts, please log in again',
+        };
+      }
+
+      const auth = await this.authDao.findByUserId(decoded.id);
+      const user = await this.userDao.findById(decoded.id);
+      if (!auth || !auth.is_active || !user) {
+        return {
+          success: false,
+          error: 'Account is inactive',
+        };
+      }
+
+      // Wrong codes count as failed logins, against the same account and IP throttle as passwords
+      const retryAfter = await this.loginThrottleService.getRetryAfter(user.email, client.ip_address);
+      if (retryAfter > 0) {
+        return {
+          success: false,
+          error: 'Too many failed login attempts',
+          details: { retry_after: retryAfter },
         };
       }
 
-      // Update last login
-      await this.authDao.updateByUserId(auth.user_id, {
-        last_login: new Date(),
+      if (auth.locked_until && new Date(auth.locked_until) > new Date()) {
+        return this.accountLockedResponse(auth.locked_until);
+      }
+
+      if (!(await this.twoFactorService.verifyCode(auth, code))) {
+        return await this.recordLoginFailure(auth.user_id, user.email, client, 'Invalid two-factor code');
+      }
+
+      await this.loginThrottleService.reset(user.email);
+
+      // A challenge completes one login only
+      this.challengeAttempts.set(decoded.jti, { attempts: MAX_CHALLENGE_ATTEMPTS, expiresAt: decoded.exp * 1000 });
+
+      return await this.completeLogin(auth.user_id, client);
+    } catch (error) {
+      console.error('Error in AuthService.loginWithTwoFactor:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Login failed',
+      };
+    }
+  }
+
+  /**
+   * Finish a login once all factors are verified: record it and start a session
+   */
+  private async completeLogin(userId: string, client: ISessionClient): Promise<IApiResponse<ILoginResult>> {
+    // Update last login
+    await this.authDao.updateByUserId(userId, {
+      last_login: new Date(),
+    });
+
+    // Get user data
+    const userModel = await this.userDao.findById(userId);
+    if (!userModel) {
+      return {
+        success: false,
+        error: 'User not found',
+      };
+    }
+
+    // Generate tokens
+    const tokens = await this.generateTokens(userModel.id, userModel.email, client);
+
+    // Convert model to plain interface object
+    const user: IUser = {
+      id: userModel.id,
+      email: userModel.email,
+      first_name: userModel.first_name,
+      last_name: userModel.last_name,
+      country: userModel.country,
+      subscription_status: userModel.subscription_status,
+      email_verified_at: userModel.email_verified_at ?? null,
+      created_at: userModel.created_at,
+      updated_at: userModel.updated_at,
+    };
+
+    return {
+      success: true,
+      data: { user, tokens },
+      message: 'Login successful',
+    };
+  }
+
+  /**
+   * Update the user's profile (personal data only)
+   */
+  async updateProfile(
+    userId: string,
+    data: { first_name?: string; last_name?: string; country?: string }
+  ): Promise<IApiResponse<IUser>> {
+    try {
+      const userModel = await this.userDao.update(userId, {
+        ...(data.first_name !== undefined ? { first_name: data.first_name } : {}),
+        ...(data.last_name !== undefined ? { last_name: data.last_name } : {}),
+        ...(data.country !== undefined ? { country: data.country.toUpperCase() } : {}),
       });
 
-      // Get user data
-      const userModel = await this.userDao.findById(auth.user_id);
       if (!userModel) {
         return {
           success: false,
@@ -124,50 +341,505 @@ class AuthService {
         };
       }
 
-      // Generate tokens
-      const tokens = this.generateTokens(userModel.id, userModel.email);
-
-      // Convert model to plain interface object
       const user: IUser = {
         id: userModel.id,
         email: userModel.email,
         first_name: userModel.first_name,
         last_name: userModel.last_name,
+        country: userModel.country,
         subscription_status: userModel.subscription_status,
+        email_verified_at: userModel.email_verified_at ?? null,
         created_at: userModel.created_at,
         updated_at: userModel.updated_at,
       };
 
       return {
         success: true,
-        data: { user, tokens },
-        message: 'Login successful',
+        data: user,
+        message: 'Profile updated successfully',
       };
     } catch (error) {
-      console.error('Error in AuthService.login:', error);
+      console.error('Error in AuthService.updateProfile:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Login failed',
+        error: error instanceof Error ? error.message : 'Failed to update profile',
+      };
+    }
+  }
+
+  /**
+   * Start a new session and generate its access and refresh tokens
+   */
+  async generateTokens(userId: string, email: string, client: ISessionClient = {}): Promise<IAuthTokens> {
+    const sessionId = randomUUID();
+
+    await this.authSessionDao.create({
+      id: sessionId,
+      user_id: userId,
+      user_agent: client.user_agent?.slice(0, 512),
+      ip_address: client.ip_address,
+      expires_at: this.getRefreshTokenExpiry(),
+    });
+
+    return this.issueTokens(userId, email, sessionId);
+  }
+
+  /**
+   * Rotate a refresh token
+   * The presented token is retired and a new pair is issued in the same session
+   */
+  async refreshToken(refreshToken: string): Promise<IAuthTokens> {
+    let decoded: IRefreshTokenPayload;
+    try {
+      decoded = jwt.verify(refreshToken, appConfig.jwt.refreshSecret) as IRefreshTokenPayload;
+    } catch (error: unknown) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new Error('Refresh token expired');
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    // Tokens issued before sessions existed carry no jti and cannot be rotated
+    if (!decoded.sid || !decoded.jti) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const stored = await this.refreshTokenDao.findById(decoded.jti);
+    if (!stored || stored.session_id !== decoded.sid || stored.token_hash !== this.hashToken(refreshToken)) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (!(await this.authSessionDao.isActive(stored.session_id))) {
+      throw new Error('Session revoked');
+    }
+
+    // Verify user still exists and auth is active
+    const auth = await this.authDao.findByUserId(decoded.id);
+    if (!auth || !auth.is_active) {
+      throw new Error('User not found or inactive');
+    }
+
+    // Reserve the rotation before issuing, so a replayed token loses the race
+    const nextTokenId = randomUUID();
+    const rotated = !stored.replaced_by && (await this.refreshTokenDao.markReplaced(stored.id, nextTokenId));
+
+    if (!rotated) {
+      await this.authSessionDao.revoke(stored.session_id);
+      console.warn(`Refresh token reuse detected, revoked session ${stored.session_id} (user ${decoded.id})`);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    await this.authSessionDao.extend(stored.session_id, this.getRefreshTokenExpiry());
+
+    return this.issueTokens(decoded.id, decoded.email, stored.session_id, nextTokenId);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to
+   * An expired refresh token is still accepted so clients can always sign out
+   */
+  async logout(refreshToken: string): Promise<IApiResponse<void>> {
+    try {
+      let decoded: IRefreshTokenPayload;
+      try {
+        decoded = jwt.verify(refreshToken, appConfig.jwt.refreshSecret, {
+          ignoreExpiration: true,
+        }) as IRefreshTokenPayload;
+      } catch {
+        return {
+          success: false,
+          error: 'Invalid refresh token',
+        };
+      }
+
+      if (decoded.sid) {
+        await this.authSessionDao.revoke(decoded.sid);
+      }
+
+      return {
+        success: true,
+        message: 'Logged out successfully',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.logout:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Logout failed',
       };
     }
   }
 
   /**
-   * Generate access and refresh tokens
+   * Revoke every session of a user
    */
-  generateTokens(userId: string, email: string): IAuthTokens {
-    const payload = { id: userId, email };
+  async logoutAll(userId: string): Promise<IApiResponse<{ revoked: number }>> {
+    try {
+      const revoked = await this.authSessionDao.revokeAllForUser(userId);
 
+      return {
+        success: true,
+        data: { revoked },
+        message: 'Logged out of all sessions successfully',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.logoutAll:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Logout failed',
+      };
+    }
+  }
+
+  /**
+   * Lift a lockout and clear the failed login counter for a user
+   */
+  async unlockAccount(userId: string): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      await this.authDao.updateByUserId(userId, { locked_until: null });
+      if (auth.user?.email) {
+        await this.loginThrottleService.reset(auth.user.email);
+      }
+
+      return {
+        success: true,
+        message: 'Account unlocked',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.unlockAccount:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to unlock account',
+      };
+    }
+  }
+
+  /**
+   * List a user's active sessions
+   * currentSessionId marks the session the request was made from
+   */
+  async getSessions(userId: string, currentSessionId?: string): Promise<IApiResponse<IActiveSession[]>> {
+    try {
+      const sessions = await this.authSessionDao.findActiveByUserId(userId);
+
+      return {
+        success: true,
+        data: sessions.map((session) => ({
+          id: session.id,
+          user_agent: session.user_agent ?? null,
+          ip_address: session.ip_address ?? null,
+          created_at: session.created_at!,
+          last_used_at: session.last_used_at ?? null,
+          expires_at: session.expires_at,
+          current: session.id === currentSessionId,
+        })),
+      };
+    } catch (error) {
+      console.error('Error in AuthService.getSessions:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get sessions',
+      };
+    }
+  }
+
+  /**
+   * Revoke one of a user's sessions, signing that device out
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<IApiResponse<void>> {
+    try {
+      const revoked = await this.authSessionDao.revoke(sessionId, userId);
+      if (!revoked) {
+        return {
+          success: false,
+          error: 'Session not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Session revoked successfully',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.revokeSession:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to revoke session',
+      };
+    }
+  }
+
+  /**
+   * Email a password reset link
+   * Always reports success so the response does not reveal which emails have accounts
+   */
+  async requestPasswordReset(email: string): Promise<IApiResponse<void>> {
+    const response: IApiResponse<void> = {
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+    };
+
+    try {
+      const auth = await this.authDao.findByUserEmail(email);
+      if (!auth || !auth.is_active) {
+        return response;
+      }
+
+      const ttl = appConfig.auth.passwordResetTtl;
+      const token = await this.issueUserToken(auth.user_id, 'password_reset', ttl);
+      const resetUrl = `${appConfig.mail.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+      // Sent in the background so response time does not reveal whether the account exists
+      this.getMailer()
+        .send(passwordResetEmail(email, resetUrl, ttl))
+        .catch((error) => console.error(`Error sending password reset email (${auth.user_id}):`, error));
+
+      return response;
+    } catch (error) {
+      console.error('Error in AuthService.requestPasswordReset:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to request password reset',
+      };
+    }
+  }
+
+  /**
+   * Require a user to choose a new password
+   * The current password stops working, every session is signed out, API keys
+   * are revoked and a reset link is emailed to the user
+   */
+  async forcePasswordReset(userId: string): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth || !auth.user?.email) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      // Nobody knows this password, so only the emailed link can get the user back in
+      const passwordHash = await bcrypt.hash(randomBytes(32).toString('base64url'), this.SALT_ROUNDS);
+      await this.authDao.updateByUserId(userId, { password_hash: passwordHash });
+      await this.authSessionDao.revokeAllForUser(userId);
+      await this.apiKeyDao.revokeAllForUser(userId);
+
+      const ttl = appConfig.auth.passwordResetTtl;
+      const token = await this.issueUserToken(userId, 'password_reset', ttl);
+      const resetUrl = `${appConfig.mail.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+      await this.getMailer().send(forcedPasswordResetEmail(auth.user.email, resetUrl, ttl));
+
+      return {
+        success: true,
+        message: 'Password reset; the user has been signed out, their API keys revoked and a reset link emailed',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.forcePasswordReset:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to force password reset',
+      };
+    }
+  }
+
+  /**
+   * Set a new password with a reset token
+   * The token is single-use, every existing session is signed out, API keys
+   * are revoked (a compromised account may have created them) and any login
+   * lockout is lifted
+   */
+  async resetPassword(token: string, password: string): Promise<IApiResponse<void>> {
+    try {
+      const resetToken = await this.userTokenDao.findValidByHash(this.hashToken(token), 'password_reset');
+      if (!resetToken || !(await this.userTokenDao.consume(resetToken.id))) {
+        return {
+          success: false,
+          error: 'Invalid or expired reset token',
+        };
+      }
+
+      const passwordHash = await bcrypt.hash(password, this.SALT_ROUNDS);
+      const auth = await this.authDao.updateByUserId(resetToken.user_id, {
+        password_hash: passwordHash,
+        locked_until: null,
+      });
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      await this.authSessionDao.revokeAllForUser(resetToken.user_id);
+      await this.apiKeyDao.revokeAllForUser(resetToken.user_id);
+      if (auth.user?.email) {
+        await this.loginThrottleService.reset(auth.user.email);
+      }
+
+      await this.auditService.record({
+        action: AuditAction.PASSWORD_RESET,
+        actor_id: resetToken.user_id,
+        target_type: 'user',
+        target_id: resetToken.user_id,
+      });
+
+      return {
+        success: true,
+        message: 'Password reset successfully',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.resetPassword:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reset password',
+      };
+    }
+  }
+
+  /**
+   * Mark a user's email as verified with a verification token
+   */
+  async verifyEmail(token: string): Promise<IApiResponse<void>> {
+    try {
+      const verificationToken = await this.userTokenDao.findValidByHash(this.hashToken(token), 'email_verification');
+      if (!verificationToken || !(await this.userTokenDao.consume(verificationToken.id))) {
+        return {
+          success: false,
+          error: 'Invalid or expired verification token',
+        };
+      }
+
+      const userModel = await this.userDao.update(verificationToken.user_id, { email_verified_at: new Date() });
+      if (!userModel) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      return {
+        success: true,
+        message: 'Email verified successfully',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.verifyEmail:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to verify email',
+      };
+    }
+  }
+
+  /**
+   * Send a fresh verification link to a user whose email is not yet verified
+   */
+  async resendEmailVerification(userId: string): Promise<IApiResponse<void>> {
+    try {
+      const userModel = await this.userDao.findById(userId);
+      if (!userModel) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (userModel.email_verified_at) {
+        return {
+          success: false,
+          error: 'Email is already verified',
+        };
+      }
+
+      await this.sendEmailVerification(userModel.id, userModel.email);
+
+      return {
+        success: true,
+        message: 'Verification email sent',
+      };
+    } catch (error) {
+      console.error('Error in AuthService.resendEmailVerification:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send verification email',
+      };
+    }
+  }
+
+  /**
+   * Issue a verification token and email the link
+   */
+  private async sendEmailVerification(userId: string, email: string): Promise<void> {
+    const ttl = appConfig.auth.emailVerificationTtl;
+    const token = await this.issueUserToken(userId, 'email_verification', ttl);
+    const verifyUrl = `${appConfig.mail.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.getMailer().send(emailVerificationEmail(email, verifyUrl, ttl));
+  }
+
+  /**
+   * Create a single-use token, retiring the user's earlier tokens for the same purpose
+   * Returns the plain token; only its hash is stored
+   */
+  private async issueUserToken(userId: string, purpose: UserTokenPurpose, ttlSeconds: number): Promise<string> {
+    // Only the most recently issued link stays valid
+    await this.userTokenDao.invalidateForUser(userId, purpose);
+
+    const token = randomBytes(32).toString('base64url');
+    await this.userTokenDao.create({
+      user_id: userId,
+      purpose,
+      token_hash: this.hashToken(token),
+      expires_at: new Date(Date.now() + ttlSeconds * 1000),
+    });
+
+    return token;
+  }
+
+  /**
+   * Get or lazily create the configured mailer
+   */
+  private getMailer(): IMailer {
+    if (!this.mailer) {
+      this.mailer = createMailer();
+    }
+    return this.mailer;
+  }
+
+  /**
+   * Sign an access and refresh token pair for a session and store the refresh token hash
+   */
+  private async issueTokens(
+    userId: string,
+    email: string,
+    sessionId: string,
+    tokenId: string = randomUUID()
+  ): Promise<IAuthTokens> {
     const accessTokenOptions: SignOptions = {
       expiresIn: appConfig.jwt.accessTokenExpiry,
     };
 
     const refreshTokenOptions: SignOptions = {
       expiresIn: appConfig.jwt.refreshTokenExpiry,
+      jwtid: tokenId,
     };
 
-    const accessToken = jwt.sign(payload, appConfig.jwt.secret, accessTokenOptions);
-    const refreshToken = jwt.sign(payload, appConfig.jwt.refreshSecret, refreshTokenOptions);
+    const accessToken = jwt.sign({ id: userId, email, sid: sessionId }, appConfig.jwt.secret, accessTokenOptions);
+    const refreshToken = jwt.sign({ id: userId, email, sid: sessionId }, appConfig.jwt.refreshSecret, refreshTokenOptions);
+
+    await this.refreshTokenDao.create({
+      id: tokenId,
+      session_id: sessionId,
+      token_hash: this.hashToken(refreshToken),
+      expires_at: this.getRefreshTokenExpiry(),
+    });
 
     // Calculate expiry in seconds
     const expiresIn = this.parseExpiry(appConfig.jwt.accessTokenExpiry);
@@ -180,30 +852,108 @@ class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Count a failed login (wrong password or second factor), locking the account at the threshold
    */
-  async refreshToken(refreshToken: string): Promise<IAuthTokens> {
-    try {
-      const decoded = jwt.verify(refreshToken, appConfig.jwt.refreshSecret) as {
-        id: string;
-        email: string;
-      };
+  private async recordLoginFailure(
+    userId: string,
+    email: string,
+    client: ISessionClient,
+    error: string
+  ): Promise<IApiResponse<ILoginResult>> {
+    const failures = await this.loginThrottleService.recordFailure(email, client.ip_address);
+    if (failures >= appConfig.auth.lockout.threshold) {
+      const lockedUntil = await this.lockAccount(userId, email, failures, client);
+      return this.accountLockedResponse(lockedUntil);
+    }
 
-      // Verify user still exists and auth is active
-      const auth = await this.authDao.findByUserId(decoded.id);
+    return {
+      success: false,
+      error,
+    };
+  }
 
-      if (!auth || !auth.is_active) {
-        throw new Error('User not found or inactive');
-      }
+  /**
+   * Lock an account after too many failed logins
+   * The counter starts over so the account gets a fresh allowance once the lock expires
+   */
+  private async lockAccount(userId: string, email: string, failures: number, client: ISessionClient): Promise<Date> {
+    const lockedUntil = new Date(Date.now() + appConfig.auth.lockout.duration * 1000);
+
+    await this.authDao.updateByUserId(userId, { locked_until: lockedUntil });
+    await this.loginThrottleService.reset(email);
+
+    console.warn(
+      `🔒 Account locked: user ${userId} after ${failures} failed logins (last from ${client.ip_address || 'unknown IP'}) until ${lockedUntil.toISOString()}`
+    );
+    await this.auditService.record({
+      action: AuditAction.ACCOUNT_LOCKED,
+      actor_type: AuditActorType.SYSTEM,
+      target_type: 'user',
+      target_id: userId,
+      after: { locked_until: lockedUntil },
+      metadata: { failed_logins: failures },
+    });
+
+    return lockedUntil;
+  }
 
-      // Generate new tokens
-      return this.generateTokens(decoded.id, decoded.email);
-    } catch (error: unknown) {
-      if (error instanceof jwt.TokenExpiredError) {
-        throw new Error('Refresh token expired');
+  private accountLockedResponse(lockedUntil: Date): IApiResponse<ILoginResult> {
+    return {
+      success: false,
+      error: 'Account is temporarily locked',
+      details: { locked_until: lockedUntil },
+    };
+  }
+
+  /**
+   * Sign a short-lived challenge proving the password step of a 2FA login passed
+   * Uses its own secret so it can never be accepted as an access or refresh token
+   */
+  private issueTwoFactorChallenge(userId: string): ITwoFactorChallenge {
+    const challengeToken = jwt.sign({ id: userId, purpose: 'two_factor' }, appConfig.jwt.challengeSecret, {
+      expiresIn: appConfig.auth.twoFactor.challengeExpiry,
+      jwtid: randomUUID(),
+    });
+
+    return {
+      challengeToken,
+      expiresIn: this.parseExpiry(appConfig.auth.twoFactor.challengeExpiry),
+    };
+  }
+
+  /**
+   * Count an attempt against a two-factor challenge
+   * Returns false once the challenge has used up its attempts
+   */
+  private recordChallengeAttempt(challengeId: string, expiresAt: number): boolean {
+    const now = Date.now();
+    this.challengeAttempts.forEach((entry, id) => {
+      if (entry.expiresAt <= now) {
+        this.challengeAttempts.delete(id);
       }
-      throw new Error('Invalid refresh token');
+    });
+
+    const entry = this.challengeAttempts.get(challengeId) || { attempts: 0, expiresAt };
+    if (entry.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      return false;
     }
+
+    this.challengeAttempts.set(challengeId, { ...entry, attempts: entry.attempts + 1 });
+    return true;
+  }
+
+  /**
+   * Hash a refresh or one-time token for storage
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Expiry date for a refresh token issued now
+   */
+  private getRefreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.parseExpiry(appConfig.jwt.refreshTokenExpiry) * 1000);
   }
 
   /**
@@ -0,0 +1,158 @@
+import { AdminDao, PlanDao, SubscriptionDao } from '../dao';
+import { AdminFundingStatus, Entitlement, EntitlementSource, IEntitlements, IPlan, ISubscription, PlanType, SubscriptionStatus } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Statuses of a subscription that grant access until its period ends
+ * Past-due subscriptions keep access while Stripe retries the payment
+ */
+const ENTITLED_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING, SubscriptionStatus.PAST_DUE];
+
+/**
+ * Features granted by admin funding
+ */
+const PREMIUM_ENTITLEMENTS = Object.values(Entitlement);
+
+/**
+ * Something that grants access, and when that access ends (null when it has no end date)
+ */
+interface IGrant {
+  source: EntitlementSource;
+  plan_type: PlanType | null;
+  expires_at: Date | null;
+  entitlements: Entitlement[];
+}
+
+/**
+ * Entitlement Service
+ * Resolves a user's effective access to premium features from their
+ * Stripe-backed subscriptions, admin funding and trials
+ * Subscriptions grant the features of their catalog plan
+ */
+class EntitlementService {
+  private static instance: EntitlementService;
+  private subscriptionDao: SubscriptionDao;
+  private adminDao: AdminDao;
+  private planDao: PlanDao;
+
+  private constructor() {
+    this.subscriptionDao = SubscriptionDao.getInstance();
+    this.adminDao = AdminDao.getInstance();
+    this.planDao = PlanDao.getInstance();
+  }
+
+  /**
+   * Get EntitlementService singleton instance
+   */
+  public static getInstance(): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService();
+    }
+    return EntitlementService.instance;
+  }
+
+  /**
+   * A user's effective entitlements
+   * Features of every current grant are combined; when several grants are
+   * current, the one lasting longest is reported as the source
+   */
+  public async resolve(userId: string): Promise<IEntitlements> {
+    const [subscriptions, fundings] = await Promise.all([
+      this.subscriptionDao.findAllByUserId(userId),
+      this.adminDao.findAllByUserId(userId),
+    ]);
+
+    const planIds = subscriptions.map((subscription) => subscription.plan_id).filter((id): id is string => !!id);
+    const plans = new Map((await this.planDao.findByIds([...new Set(planIds)])).map((plan) => [plan.id, plan]));
+
+    const grants: IGrant[] = [
+      ...subscriptions
+        .filter((subscription) => ENTITLED_STATUSES.includes(subscription.status))
+        .map((subscription) => this.subscriptionGrant(subscription, plans.get(subscription.plan_id ?? ''))),
+      ...fundings
+        .filter((funding) => funding.status === AdminFundingStatus.ACTIVE)
+        .map((funding): IGrant => ({
+          source: 'admin_funding',
+          plan_type: null,
+          expires_at: funding.end_date,
+          entitlements: PREMIUM_ENTITLEMENTS,
+        })),
+    ];
+
+    const now = new Date();
+    const current = grants.filter((grant) => !grant.expires_at || grant.expires_at > now);
+    const latest = subscriptions[0];
+
+    if (current.length === 0) {
+      const lapsed = this.longest(grants);
+      return {
+        active: false,
+        source: null,
+        plan_type: null,
+        subscription_status: latest?.status ?? null,
+        expires_at: lapsed?.expires_at ?? null,
+        entitlements: [],
+      };
+    }
+
+    const grant = this.longest(current)!;
+    return {
+      active: true,
+      source: grant.source,
+      plan_type: grant.plan_type,
+      subscription_status: latest?.status ?? null,
+      expires_at: grant.expires_at,
+      entitlements: Object.values(Entitlement).filter((entitlement) =>
+        current.some((candidate) => candidate.entitlements.includes(entitlement))
+      ),
+    };
+  }
+
+  /**
+   * The access a subscription grants
+   * Stripe subscriptions run to the end of the billing period; admin-funded
+   * ones to their end date
+   * A Stripe subscription grants its catalog plan's features, and none when its
+   * price is not in the catalog
+   */
+  private subscriptionGrant(subscription: ISubscription, plan: IPlan | undefined): IGrant {
+    const source: EntitlementSource = subscription.status === SubscriptionStatus.TRIALING
+      ? 'trial'
+      : subscription.funded_by_admin
+        ? 'admin_funding'
+        : 'subscription';
+    const expiresAt = subscription.funded_by_admin
+      ? this.later(subscription.end_date, subscription.current_period_end)
+      : subscription.current_period_end ?? subscription.end_date;
+
+    return {
+      source,
+      plan_type: subscription.plan_type,
+      expires_at: expiresAt ?? null,
+      entitlements: plan ? plan.entitlements : subscription.funded_by_admin ? PREMIUM_ENTITLEMENTS : [],
+    };
+  }
+
+  /**
+   * The grant that lasts longest (one without an end date outlasts all others)
+   */
+  private longest(grants: IGrant[]): IGrant | undefined {
+    return grants.reduce<IGrant | undefined>((longest, grant) => {
+      if (!longest || !longest.expires_at) {
+        return longest ?? grant;
+      }
+      return !grant.expires_at || grant.expires_at > longest.expires_at ? grant : longest;
+    }, undefined);
+  }
+
+  /**
+   * The later of two optional dates
+   */
+  private later(a?: Date, b?: Date): Date | undefined {
+    if (!a || !b) {
+      return a ?? b;
+    }
+    return a > b ? a : b;
+  }
+}
+
+export default EntitlementService;
@@ -3,4 +3,19 @@
  */
 export { default as ItemService } from './item_service';
 export { default as AdminService } from './admin_service';
+export { default as TmdbCacheService } from './tmdb_cache.service';
+export { default as StreamingRefreshService } from './streaming_refresh.service';
+export { default as SubtitleService } from './subtitle_service';
+export { default as SubtitleTranslationService } from './subtitle_translation.service';
+export { default as LibraryService } from './library_service';
+export { default as TwoFactorService } from './two_factor.service';
+export { default as LoginThrottleService } from './login_throttle.service';
+export { default as PermissionService } from './permission.service';
+export { default as ApiKeyService } from './api_key.service';
 
+export { default as AccountService } from './account.service';
+export { default as AccountPurgeService } from './account_purge.service';
+export { default as AuditService } from './audit.service';
+export { default as StripeWebhookService } from './stripe_webhook.service';
+export { default as EntitlementService } from './entitlement.service';
+export { default as PlanService } from './plan.service';
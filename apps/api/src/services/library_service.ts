@@ -0,0 +1,226 @@
+import { MovieDao, UserMovieDao } from '../dao';
+import { IApiResponse, ILibraryEntry, ILibraryPage, ILibraryState, IPlaybackProgress } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+
+/**
+ * Service layer for user library business logic
+ * Handles favorites, watch history and playback progress
+ */
+class LibraryService {
+  private static instance: LibraryService;
+  private userMovieDao: UserMovieDao;
+  private movieDao: MovieDao;
+
+  private constructor() {
+    this.userMovieDao = UserMovieDao.getInstance();
+    this.movieDao = MovieDao.getInstance();
+  }
+
+  /**
+   * Get LibraryService singleton instance
+   */
+  public static getInstance(): LibraryService {
+    if (!LibraryService.instance) {
+      LibraryService.instance = new LibraryService();
+    }
+    return LibraryService.instance;
+  }
+
+  /**
+   * Get the user's library state for a movie
+   * Movies the user never interacted with get the default state
+   */
+  public async getLibraryState(userId: string, movieId: string): Promise<ILibraryState> {
+    const entry = await this.userMovieDao.findByUserAndMovie(userId, movieId);
+    return {
+      favorited: entry?.favorited || false,
+      watched_at: entry?.watched_at || null,
+      watch_position: entry?.watch_position || 0,
+      progress_updated_at: entry?.progress_updated_at || null,
+      updated_at: entry?.updated_at,
+    };
+  }
+
+  /**
+   * Add or remove a movie from the user's favorites
+   */
+  public async setFavorite(userId: string, movieId: string, favorited: boolean): Promise<IApiResponse<ILibraryEntry>> {
+    return this.updateEntry(userId, movieId, { favorited }, favorited ? 'Added to favorites' : 'Removed from favorites');
+  }
+
+  /**
+   * Mark a movie as watched or unwatched
+   */
+  public async setWatched(userId: string, movieId: string, watched: boolean): Promise<IApiResponse<ILibraryEntry>> {
+    return this.updateEntry(
+      userId,
+      movieId,
+      { watched_at: watched ? new Date() : null },
+      watched ? 'Marked as watched' : 'Marked as unwatched'
+    );
+  }
+
+  /**
+   * Get the user's favorites
+   */
+  public async getFavorites(userId: string, page: number, limit: number): Promise<IApiResponse<ILibraryPage>> {
+    try {
+      const { rows, count } = await this.userMovieDao.findFavorites(userId, { limit, offset: (page - 1) * limit });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in LibraryService.getFavorites:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get favorites',
+      };
+    }
+  }
+
+  /**
+   * Get the user's watch history
+   */
+  public async getHistory(userId: string, page: number, limit: number): Promise<IApiResponse<ILibraryPage>> {
+    try {
+      const { rows, count } = await this.userMovieDao.findHistory(userId, { limit, offset: (page - 1) * limit });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in LibraryService.getHistory:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get watch history',
+      };
+    }
+  }
+
+  /**
+   * Sync playback progress for a movie
+   * Writes are throttled per title; crossing the completion threshold marks
+   * the title watched and resets the position so it leaves continue-watching
+   */
+  public async updateProgress(
+    userId: string,
+    movieId: string,
+    position: number,
+    duration: number
+  ): Promise<IApiResponse<IPlaybackProgress>> {
+    try {
+      const movie = await this.movieDao.findById(movieId);
+      if (!movie) {
+        return {
+          success: false,
+          error: 'Movie not found',
+        };
+      }
+
+      const entry = await this.userMovieDao.findByUserAndMovie(userId, movieId);
+      const watchPosition = Math.min(position, duration);
+      const completed = watchPosition / duration >= appConfig.playback.completionThreshold;
+      const now = new Date();
+
+      // Completion is never throttled the first time it is reached
+      const justCompleted = completed && (!entry || entry.watch_position > 0);
+      const lastWrite = entry?.progress_updated_at ? new Date(entry.progress_updated_at).getTime() : 0;
+      const throttled = !justCompleted && now.getTime() - lastWrite < appConfig.playback.progressThrottleSeconds * 1000;
+
+      if (entry && throttled) {
+        return {
+          success: true,
+          data: {
+            movie_id: movieId,
+            watch_position: entry.watch_position,
+            watched_at: entry.watched_at,
+            completed: false,
+            persisted: false,
+          },
+        };
+      }
+
+      const updated = await this.userMovieDao.upsert(userId, movieId, {
+        watch_position: completed ? 0 : watchPosition,
+        progress_updated_at: now,
+        ...(completed ? { watched_at: now } : {}),
+      });
+
+      return {
+        success: true,
+        data: {
+          movie_id: movieId,
+          watch_position: updated.watch_position,
+          watched_at: updated.watched_at,
+          completed,
+          persisted: true,
+        },
+      };
+    } catch (error) {
+      console.error('Error in LibraryService.updateProgress:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update progress',
+      };
+    }
+  }
+
+  /**
+   * Get titles the user can resume, most recently played first
+   */
+  public async getContinueWatching(userId: string, page: number, limit: number): Promise<IApiResponse<ILibraryPage>> {
+    try {
+      const { rows, count } = await this.userMovieDao.findInProgress(userId, { limit, offset: (page - 1) * limit });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in LibraryService.getContinueWatching:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get continue watching',
+      };
+    }
+  }
+
+  /**
+   * Update a library entry after checking the movie exists
+   */
+  private async updateEntry(
+    userId: string,
+    movieId: string,
+    data: Partial<{ favorited: boolean; watched_at: Date | null }>,
+    message: string
+  ): Promise<IApiResponse<ILibraryEntry>> {
+    try {
+      const movie = await this.movieDao.findById(movieId);
+      if (!movie) {
+        return {
+          success: false,
+          error: 'Movie not found',
+        };
+      }
+
+      const entry = await this.userMovieDao.upsert(userId, movieId, data);
+
+      return {
+        success: true,
+        data: entry,
+        message,
+      };
+    } catch (error) {
+      console.error('Error in LibraryService.updateEntry:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update library',
+      };
+    }
+  }
+}
+
+export default LibraryService;
@@ -0,0 +1,182 @@
+import { LoginAttemptDao } from '../dao';
+import { ILoginAttempt } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+
+/**
+ * Login Attempt Store Interface
+ * Defines the contract for failed attempt counter backends
+ */
+interface ILoginAttemptStore {
+  readonly name: string;
+  get(key: string): Promise<ILoginAttempt | null>;
+  recordFailure(key: string, windowSeconds: number): Promise<ILoginAttempt>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-memory Implementation
+ * Default store; counters are per process and lost on restart
+ */
+class MemoryLoginAttemptStore implements ILoginAttemptStore {
+  readonly name = 'memory';
+  private attempts: Map<string, ILoginAttempt> = new Map();
+
+  async get(key: string): Promise<ILoginAttempt | null> {
+    return this.attempts.get(key) || null;
+  }
+
+  async recordFailure(key: string, windowSeconds: number): Promise<ILoginAttempt> {
+    const now = new Date();
+    const previous = this.attempts.get(key);
+    const stale = !previous || previous.last_failed_at.getTime() <= now.getTime() - windowSeconds * 1000;
+
+    const attempt = {
+      key,
+      failures: stale ? 1 : previous.failures + 1,
+      last_failed_at: now,
+    };
+    this.attempts.set(key, attempt);
+    this.prune(now.getTime() - windowSeconds * 1000);
+
+    return attempt;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+
+  /**
+   * Drop counters that have gone quiet so the map does not grow without bound
+   * Map keeps insertion order, but updated keys are not moved, so scan all entries
+   */
+  private prune(staleBefore: number): void {
+    if (this.attempts.size < 10000) {
+      return;
+    }
+    for (const [key, attempt] of Array.from(this.attempts.entries())) {
+      if (attempt.last_failed_at.getTime() <= staleBefore) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Postgres Implementation
+ * Keeps counters in the login_attempts table so they are shared between API instances
+ */
+class PostgresLoginAttemptStore implements ILoginAttemptStore {
+  readonly name = 'postgres';
+  private loginAttemptDao: LoginAttemptDao;
+
+  constructor() {
+    this.loginAttemptDao = LoginAttemptDao.getInstance();
+  }
+
+  async get(key: string): Promise<ILoginAttempt | null> {
+    return this.loginAttemptDao.findByKey(key);
+  }
+
+  async recordFailure(key: string, windowSeconds: number): Promise<ILoginAttempt> {
+    return this.loginAttemptDao.recordFailure(key, new Date(Date.now() - windowSeconds * 1000));
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.loginAttemptDao.deleteByKey(key);
+  }
+}
+
+/**
+ * Login Throttle Service
+ * Counts failed logins per account and per IP and applies exponential backoff
+ * once a key passes its free attempts; locking accounts is left to AuthService
+ */
+class LoginThrottleService {
+  private static instance: LoginThrottleService;
+  private store: ILoginAttemptStore;
+
+  private constructor() {
+    switch (appConfig.auth.lockout.store) {
+      case 'postgres':
+        this.store = new PostgresLoginAttemptStore();
+        break;
+      case 'memory':
+      default:
+        this.store = new MemoryLoginAttemptStore();
+        break;
+    }
+  }
+
+  /**
+   * Get LoginThrottleService singleton instance
+   */
+  public static getInstance(): LoginThrottleService {
+    if (!LoginThrottleService.instance) {
+      LoginThrottleService.instance = new LoginThrottleService();
+    }
+    return LoginThrottleService.instance;
+  }
+
+  /**
+   * Seconds until another attempt is allowed for this email and IP (0 if allowed now)
+   */
+  public async getRetryAfter(email: string, ipAddress?: string): Promise<number> {
+    const { freeAttempts, ipFreeAttempts } = appConfig.auth.lockout;
+    const delays = [this.getDelay(await this.store.get(this.accountKey(email)), freeAttempts)];
+
+    if (ipAddress) {
+      delays.push(this.getDelay(await this.store.get(this.ipKey(ipAddress)), ipFreeAttempts));
+    }
+
+    return Math.max(...delays);
+  }
+
+  /**
+   * Count a failed login for this email and IP
+   * @returns Failures recorded against the account within the window
+   */
+  public async recordFailure(email: string, ipAddress?: string): Promise<number> {
+    const { window } = appConfig.auth.lockout;
+
+    if (ipAddress) {
+      await this.store.recordFailure(this.ipKey(ipAddress), window);
+    }
+
+    const attempt = await this.store.recordFailure(this.accountKey(email), window);
+    return attempt.failures;
+  }
+
+  /**
+   * Clear the account counter, after a successful login, a lockout or an admin unlock
+   * IP counters are left to expire so one valid account cannot reset them
+   */
+  public async reset(email: string): Promise<void> {
+    await this.store.reset(this.accountKey(email));
+  }
+
+  /**
+   * Backoff remaining for a key: base * 2^(failures past the free attempts - 1), capped
+   */
+  private getDelay(attempt: ILoginAttempt | null, freeAttempts: number): number {
+    if (!attempt || attempt.failures <= freeAttempts) {
+      return 0;
+    }
+
+    const { backoffBase, backoffMax } = appConfig.auth.lockout;
+    const exponent = Math.min(attempt.failures - freeAttempts - 1, 30);
+    const delay = Math.min(backoffBase * 2 ** exponent, backoffMax);
+    const elapsed = (Date.now() - new Date(attempt.last_failed_at).getTime()) / 1000;
+
+    return Math.max(0, Math.ceil(delay - elapsed));
+  }
+
+  private accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+}
+
+export default LoginThrottleService;
@@ -0,0 +1,148 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { appConfig } from '../config/app.config';
+import { SmtpClient } from '../utils/smtp-client';
+
+/**
+ * Outgoing email message
+ */
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mailer Interface
+ * Defines the contract for email transports
+ */
+export interface IMailer {
+  readonly name: string;
+  send(message: IMailMessage): Promise<void>;
+}
+
+/**
+ * Extract the bare address from "Name <address>" form
+ */
+function extractAddress(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode a header value as RFC 2047 UTF-8 when it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+/**
+ * Base64-encode a body part, wrapped at 76 characters
+ */
+function encodeBody(content: string): string {
+  return Buffer.from(content).toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Build an RFC 5322 message with CRLF line endings
+ * Plain text only, or multipart/alternative when an HTML part is given
+ */
+export function buildMailMessage(from: string, message: IMailMessage): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n');
+  }
+
+  const boundary = `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+/**
+ * File Mailer Implementation
+ * Writes each message to MAIL_FILE_DIR as an .eml file and logs it; makes no network calls
+ */
+class FileMailer implements IMailer {
+  readonly name = 'file';
+
+  async send(message: IMailMessage): Promise<void> {
+    const dir = path.resolve(appConfig.mail.fileDir);
+    const file = path.join(dir, `${Date.now()}-${randomBytes(4).toString('hex')}.eml`);
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(file, buildMailMessage(appConfig.mail.from, message));
+
+    // The body carries reset and verification links, so it stays in the file only
+    console.log(`✉️  Mail to ${message.to}: "${message.subject}" → ${file}`);
+  }
+}
+
+/**
+ * SMTP Mailer Implementation
+ */
+class SmtpMailer implements IMailer {
+  readonly name = 'smtp';
+  private host: string;
+
+  constructor() {
+    const host = appConfig.mail.smtp.host;
+    if (!host) {
+      throw new Error('SMTP_HOST is required when using SMTP mail transport');
+    }
+    this.host = host;
+  }
+
+  async send(message: IMailMessage): Promise<void> {
+    const { port, secure, user, pass } = appConfig.mail.smtp;
+    const client = new SmtpClient({ host: this.host, port, secure, user, pass });
+
+    await client.send(
+      extractAddress(appConfig.mail.from),
+      [extractAddress(message.to)],
+      buildMailMessage(appConfig.mail.from, message)
+    );
+  }
+}
+
+/**
+ * Create the mailer configured by MAIL_TRANSPORT
+ * Throws if the mailer is missing required configuration
+ */
+export function createMailer(): IMailer {
+  switch (appConfig.mail.transport) {
+    case 'smtp':
+      return new SmtpMailer();
+    case 'file':
+    default:
+      return new FileMailer();
+  }
+}
@@ -7,10 +7,14 @@ import {
   ITMDBMovieDetails,
   ITMDBPaginatedResponse,
   IStreamingLink,
+  IStreamingLinksResult,
+  IStreamingRegionRefresh,
   MovieCategory,
+  TmdbCacheEndpointType,
 } from '@nx-mono-repo-deployment-test/shared';
 import { appConfig } from '../config/app.config';
 import streamingService from './streaming.service';
+import TmdbCacheService from './tmdb_cache.service';
 
 /**
  * Movie Service
@@ -21,6 +25,8 @@ class MovieService {
   private movieDao: MovieDao;
   private apiCreditDao: ApiCreditDao;
   private apiUsageDao: ApiUsageDao;
+  private tmdbCache: TmdbCacheService;
+  private refreshingMovieIds: Set<string> = new Set();
 
   constructor() {
     this.tmdbClient = axios.create({
@@ -34,6 +40,8 @@ class MovieService {
     this.movieDao = MovieDao.getInstance();
     this.apiCreditDao = ApiCreditDao.getInstance();
     this.apiUsageDao = ApiUsageDao.getInstance();
+
+    this.tmdbCache = TmdbCacheService.getInstance();
   }
 
   /**
@@ -41,12 +49,7 @@ class MovieService {
    */
   async searchMovies(query: string, page: number = 1): Promise<ITMDBMovieListResponse> {
     try {
-      await this.checkApiCredits('tmdb');
-      const response = await this.tmdbClient.get<ITMDBMovieListResponse>('/search/movie', {
-        params: { query, page },
-      });
-      await this.trackApiUsage('tmdb', 'search/movie', query);
-      return response.data;
+      return await this.cachedTmdbGet<ITMDBMovieListResponse>('search', 'search/movie', { query, page }, query);
     } catch (error: unknown) {
       console.error('TMDB search error:', error);
       throw new Error('Failed to search movies');
@@ -58,12 +61,7 @@ class MovieService {
    */
   async getPopularMovies(page: number = 1, language?: string): Promise<ITMDBMovieListResponse> {
     try {
-      await this.checkApiCredits('tmdb');
-      const response = await this.tmdbClient.get<ITMDBMovieListResponse>('/movie/popular', {
-        params: { page, language },
-      });
-      await this.trackApiUsage('tmdb', 'movie/popular');
-      return response.data;
+      return await this.cachedTmdbGet<ITMDBMovieListResponse>('popular', 'movie/popular', { page, language });
     } catch (error: unknown) {
       console.error('TMDB popular movies error:', error);
       throw new Error('Failed to get popular movies');
@@ -75,10 +73,7 @@ class MovieService {
    */
   async getTrendingMovies(timeWindow: 'day' | 'week' = 'day'): Promise<ITMDBPaginatedResponse<ITMDBMovie>> {
     try {
-      await this.checkApiCredits('tmdb');
-      const response = await this.tmdbClient.get<ITMDBPaginatedResponse<ITMDBMovie>>(`/trending/movie/${timeWindow}`);
-      await this.trackApiUsage('tmdb', `trending/movie/${timeWindow}`);
-      return response.data;
+      return await this.cachedTmdbGet<ITMDBPaginatedResponse<ITMDBMovie>>('trending', `trending/movie/${timeWindow}`);
     } catch (error: unknown) {
       console.error('TMDB trending movies error:', error);
       throw new Error('Failed to get trending movies');
@@ -90,10 +85,7 @@ class MovieService {
    */
   async getMovieDetails(tmdbId: number): Promise<ITMDBMovieDetails> {
     try {
-      await this.checkApiCredits('tmdb');
-      const response = await this.tmdbClient.get<ITMDBMovieDetails>(`/movie/${tmdbId}`);
-      await this.trackApiUsage('tmdb', `movie/${tmdbId}`);
-      return response.data;
+      return await this.cachedTmdbGet<ITMDBMovieDetails>('details', `movie/${tmdbId}`);
     } catch (error: unknown) {
       console.error('TMDB movie details error:', error);
       throw new Error('Failed to get movie details');
@@ -108,15 +100,15 @@ class MovieService {
     page: number = 1
   ): Promise<ITMDBMovieListResponse> {
     try {
-      await this.checkApiCredits('tmdb');
-      const response = await this.tmdbClient.get<ITMDBMovieListResponse>('/discover/movie', {
-        params: {
+      return await this.cachedTmdbGet<ITMDBMovieListResponse>(
+        'discover',
+        'discover/movie',
+        {
           with_original_language: language,
           page,
         },
-      });
-      await this.trackApiUsage('tmdb', 'discover/movie', language);
-      return response.data;
+        language
+      );
     } catch (error: unknown) {
       console.error('TMDB movies by language error:', error);
       throw new Error('Failed to get movies by language');
@@ -124,23 +116,169 @@ class MovieService {
   }
 
   /**
-   * Get streaming links for a movie
-   * Uses the configured streaming provider (TMDB, VidAPI, StreamAPI, or Watchmode)
+   * Get streaming links for a movie in a region
+   * Uses the configured streaming provider chain (TMDB, VidAPI, StreamAPI, Watchmode)
    */
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      if (!tmdbId) {
-        return [];
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLinksResult> {
+    if (!tmdbId) {
+      return { region, links: [], answered_by: [], failed_providers: [] };
+    }
+
+    return streamingService.getStreamingLinks(tmdbId, region);
+  }
+
+  /**
+   * Get streaming links for a stored movie in a region
+   * Serves links persisted on the movie (including a fetched empty result);
+   * due regions are refreshed in the background. Regions never fetched are
+   * fetched live unless a recent failure is still backing off.
+   */
+  async getMovieStreamingLinks(movie: MovieModel, region: string): Promise<IStreamingLinksResult> {
+    const state = this.getStreamingRegions(movie)[region];
+    const now = new Date();
+
+    if (state && (state.fetched_at || this.getRegionRefreshAt(state) > now)) {
+      if (this.getRegionRefreshAt(state) <= now) {
+        this.refreshStreamingLinksInBackground(movie);
       }
 
-      // Use streaming service to get links
-      const links = await streamingService.getStreamingLinks(tmdbId);
-      
-      return links;
-    } catch (error: unknown) {
-      console.error('Streaming links error:', error);
-      return [];
+      return {
+        region,
+        links: (movie.streaming_links || []).filter((link) => link.region === region),
+        answered_by: [],
+        failed_providers: [],
+        source: 'database',
+        updated_at: state.fetched_at ? new Date(state.fetched_at) : null,
+      };
+    }
+
+    const [result] = await this.refreshStreamingLinks(movie, [region]);
+    return result;
+  }
+
+  /**
+   * Fetch streaming links from the provider chain and persist them on the movie
+   * Defaults to every tracked region that is due, plus the default region.
+   * Regions where no provider answered keep their previously stored links and
+   * are retried after a backoff; answered regions are recorded even when empty.
+   */
+  async refreshStreamingLinks(movie: MovieModel, regions?: string[]): Promise<IStreamingLinksResult[]> {
+    const now = new Date();
+    const storedStates = this.getStreamingRegions(movie);
+    const targetRegions = regions || Array.from(new Set([...Object.keys(storedStates), appConfig.streaming.defaultRegion]))
+      .filter((region) => !storedStates[region] || this.getRegionRefreshAt(storedStates[region]) <= now);
+
+    const fetched: IStreamingLinksResult[] = [];
+    for (const region of targetRegions) {
+      fetched.push(await this.getStreamingLinks(movie.tmdb_id!, region));
     }
+
+    // Merged into the row as it is now, under a lock, so a concurrent refresh of
+    // other regions (live request vs. background or scheduled job) is never lost
+    const updated = await this.movieDao.updateStreamingLinks(movie.id, (current) => {
+      const regionStates = this.getStreamingRegions(current);
+      let links: IStreamingLink[] = current.streaming_links || [];
+      let answered = false;
+
+      for (const result of fetched) {
+        const previous = regionStates[result.region];
+
+        if (result.answered_by.length > 0) {
+          links = [...links.filter((link) => link.region !== result.region), ...result.links];
+          regionStates[result.region] = { fetched_at: now.toISOString(), failed_at: null, failures: 0 };
+          answered = true;
+        } else {
+          regionStates[result.region] = {
+            fetched_at: previous?.fetched_at ?? null,
+            failed_at: now.toISOString(),
+            failures: (previous?.failures ?? 0) + 1,
+          };
+        }
+      }
+
+      // The movie is due again when its earliest region is
+      const refreshAt = Object.values(regionStates)
+        .map((state) => this.getRegionRefreshAt(state))
+        .reduce<Date | null>((earliest, due) => (!earliest || due < earliest ? due : earliest), null);
+
+      return {
+        streaming_links: links,
+        streaming_regions: regionStates,
+        streaming_links_refresh_at: refreshAt,
+        streaming_links_updated_at: answered ? now : current.streaming_links_updated_at,
+      };
+    });
+
+    if (updated) {
+      movie.streaming_links = updated.streaming_links;
+      movie.streaming_regions = updated.streaming_regions;
+      movie.streaming_links_refresh_at = updated.streaming_links_refresh_at;
+      movie.streaming_links_updated_at = updated.streaming_links_updated_at;
+    }
+
+    const regionStates = this.getStreamingRegions(movie);
+    return fetched.map((result) => {
+      const fetchedAt = regionStates[result.region]?.fetched_at;
+      return { ...result, source: 'live', updated_at: fetchedAt ? new Date(fetchedAt) : null };
+    });
+  }
+
+  /**
+   * Per-region refresh state of a movie
+   * Regions stored before per-region tracking take the movie-wide timestamp
+   */
+  private getStreamingRegions(movie: MovieModel): Record<string, IStreamingRegionRefresh> {
+    const regions = { ...(movie.streaming_regions || {}) };
+    const legacyFetchedAt = movie.streaming_links_updated_at
+      ? new Date(movie.streaming_links_updated_at).toISOString()
+      : null;
+
+    for (const link of movie.streaming_links || []) {
+      if (link.region && !regions[link.region]) {
+        regions[link.region] = { fetched_at: legacyFetchedAt, failed_at: null, failures: 0 };
+      }
+    }
+
+    return regions;
+  }
+
+  /**
+   * When a region is next due for a refresh
+   * After a failure: failed_at plus the backoff, doubled per consecutive failure and capped at the TTL.
+   * Otherwise: fetched_at plus the TTL (immediately if never fetched).
+   */
+  private getRegionRefreshAt(state: IStreamingRegionRefresh): Date {
+    const { linksTtl, failureBackoff } = appConfig.streaming;
+
+    if (state.failures > 0 && state.failed_at) {
+      const backoff = Math.min(failureBackoff * 2 ** (state.failures - 1), linksTtl);
+      return new Date(new Date(state.failed_at).getTime() + backoff * 1000);
+    }
+
+    if (!state.fetched_at) {
+      return new Date(0);
+    }
+
+    return new Date(new Date(state.fetched_at).getTime() + linksTtl * 1000);
+  }
+
+  /**
+   * Refresh streaming links without blocking the caller
+   * Concurrent refreshes of the same movie are collapsed into one
+   */
+  private refreshStreamingLinksInBackground(movie: MovieModel): void {
+    if (this.refreshingMovieIds.has(movie.id)) {
+      return;
+    }
+
+    this.refreshingMovieIds.add(movie.id);
+    this.refreshStreamingLinks(movie)
+      .catch((error) => {
+        console.error(`Background streaming links refresh failed (${movie.id}):`, error);
+      })
+      .finally(() => {
+        this.refreshingMovieIds.delete(movie.id);
+      });
   }
 
   /**
@@ -163,7 +301,7 @@ class MovieService {
       vote_count: tmdbData.vote_count,
       popularity: tmdbData.popularity,
       content_type: 'movie', // Default to movie
-      streaming_links: [],
+      // streaming_links are maintained by refreshStreamingLinks, never overwritten here
     };
 
     if (movie) {
@@ -184,6 +322,31 @@ class MovieService {
     return movie!;
   }
 
+  /**
+   * GET a TMDB endpoint through the response cache
+   * Cache hits are recorded as zero-credit usage and skip the credit check
+   */
+  private async cachedTmdbGet<T>(
+    type: TmdbCacheEndpointType,
+    endpoint: string,
+    params: Record<string, unknown> = {},
+    requestType?: string
+  ): Promise<T> {
+    const cacheKey = this.tmdbCache.buildKey(endpoint, params);
+    const cached = await this.tmdbCache.get<T>(cacheKey);
+
+    if (cached !== null) {
+      await this.trackApiUsage('tmdb', endpoint, requestType, 0);
+      return cached;
+    }
+
+    await this.checkApiCredits('tmdb');
+    const response = await this.tmdbClient.get<T>(`/${endpoint}`, { params });
+    await this.tmdbCache.set(cacheKey, endpoint, type, response.data);
+    await this.trackApiUsage('tmdb', endpoint, requestType);
+    return response.data;
+  }
+
   /**
    * Check API credits before making request
    */
@@ -205,25 +368,31 @@ class MovieService {
 
   /**
    * Track API usage
+   * Zero-credit usage (cache hits) is recorded without touching purchased credits
    */
   private async trackApiUsage(
     provider: string,
     endpoint: string,
-    requestType?: string
+    requestType?: string,
+    creditsUsed: number = 1
   ): Promise<void> {
     try {
       await this.apiUsageDao.create({
         api_provider: provider,
         endpoint,
-        credits_used: 1,
+        credits_used: creditsUsed,
         request_type: requestType,
       });
 
+      if (creditsUsed === 0) {
+        return;
+      }
+
       // Update credit usage
       const credit = await this.apiCreditDao.findByProvider(provider);
 
       if (credit && credit.id) {
-        await this.apiCreditDao.incrementCreditsUsed(credit.id);
+        await this.apiCreditDao.incrementCreditsUsed(credit.id, creditsUsed);
       }
     } catch (error) {
       console.error('Error tracking API usage:', error);
@@ -0,0 +1,148 @@
+import { RolePermissionDao } from '../dao';
+import { DEFAULT_ROLE_PERMISSIONS, IApiResponse, IRolePermissions, Permission, UserRole } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * How long the role → permission mapping is cached before it is reloaded
+ * Bounds how stale another API instance can be after the mapping changes
+ */
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Permission Service
+ * Resolves what each role may do from the role_permissions table
+ * Admins always hold every permission so the mapping can never lock them out
+ */
+class PermissionService {
+  private static instance: PermissionService;
+  private rolePermissionDao: RolePermissionDao;
+  private cache: Map<UserRole, Set<Permission>> | null = null;
+  private cachedAt: number = 0;
+
+  private constructor() {
+    this.rolePermissionDao = RolePermissionDao.getInstance();
+  }
+
+  /**
+   * Get PermissionService singleton instance
+   */
+  public static getInstance(): PermissionService {
+    if (!PermissionService.instance) {
+      PermissionService.instance = new PermissionService();
+    }
+    return PermissionService.instance;
+  }
+
+  /**
+   * Seed the default mapping when the table is empty (e.g. created by model sync)
+   */
+  public async seedDefaults(): Promise<void> {
+    if ((await this.rolePermissionDao.count()) > 0) {
+      return;
+    }
+
+    const rows = Object.values(UserRole).flatMap((role) =>
+      DEFAULT_ROLE_PERMISSIONS[role].map((permission) => ({ role, permission }))
+    );
+    await this.rolePermissionDao.bulkCreate(rows);
+    this.cache = null;
+
+    console.log(`✓ Seeded ${rows.length} default role permissions`);
+  }
+
+  /**
+   * Permissions granted to a role
+   */
+  public async getPermissions(role: UserRole): Promise<Permission[]> {
+    if (role === UserRole.ADMIN) {
+      return Object.values(Permission);
+    }
+
+    const mapping = await this.getMapping();
+    return Array.from(mapping.get(role) || []);
+  }
+
+  /**
+   * Whether a role holds every one of the given permissions
+   */
+  public async hasPermissions(role: UserRole, permissions: Permission[]): Promise<boolean> {
+    const granted = await this.getPermissions(role);
+    return permissions.every((permission) => granted.includes(permission));
+  }
+
+  /**
+   * List the permissions of every role
+   */
+  public async listRolePermissions(): Promise<IApiResponse<IRolePermissions[]>> {
+    try {
+      const data = await Promise.all(
+        Object.values(UserRole).map(async (role) => ({
+          role,
+          permissions: await this.getPermissions(role),
+        }))
+      );
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error in PermissionService.listRolePermissions:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get role permissions',
+      };
+    }
+  }
+
+  /**
+   * Replace the permissions granted to a role
+   */
+  public async updateRolePermissions(role: UserRole, permissions: Permission[]): Promise<IApiResponse<IRolePermissions>> {
+    try {
+      if (role === UserRole.ADMIN) {
+        return {
+          success: false,
+          error: 'Admin permissions cannot be changed',
+        };
+      }
+
+      await this.rolePermissionDao.replaceForRole(role, permissions);
+      this.cache = null;
+
+      return {
+        success: true,
+        data: { role, permissions: await this.getPermissions(role) },
+        message: 'Role permissions updated',
+      };
+    } catch (error) {
+      console.error(`Error in PermissionService.updateRolePermissions (${role}):`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update role permissions',
+      };
+    }
+  }
+
+  /**
+   * Load the mapping, from cache while it is fresh
+   */
+  private async getMapping(): Promise<Map<UserRole, Set<Permission>>> {
+    if (this.cache && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    const mapping = new Map<UserRole, Set<Permission>>();
+    for (const { role, permission } of await this.rolePermissionDao.findAll()) {
+      if (!mapping.has(role)) {
+        mapping.set(role, new Set());
+      }
+      mapping.get(role)!.add(permission);
+    }
+
+    this.cache = mapping;
+    this.cachedAt = Date.now();
+    return mapping;
+  }
+}
+
+export default PermissionService;
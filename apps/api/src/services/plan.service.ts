@@ -0,0 +1,276 @@
+import { PlanDao, SubscriptionDao } from '../dao';
+import { AuditAction, Entitlement, IApiResponse, IPlan, IPublicPlan, PlanType } from '@nx-mono-repo-deployment-test/shared';
+import AuditService from './audit.service';
+
+/**
+ * Fields an admin sets on a plan
+ */
+export interface IPlanInput {
+  name: string;
+  interval: PlanType;
+  price: number;
+  currency: string;
+  stripe_price_id: string;
+  entitlements: Entitlement[];
+  is_active?: boolean;
+}
+
+/**
+ * Plan Service
+ * Manages the subscription plan catalog
+ * Clients subscribe to a plan by ID; its Stripe price never leaves the API
+ */
+class PlanService {
+  private static instance: PlanService;
+  private planDao: PlanDao;
+  private subscriptionDao: SubscriptionDao;
+  private auditService: AuditService;
+
+  private constructor() {
+    this.planDao = PlanDao.getInstance();
+    this.subscriptionDao = SubscriptionDao.getInstance();
+    this.auditService = AuditService.getInstance();
+  }
+
+  /**
+   * Get PlanService singleton instance
+   */
+  public static getInstance(): PlanService {
+    if (!PlanService.instance) {
+      PlanService.instance = new PlanService();
+    }
+    return PlanService.instance;
+  }
+
+  /**
+   * Active plans for the pricing page, cheapest first
+   */
+  public async listPublic(): Promise<IApiResponse<IPublicPlan[]>> {
+    try {
+      const plans = await this.planDao.findAll(true);
+
+      return {
+        success: true,
+        data: plans.map(({ id, name, interval, price, currency, entitlements }) => ({
+          id,
+          name,
+          interval,
+          price,
+          currency,
+          entitlements,
+        })),
+      };
+    } catch (error) {
+      console.error('Error in PlanService.listPublic:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get plans',
+      };
+    }
+  }
+
+  /**
+   * Every plan, including inactive ones
+   */
+  public async list(): Promise<IApiResponse<IPlan[]>> {
+    try {
+      const plans = await this.planDao.findAll();
+
+      return {
+        success: true,
+        data: plans,
+      };
+    } catch (error) {
+      console.error('Error in PlanService.list:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get plans',
+      };
+    }
+  }
+
+  /**
+   * A plan that can be subscribed to
+   * Inactive plans are reported as not found
+   */
+  public async getSubscribable(id: string): Promise<IApiResponse<IPlan>> {
+    try {
+      const plan = await this.planDao.findById(id);
+      if (!plan || !plan.is_active) {
+        return {
+          success: false,
+          error: 'Plan not found',
+        };
+      }
+
+      return {
+        success: true,
+        data: plan,
+      };
+    } catch (error) {
+      console.error(`Error in PlanService.getSubscribable (${id}):`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get plan',
+      };
+    }
+  }
+
+  /**
+   * Add a plan to the catalog
+   */
+  public async create(input: IPlanInput): Promise<IApiResponse<IPlan>> {
+    try {
+      if (await this.planDao.findByStripePriceId(input.stripe_price_id)) {
+        return {
+          success: false,
+          error: 'A plan already uses this Stripe price',
+        };
+      }
+
+      const plan = await this.planDao.create({
+        ...input,
+        currency: input.currency.toLowerCase(),
+        is_active: input.is_active ?? true,
+      });
+
+      await this.auditService.record({
+        action: AuditAction.PLAN_CREATED,
+        target_type: 'plan',
+        target_id: plan.id,
+        after: this.snapshot(plan),
+      });
+
+      return {
+        success: true,
+        data: plan,
+        message: 'Plan created successfully',
+      };
+    } catch (error) {
+      console.error('Error in PlanService.create:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create plan',
+      };
+    }
+  }
+
+  /**
+   * Change some fields of a plan
+   * The Stripe price of a plan with subscriptions cannot change; add a new plan instead
+   */
+  public async update(id: string, input: Partial<IPlanInput>): Promise<IApiResponse<IPlan>> {
+    try {
+      const existing = await this.planDao.findById(id);
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Plan not found',
+        };
+      }
+
+      if (input.stripe_price_id && input.stripe_price_id !== existing.stripe_price_id) {
+        if ((await this.subscriptionDao.countByPlanId(id)) > 0) {
+          return {
+            success: false,
+            error: 'Plan has subscriptions; create a new plan for another Stripe price',
+          };
+        }
+
+        const conflict = await this.planDao.findByStripePriceId(input.stripe_price_id);
+        if (conflict) {
+          return {
+            success: false,
+            error: 'A plan already uses this Stripe price',
+          };
+        }
+      }
+
+      // Only fields that were given are changed
+      const changes = Object.fromEntries(
+        Object.entries({ ...input, currency: input.currency?.toLowerCase() }).filter(([, value]) => value !== undefined)
+      ) as Partial<IPlanInput>;
+      const plan = (await this.planDao.update(id, changes))!;
+
+      await this.auditService.record({
+        action: AuditAction.PLAN_UPDATED,
+        target_type: 'plan',
+        target_id: id,
+        before: this.snapshot(existing),
+        after: this.snapshot(plan),
+      });
+
+      return {
+        success: true,
+        data: plan,
+        message: 'Plan updated successfully',
+      };
+    } catch (error) {
+      console.error(`Error in PlanService.update (${id}):`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update plan',
+      };
+    }
+  }
+
+  /**
+   * Remove a plan from the catalog
+   * Plans with subscriptions are kept for their history and must be deactivated instead
+   */
+  public async delete(id: string): Promise<IApiResponse> {
+    try {
+      const existing = await this.planDao.findById(id);
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Plan not found',
+        };
+      }
+
+      if ((await this.subscriptionDao.countByPlanId(id)) > 0) {
+        return {
+          success: false,
+          error: 'Plan has subscriptions; deactivate it instead',
+        };
+      }
+
+      await this.planDao.delete(id);
+
+      await this.auditService.record({
+        action: AuditAction.PLAN_DELETED,
+        target_type: 'plan',
+        target_id: id,
+        before: this.snapshot(existing),
+      });
+
+      return {
+        success: true,
+        message: 'Plan deleted successfully',
+      };
+    } catch (error) {
+      console.error(`Error in PlanService.delete (${id}):`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete plan',
+      };
+    }
+  }
+
+  /**
+   * Audited fields of a plan
+   */
+  private snapshot(plan: IPlan): Omit<IPlan, 'id' | 'created_at' | 'updated_at'> {
+    return {
+      name: plan.name,
+      interval: plan.interval,
+      price: plan.price,
+      currency: plan.currency,
+      stripe_price_id: plan.stripe_price_id,
+      entitlements: plan.entitlements,
+      is_active: plan.is_active,
+    };
+  }
+}
+
+export default PlanService;
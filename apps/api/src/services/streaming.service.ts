@@ -1,5 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
-import { IStreamingLink, StreamingProvider } from '@nx-mono-repo-deployment-test/shared';
+import { IStreamingLink, IStreamingLinksResult, StreamingMonetization, StreamingProvider } from '@nx-mono-repo-deployment-test/shared';
 import { appConfig } from '../config/app.config';
 
 /**
@@ -7,7 +7,7 @@ import { appConfig } from '../config/app.config';
  * Defines the contract for streaming link providers
  */
 interface IStreamingProvider {
-  getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]>;
+  getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLink[]>;
 }
 
 /**
@@ -26,57 +26,32 @@ class TMDBStreamingProvider implements IStreamingProvider {
     });
   }
 
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      const response = await this.client.get(`/movie/${tmdbId}/watch/providers`);
-      const providers = response.data.results;
-
-      const links: IStreamingLink[] = [];
-
-      // Process US providers (or first available region)
-      const regionData = providers.US || providers[Object.keys(providers)[0]] || {};
-      
-      // Flatrate providers (subscription services)
-      if (regionData.flatrate) {
-        regionData.flatrate.forEach((provider: { provider_name: string; logo_path: string }) => {
-          links.push({
-            provider: provider.provider_name,
-            url: `https://www.themoviedb.org/movie/${tmdbId}/watch?locale=US`,
-            quality: 'HD',
-            language: 'en',
-          });
-        });
-      }
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLink[]> {
+    const response = await this.client.get(`/movie/${tmdbId}/watch/providers`);
+    const providers = response.data.results || {};
 
-      // Rent providers
-      if (regionData.rent) {
-        regionData.rent.forEach((provider: { provider_name: string; logo_path: string }) => {
-          links.push({
-            provider: `${provider.provider_name} (Rent)`,
-            url: `https://www.themoviedb.org/movie/${tmdbId}/watch?locale=US`,
-            quality: 'HD',
-            language: 'en',
-          });
-        });
-      }
+    const links: IStreamingLink[] = [];
+
+    // Only the requested region - no fallback to other regions
+    const regionData = providers[region] || {};
+    const url = `https://www.themoviedb.org/movie/${tmdbId}/watch?locale=${region}`;
 
-      // Buy providers
-      if (regionData.buy) {
-        regionData.buy.forEach((provider: { provider_name: string; logo_path: string }) => {
-          links.push({
-            provider: `${provider.provider_name} (Buy)`,
-            url: `https://www.themoviedb.org/movie/${tmdbId}/watch?locale=US`,
-            quality: 'HD',
-            language: 'en',
-          });
+    // TMDB groups providers by monetization type (flatrate = subscription services)
+    const monetizations: StreamingMonetization[] = ['flatrate', 'free', 'ads', 'rent', 'buy'];
+    monetizations.forEach((monetization) => {
+      regionData[monetization]?.forEach((provider: { provider_name: string; logo_path: string }) => {
+        links.push({
+          provider: provider.provider_name,
+          url,
+          quality: 'HD',
+          language: 'en',
+          region,
+          monetization,
         });
-      }
+      });
+    });
 
-      return links;
-    } catch (error) {
-      console.error('TMDB streaming links error:', error);
-      return [];
-    }
+    return links;
   }
 }
 
@@ -101,26 +76,24 @@ class VidAPIStreamingProvider implements IStreamingProvider {
     });
   }
 
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      // Example VidAPI endpoint - adjust based on actual API documentation
-      const response = await this.client.get(`/movie/${tmdbId}/streaming`);
-      
-      return response.data.streams?.map((stream: {
-        provider: string;
-        url: string;
-        quality?: string;
-        language?: string;
-      }) => ({
-        provider: stream.provider,
-        url: stream.url,
-        quality: stream.quality || 'HD',
-        language: stream.language || 'en',
-      })) || [];
-    } catch (error) {
-      console.error('VidAPI streaming links error:', error);
-      return [];
-    }
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLink[]> {
+    // Example VidAPI endpoint - adjust based on actual API documentation
+    const response = await this.client.get(`/movie/${tmdbId}/streaming`, {
+      params: { region },
+    });
+    
+    return response.data.streams?.map((stream: {
+      provider: string;
+      url: string;
+      quality?: string;
+      language?: string;
+    }) => ({
+      provider: stream.provider,
+      url: stream.url,
+      quality: stream.quality || 'HD',
+      language: stream.language || 'en',
+      region,
+    })) || [];
   }
 }
 
@@ -145,26 +118,24 @@ class StreamAPIStreamingProvider implements IStreamingProvider {
     });
   }
 
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      // Example StreamAPI endpoint - adjust based on actual API documentation
-      const response = await this.client.get(`/streams/movie/${tmdbId}`);
-      
-      return response.data.links?.map((link: {
-        source: string;
-        url: string;
-        quality?: string;
-        language?: string;
-      }) => ({
-        provider: link.source,
-        url: link.url,
-        quality: link.quality || 'HD',
-        language: link.language || 'en',
-      })) || [];
-    } catch (error) {
-      console.error('StreamAPI streaming links error:', error);
-      return [];
-    }
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLink[]> {
+    // Example StreamAPI endpoint - adjust based on actual API documentation
+    const response = await this.client.get(`/streams/movie/${tmdbId}`, {
+      params: { region },
+    });
+    
+    return response.data.links?.map((link: {
+      source: string;
+      url: string;
+      quality?: string;
+      language?: string;
+    }) => ({
+      provider: link.source,
+      url: link.url,
+      quality: link.quality || 'HD',
+      language: link.language || 'en',
+      region,
+    })) || [];
   }
 }
 
@@ -189,75 +160,138 @@ class WatchmodeStreamingProvider implements IStreamingProvider {
     });
   }
 
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      // Watchmode uses source_id, need to map TMDB ID to Watchmode source_id
-      // This is a simplified example - actual implementation may need ID mapping
-      const response = await this.client.get(`/title/${tmdbId}/sources`);
-      
-      return response.data.sources?.map((source: {
-        name: string;
-        web_url: string;
-        type: string;
-      }) => ({
-        provider: source.name,
-        url: source.web_url,
-        quality: 'HD',
-        language: 'en',
-      })) || [];
-    } catch (error) {
-      console.error('Watchmode streaming links error:', error);
-      return [];
-    }
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLink[]> {
+    // Watchmode uses source_id, need to map TMDB ID to Watchmode source_id
+    // This is a simplified example - actual implementation may need ID mapping
+    const response = await this.client.get(`/title/${tmdbId}/sources`, {
+      params: { regions: region },
+    });
+    
+    return response.data.sources?.map((source: {
+      name: string;
+      web_url: string;
+      type: string;
+      region?: string;
+    }) => ({
+      provider: source.name,
+      url: source.web_url,
+      quality: 'HD',
+      language: 'en',
+      region: source.region || region,
+      monetization: this.mapSourceType(source.type),
+    })) || [];
+  }
+
+  /**
+   * Map Watchmode source type to monetization type
+   */
+  private mapSourceType(type: string): StreamingMonetization | undefined {
+    const typeMap: Record<string, StreamingMonetization> = {
+      sub: 'flatrate',
+      tve: 'flatrate',
+      free: 'free',
+      rent: 'rent',
+      buy: 'buy',
+    };
+    return typeMap[type];
+  }
+}
+
+/**
+ * Create a provider instance for the given provider type
+ * Throws if the provider is missing required configuration
+ */
+function createStreamingProvider(providerType: StreamingProvider): IStreamingProvider {
+  switch (providerType) {
+    case StreamingProvider.VIDAPI:
+      return new VidAPIStreamingProvider();
+    case StreamingProvider.STREAMAPI:
+      return new StreamAPIStreamingProvider();
+    case StreamingProvider.WATCHMODE:
+      return new WatchmodeStreamingProvider();
+    case StreamingProvider.TMDB:
+    default:
+      return new TMDBStreamingProvider();
   }
 }
 
 /**
  * Streaming Service
- * Main service that delegates to the appropriate provider
+ * Queries an ordered chain of providers and merges their results
  */
 class StreamingService {
-  private provider: IStreamingProvider;
+  private providerChain: StreamingProvider[];
+  private providers: Map<StreamingProvider, IStreamingProvider> = new Map();
 
   constructor() {
-    const providerType = appConfig.streaming.provider;
-
-    switch (providerType) {
-      case StreamingProvider.VIDAPI:
-        this.provider = new VidAPIStreamingProvider();
-        break;
-      case StreamingProvider.STREAMAPI:
-        this.provider = new StreamAPIStreamingProvider();
-        break;
-      case StreamingProvider.WATCHMODE:
-        this.provider = new WatchmodeStreamingProvider();
-        break;
-      case StreamingProvider.TMDB:
-      default:
-        this.provider = new TMDBStreamingProvider();
-        break;
-    }
+    this.providerChain = [...appConfig.streaming.providers];
   }
 
   /**
-   * Get streaming links for a movie by TMDB ID
+   * Get streaming links for a movie by TMDB ID in a region
+   * Every provider in the chain is tried in order; links are de-duplicated by
+   * provider name and monetization with earlier providers taking precedence
    */
-  async getStreamingLinks(tmdbId: number): Promise<IStreamingLink[]> {
-    try {
-      return await this.provider.getStreamingLinks(tmdbId);
-    } catch (error) {
-      console.error('Streaming service error:', error);
-      return [];
+  async getStreamingLinks(tmdbId: number, region: string): Promise<IStreamingLinksResult> {
+    const result: IStreamingLinksResult = {
+      region,
+      links: [],
+      answered_by: [],
+      failed_providers: [],
+    };
+    const seenProviders = new Set<string>();
+
+    for (const providerType of this.providerChain) {
+      try {
+        const links = await this.getProviderInstance(providerType).getStreamingLinks(tmdbId, region);
+
+        for (const link of links) {
+          const linkKey = `${link.provider.toLowerCase()}:${link.monetization || ''}`;
+          if (!seenProviders.has(linkKey)) {
+            seenProviders.add(linkKey);
+            result.links.push(link);
+          }
+        }
+
+        result.answered_by.push(providerType);
+      } catch (error) {
+        result.failed_providers.push({
+          provider: providerType,
+          error: error instanceof Error ? error.message : 'Unknown provider error',
+        });
+      }
     }
+
+    return result;
   }
 
   /**
-   * Get current provider
+   * Get current provider chain
    */
-  getProvider(): StreamingProvider {
-    return appConfig.streaming.provider;
+  getProviderChain(): StreamingProvider[] {
+    return [...this.providerChain];
+  }
+
+  /**
+   * Replace the provider chain at runtime (admin override)
+   * Resets to STREAMING_PROVIDERS on restart
+   */
+  setProviderChain(providers: StreamingProvider[]): StreamingProvider[] {
+    this.providerChain = Array.from(new Set(providers));
+    return this.getProviderChain();
+  }
+
+  /**
+   * Get or lazily create the provider instance for a provider type
+   */
+  private getProviderInstance(providerType: StreamingProvider): IStreamingProvider {
+    let provider = this.providers.get(providerType);
+    if (!provider) {
+      provider = createStreamingProvider(providerType);
+      this.providers.set(providerType, provider);
+    }
+    return provider;
   }
 }
 
 export default new StreamingService();
-
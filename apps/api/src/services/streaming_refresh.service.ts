@@ -0,0 +1,94 @@
+import { MovieDao } from '../dao';
+import { appConfig } from '../config/app.config';
+import movieService from './movie.service';
+
+/**
+ * Streaming Refresh Service
+ * Periodically walks the catalog and refreshes streaming links of regions
+ * that are due (stale or past their failure backoff), most popular titles first, so requests are served from the database
+ */
+class StreamingRefreshService {
+  private static instance: StreamingRefreshService;
+  private movieDao: MovieDao;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  private constructor() {
+    this.movieDao = MovieDao.getInstance();
+  }
+
+  /**
+   * Get StreamingRefreshService singleton instance
+   */
+  public static getInstance(): StreamingRefreshService {
+    if (!StreamingRefreshService.instance) {
+      StreamingRefreshService.instance = new StreamingRefreshService();
+    }
+    return StreamingRefreshService.instance;
+  }
+
+  /**
+   * Start the periodic refresh job
+   */
+  public start(): void {
+    const { enabled, intervalMinutes } = appConfig.streaming.refreshJob;
+    if (!enabled || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runBatch().catch((error) => {
+        console.error('Streaming links refresh job failed:', error);
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for the job
+    this.timer.unref();
+    console.log(`✓ Streaming links refresh job scheduled every ${intervalMinutes} minute(s)`);
+  }
+
+  /**
+   * Stop the periodic refresh job
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh one batch of movies with stale or missing streaming links
+   * Skipped when a previous batch is still running
+   * @returns Number of movies refreshed
+   */
+  public async runBatch(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const movies = await this.movieDao.findWithStaleStreamingLinks(
+        new Date(),
+        appConfig.streaming.refreshJob.batchSize
+      );
+
+      let refreshed = 0;
+      for (const movie of movies) {
+        try {
+          await movieService.refreshStreamingLinks(movie);
+          refreshed++;
+        } catch (error) {
+          console.error(`Error refreshing streaming links (${movie.id}):`, error);
+        }
+      }
+
+      return refreshed;
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default StreamingRefreshService;
@@ -1,5 +1,5 @@
 import Stripe from 'stripe';
-import { SubscriptionDao, PaymentDao } from '../dao';
+import { SubscriptionDao, PaymentDao, PlanDao, UserDao } from '../dao';
 import { 
   IApiResponse, 
   ISubscription, 
@@ -20,11 +20,15 @@ class StripeService {
   private initialized: boolean = false;
   private subscriptionDao: SubscriptionDao;
   private paymentDao: PaymentDao;
+  private userDao: UserDao;
+  private planDao: PlanDao;
 
   constructor() {
     // Initialize DAOs
     this.subscriptionDao = SubscriptionDao.getInstance();
     this.paymentDao = PaymentDao.getInstance();
+    this.userDao = UserDao.getInstance();
+    this.planDao = PlanDao.getInstance();
   }
 
   /**
@@ -76,13 +80,73 @@ class StripeService {
   /**
    * Create a Stripe customer
    */
-  async createCustomer(email: string, name?: string): Promise<Stripe.Customer> {
+  async createCustomer(
+    email: string,
+    name?: string,
+    metadata?: Record<string, string>
+  ): Promise<Stripe.Customer> {
     if (!this.isConfigured()) {
       throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
     }
     return await this.getStripe().customers.create({
       email,
       name,
+      metadata: metadata || {},
+    });
+  }
+
+  /**
+   * Get the user's Stripe customer ID, creating the customer on first use
+   */
+  async getOrCreateCustomerId(user: {
+    id: string;
+    email: string;
+    first_name?: string;
+    last_name?: string;
+    stripe_customer_id?: string | null;
+  }): Promise<string> {
+    if (user.stripe_customer_id) {
+      return user.stripe_customer_id;
+    }
+
+    const name = [user.first_name, user.last_name].filter(Boolean).join(' ') || undefined;
+    const customer = await this.createCustomer(user.email, name, { userId: user.id });
+
+    if (!(await this.userDao.setStripeCustomerId(user.id, customer.id))) {
+      // Another request linked a customer first; use that one
+      const current = await this.userDao.findById(user.id);
+      if (!current?.stripe_customer_id) {
+        throw new Error('User not found');
+      }
+      console.warn(`Stripe customer ${customer.id} created for user ${user.id} is unused; ${current.stripe_customer_id} is linked`);
+      return current.stripe_customer_id;
+    }
+
+    return customer.id;
+  }
+
+  /**
+   * Create a hosted Checkout Session subscribing a customer to a price
+   * The user ID is stored on the session and the resulting subscription so
+   * webhooks can link them back to the user
+   */
+  async createCheckoutSession(
+    customerId: string,
+    priceId: string,
+    userId: string
+  ): Promise<Stripe.Checkout.Session> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+    }
+    return await this.getStripe().checkout.sessions.create({
+      mode: 'subscription',
+      customer: customerId,
+      line_items: [{ price: priceId, quantity: 1 }],
+      client_reference_id: userId,
+      metadata: { userId },
+      subscription_data: { metadata: { userId } },
+      success_url: appConfig.stripe.checkout.successUrl,
+      cancel_url: appConfig.stripe.checkout.cancelUrl,
     });
   }
 
@@ -148,6 +212,61 @@ class StripeService {
     return await this.getStripe().subscriptions.update(subscriptionId, updates);
   }
 
+  /**
+   * Create a Billing Portal session for a customer
+   */
+  async createBillingPortalSession(customerId: string): Promise<Stripe.BillingPortal.Session> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+    }
+    return await this.getStripe().billingPortal.sessions.create({
+      customer: customerId,
+      return_url: appConfig.stripe.portalReturnUrl,
+    });
+  }
+
+  /**
+   * Preview the invoice switching a subscription to another price would produce
+   * The change is invoiced immediately, prorated as of prorationDate
+   */
+  async previewPriceChange(
+    subscriptionId: string,
+    priceId: string,
+    prorationDate: number
+  ): Promise<Stripe.Invoice> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+    }
+    const subscription = await this.getSubscription(subscriptionId);
+    return await this.getStripe().invoices.createPreview({
+      customer: typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id,
+      subscription: subscriptionId,
+      subscription_details: {
+        items: [{ id: subscription.items.data[0].id, price: priceId }],
+        proration_behavior: 'always_invoice',
+        proration_date: prorationDate,
+      },
+    });
+  }
+
+  /**
+   * Switch a subscription to another price, invoicing the prorated difference now
+   * Pass the proration date of a preview so the charge matches it
+   */
+  async changeSubscriptionPrice(
+    subscriptionId: string,
+    priceId: string,
+    prorationDate?: number
+  ): Promise<Stripe.Subscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+    return await this.updateSubscription(subscriptionId, {
+      items: [{ id: subscription.items.data[0].id, price: priceId }],
+      proration_behavior: 'always_invoice',
+      proration_date: prorationDate,
+      payment_behavior: 'error_if_incomplete',
+    });
+  }
+
   /**
    * Create payment intent
    */
@@ -190,6 +309,34 @@ class StripeService {
     return await this.getStripe().customers.retrieve(customerId) as Stripe.Customer;
   }
 
+  /**
+   * Delete a customer and the personal data Stripe holds on it
+   * Past invoices and payments stay in Stripe; an already deleted customer is not an error
+   */
+  async deleteCustomer(customerId: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+    }
+    try {
+      await this.getStripe().customers.del(customerId);
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError && error.code === 'resource_missing') {
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get invoice
+   */
+  async getInvoice(invoiceId: string): Promise<Stripe.Invoice> {
+    if (!this.isConfigured()) {
+      throw new Error('Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.');
+    }
+    return await this.getStripe().invoices.retrieve(invoiceId);
+  }
+
   /**
    * List customer's subscriptions
    */
@@ -212,12 +359,15 @@ class StripeService {
   ): Promise<IApiResponse<ISubscription>> {
     try {
       const existingSubscription = await this.subscriptionDao.findByStripeId(stripeSubscription.id);
+      const priceId = stripeSubscription.items.data[0]?.price?.id;
+      const plan = priceId ? await this.planDao.findByStripePriceId(priceId) : null;
 
       const subscriptionData = {
         user_id: userId,
         stripe_subscription_id: stripeSubscription.id,
         status: this.mapStripeStatus(stripeSubscription.status),
         plan_type: this.getPlanType(stripeSubscription),
+        plan_id: plan?.id ?? existingSubscription?.plan_id ?? null, // keep the plan if its price is no longer in the catalog
         start_date: new Date(stripeSubscription.created * 1000),
         end_date: stripeSubscription.cancel_at
           ? new Date(stripeSubscription.cancel_at * 1000)
@@ -292,8 +442,6 @@ class StripeService {
     subscriptionId?: string
   ): Promise<IApiResponse<IPayment>> {
     try {
-      const existingPayment = await this.paymentDao.findByStripePaymentIntentId(paymentIntent.id);
-
       const paymentData = {
         user_id: userId,
         amount: paymentIntent.amount / 100, // Convert from cents
@@ -306,16 +454,12 @@ class StripeService {
         },
       };
 
-      let paymentModel;
-      if (existingPayment) {
-        paymentModel = (await this.paymentDao.updateByStripePaymentIntentId(paymentIntent.id, {
-          status: paymentData.status,
-          amount: paymentData.amount,
-          metadata: paymentData.metadata,
-        }))!;
-      } else {
-        paymentModel = await this.paymentDao.create(paymentData);
-      }
+      // invoice.paid may record the same payment intent concurrently
+      const paymentModel = await this.paymentDao.upsertByStripePaymentIntentId(paymentData, [
+        'status',
+        'amount',
+        'metadata',
+      ]);
 
       // Convert model to plain interface object
       const payment: IPayment = {
@@ -345,6 +489,65 @@ class StripeService {
     }
   }
 
+  /**
+   * Create or update the payment record for an invoice's payment intent
+   * Links the payment to the subscription the invoice bills
+   */
+  async syncInvoicePaymentToDatabase(
+    invoice: Stripe.Invoice,
+    userId: string,
+    subscriptionId: string | undefined,
+    status: PaymentStatus
+  ): Promise<IApiResponse<IPayment>> {
+    try {
+      const paymentIntentId = typeof invoice.payment_intent === 'string'
+        ? invoice.payment_intent
+        : invoice.payment_intent?.id;
+      if (!paymentIntentId) {
+        return {
+          success: false,
+          error: 'Invoice has no payment intent',
+        };
+      }
+
+      const amount = (status === PaymentStatus.SUCCEEDED ? invoice.amount_paid : invoice.amount_due) / 100; // Convert from cents
+      // payment_intent.succeeded may record the same payment intent concurrently
+      const paymentModel = await this.paymentDao.upsertByStripePaymentIntentId(
+        {
+          user_id: userId,
+          amount,
+          currency: invoice.currency,
+          status,
+          stripe_payment_intent_id: paymentIntentId,
+          subscription_id: subscriptionId,
+        },
+        subscriptionId ? ['status', 'amount', 'subscription_id'] : ['status', 'amount']
+      );
+
+      return {
+        success: true,
+        data: {
+          id: paymentModel.id,
+          user_id: paymentModel.user_id,
+          amount: paymentModel.amount,
+          currency: paymentModel.currency,
+          status: paymentModel.status,
+          stripe_payment_intent_id: paymentModel.stripe_payment_intent_id,
+          subscription_id: paymentModel.subscription_id ?? undefined,
+          created_at: paymentModel.created_at,
+          updated_at: paymentModel.updated_at,
+        },
+        message: 'Payment synced successfully',
+      };
+    } catch (error) {
+      console.error('Error in StripeService.syncInvoicePaymentToDatabase:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to sync payment',
+      };
+    }
+  }
+
   /**
    * Map Stripe payment status to our status enum
    */
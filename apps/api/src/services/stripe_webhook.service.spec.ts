@@ -0,0 +1,166 @@
+import { beforeEach, describe, test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import Stripe from 'stripe';
+import { IStripeEvent, StripeEventStatus } from '@nx-mono-repo-deployment-test/shared';
+import { StripeEventDao } from '../dao';
+import AuditService from './audit.service';
+import StripeWebhookService from './stripe_webhook.service';
+
+const EVENT = { id: 'evt_1', type: 'invoice.paid', data: { object: {} } } as unknown as Stripe.Event;
+
+let events: Map<string, IStripeEvent>;
+let dispatched: number;
+let dispatchError: Error | null;
+
+beforeEach(() => {
+  events = new Map();
+  dispatched = 0;
+  dispatchError = null;
+});
+
+/**
+ * Back StripeEventDao with an in-memory table and count handler runs
+ */
+function setup(t: TestContext): StripeWebhookService {
+  const stripeEventDao = StripeEventDao.getInstance();
+  const service = StripeWebhookService.getInstance();
+
+  t.mock.method(stripeEventDao, 'findById', async (id: string) => {
+    const event = events.get(id);
+    return event ? { ...event } : null;
+  });
+  t.mock.method(stripeEventDao, 'findOrCreate', async (data: Pick<IStripeEvent, 'stripe_event_id' | 'type' | 'payload'>) => {
+    const existing = [...events.values()].find((event) => event.stripe_event_id === data.stripe_event_id);
+    if (existing) {
+      return { event: { ...existing }, created: false };
+    }
+    const event: IStripeEvent = {
+      ...data,
+      id: `row_${events.size + 1}`,
+      status: StripeEventStatus.PROCESSING,
+      attempts: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    events.set(event.id, event);
+    return { event: { ...event }, created: true };
+  });
+  t.mock.method(stripeEventDao, 'claim', async (id: string, staleBefore: Date) => {
+    const event = events.get(id);
+    const claimable = event && (
+      event.status === StripeEventStatus.FAILED ||
+      (event.status === StripeEventStatus.PROCESSING && event.updated_at < staleBefore)
+    );
+    if (!event || !claimable) {
+      return false;
+    }
+    Object.assign(event, { status: StripeEventStatus.PROCESSING, attempts: event.attempts + 1, updated_at: new Date() });
+    return true;
+  });
+  t.mock.method(stripeEventDao, 'markDone', async (id: string, status: StripeEventStatus) => {
+    Object.assign(events.get(id)!, { status, last_error: null, processed_at: new Date(), updated_at: new Date() });
+  });
+  t.mock.method(stripeEventDao, 'markFailed', async (id: string, lastError: string) => {
+    Object.assign(events.get(id)!, { status: StripeEventStatus.FAILED, last_error: lastError, updated_at: new Date() });
+  });
+
+  t.mock.method(AuditService.getInstance(), 'record', async () => undefined);
+  t.mock.method(service as unknown as { dispatch(event: Stripe.Event): Promise<boolean> }, 'dispatch', async () => {
+    dispatched++;
+    if (dispatchError) {
+      throw dispatchError;
+    }
+    return true;
+  });
+
+  return service;
+}
+
+function storedEvent(): IStripeEvent {
+  return [...events.values()][0];
+}
+
+describe('StripeWebhookService.handleEvent', () => {
+  test('should apply an event once and skip its redeliveries', async (t) => {
+    const service = setup(t);
+
+    assert.equal(await service.handleEvent(EVENT), StripeEventStatus.PROCESSED);
+    assert.equal(await service.handleEvent(EVENT), 'duplicate');
+    assert.equal(await service.handleEvent(EVENT), 'duplicate');
+
+    assert.equal(dispatched, 1);
+    assert.equal(storedEvent().status, StripeEventStatus.PROCESSED);
+    assert.equal(events.size, 1);
+  });
+
+  test('should skip a redelivery while the event is still processing', async (t) => {
+    const service = setup(t);
+    await StripeEventDao.getInstance().findOrCreate({
+      stripe_event_id: EVENT.id,
+      type: EVENT.type,
+      payload: EVENT as unknown as Record<string, unknown>,
+    });
+
+    assert.equal(await service.handleEvent(EVENT), 'duplicate');
+    assert.equal(dispatched, 0);
+
+    // Once the first attempt has been processing for too long, a redelivery takes over
+    storedEvent().updated_at = new Date(Date.now() - 11 * 60 * 1000);
+    assert.equal(await service.handleEvent(EVENT), StripeEventStatus.PROCESSED);
+    assert.equal(dispatched, 1);
+  });
+
+  test('should record a failure and retry it on redelivery', async (t) => {
+    const service = setup(t);
+    dispatchError = new Error('Stripe API unavailable');
+
+    await assert.rejects(service.handleEvent(EVENT), /Stripe API unavailable/);
+    assert.equal(storedEvent().status, StripeEventStatus.FAILED);
+    assert.equal(storedEvent().last_error, 'Stripe API unavailable');
+
+    dispatchError = null;
+    assert.equal(await service.handleEvent(EVENT), StripeEventStatus.PROCESSED);
+    assert.equal(await service.handleEvent(EVENT), 'duplicate');
+    assert.equal(dispatched, 2);
+    assert.equal(storedEvent().attempts, 2);
+    assert.equal(storedEvent().last_error, null);
+  });
+});
+
+describe('StripeWebhookService.replay', () => {
+  test('should process a failed event again from its stored payload', async (t) => {
+    const service = setup(t);
+    dispatchError = new Error('Stripe API unavailable');
+    await assert.rejects(service.handleEvent(EVENT));
+    dispatchError = null;
+
+    const result = await service.replay(storedEvent().id);
+    assert.equal(result.success, true);
+    assert.equal(result.data!.status, StripeEventStatus.PROCESSED);
+    assert.equal(dispatched, 2);
+
+    // A processed event is not replayed, and its redeliveries stay duplicates
+    const again = await service.replay(storedEvent().id);
+    assert.equal(again.error, 'Only failed events can be replayed');
+    assert.equal(await service.handleEvent(EVENT), 'duplicate');
+    assert.equal(dispatched, 2);
+  });
+
+  test('should keep the event failed when the replay fails', async (t) => {
+    const service = setup(t);
+    dispatchError = new Error('Stripe API unavailable');
+    await assert.rejects(service.handleEvent(EVENT));
+
+    const result = await service.replay(storedEvent().id);
+    assert.equal(result.error, 'Replay failed: Stripe API unavailable');
+    assert.equal(storedEvent().status, StripeEventStatus.FAILED);
+  });
+
+  test('should refuse unknown events', async (t) => {
+    const service = setup(t);
+
+    const result = await service.replay('missing');
+    assert.equal(result.error, 'Stripe event not found');
+    assert.equal(dispatched, 0);
+  });
+});
@@ -0,0 +1,628 @@
+import Stripe from 'stripe';
+import { PaymentDao, StripeEventDao, SubscriptionDao, UserDao } from '../dao';
+import { SubscriptionModel } from '../models';
+import { AuditAction, AuditActorType, IApiResponse, IStripeEvent, IStripeEventPage, ISubscription, PaymentStatus, StripeEventStatus, SubscriptionStatus } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+import { paymentFailedEmail, refundIssuedEmail, subscriptionStartedEmail, trialEndingEmail } from '../utils/mail-templates';
+import stripeService from './stripe.service';
+import AuditService from './audit.service';
+import { IMailer, IMailMessage, createMailer } from './mailer.service';
+
+/**
+ * How long an event may stay "processing" before a redelivery may take it over
+ */
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Outcome of receiving a webhook event
+ */
+export type StripeWebhookOutcome = StripeEventStatus.PROCESSED | StripeEventStatus.IGNORED | 'duplicate';
+
+/**
+ * Stripe Webhook Service
+ * Stores every received event and applies it to the database exactly once
+ * Redeliveries of processed events are skipped; failed events are retried on
+ * redelivery and can be replayed by billing staff
+ * Payments are linked to the subscription their invoice bills, and users are
+ * emailed about checkout, failed payments, refunds and ending trials
+ */
+class StripeWebhookService {
+  private static instance: StripeWebhookService;
+  private stripeEventDao: StripeEventDao;
+  private subscriptionDao: SubscriptionDao;
+  private paymentDao: PaymentDao;
+  private userDao: UserDao;
+  private auditService: AuditService;
+  private mailer: IMailer | null = null;
+
+  private constructor() {
+    this.stripeEventDao = StripeEventDao.getInstance();
+    this.subscriptionDao = SubscriptionDao.getInstance();
+    this.paymentDao = PaymentDao.getInstance();
+    this.userDao = UserDao.getInstance();
+    this.auditService = AuditService.getInstance();
+  }
+
+  /**
+   * Get StripeWebhookService singleton instance
+   */
+  public static getInstance(): StripeWebhookService {
+    if (!StripeWebhookService.instance) {
+      StripeWebhookService.instance = new StripeWebhookService();
+    }
+    return StripeWebhookService.instance;
+  }
+
+  /**
+   * Store and process a verified event
+   * Throws when processing fails so Stripe redelivers it
+   */
+  public async handleEvent(event: Stripe.Event): Promise<StripeWebhookOutcome> {
+    const { event: stored, created } = await this.stripeEventDao.findOrCreate({
+      stripe_event_id: event.id,
+      type: event.type,
+      payload: event as unknown as Record<string, unknown>,
+    });
+
+    if (!created && !(await this.stripeEventDao.claim(stored.id, new Date(Date.now() - PROCESSING_TIMEOUT_MS)))) {
+      return 'duplicate';
+    }
+
+    return this.process(stored.id, event);
+  }
+
+  /**
+   * Process a failed event again from its stored payload
+   */
+  public async replay(id: string): Promise<IApiResponse<IStripeEvent>> {
+    try {
+      const stored = await this.stripeEventDao.findById(id);
+      if (!stored) {
+        return {
+          success: false,
+          error: 'Stripe event not found',
+        };
+      }
+
+      if (stored.status !== StripeEventStatus.FAILED) {
+        return {
+          success: false,
+          error: 'Only failed events can be replayed',
+        };
+      }
+
+      if (!(await this.stripeEventDao.claim(id, new Date(Date.now() - PROCESSING_TIMEOUT_MS)))) {
+        return {
+          success: false,
+          error: 'Event is already being processed',
+        };
+      }
+
+      let replayError: string | null = null;
+      try {
+        await this.process(id, stored.payload as unknown as Stripe.Event);
+      } catch (error) {
+        replayError = error instanceof Error ? error.message : 'Replay failed';
+      }
+
+      await this.auditService.record({
+        action: AuditAction.STRIPE_EVENT_REPLAYED,
+        target_type: 'stripe_event',
+        target_id: id,
+        metadata: { stripe_event_id: stored.stripe_event_id, stripe_event_type: stored.type, error: replayError },
+      });
+
+      const updated = await this.stripeEventDao.findById(id);
+      if (replayError) {
+        return {
+          success: false,
+          error: `Replay failed: ${replayError}`,
+          details: updated,
+        };
+      }
+
+      return {
+        success: true,
+        data: updated!,
+        message: 'Stripe event replayed',
+      };
+    } catch (error) {
+      console.error(`Error in StripeWebhookService.replay (${id}):`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to replay Stripe event',
+      };
+    }
+  }
+
+  /**
+   * List received events, newest first
+   */
+  public async list(
+    filters: { status?: StripeEventStatus; type?: string },
+    page: number,
+    limit: number
+  ): Promise<IApiResponse<IStripeEventPage>> {
+    try {
+      const { rows, count } = await this.stripeEventDao.findAll(filters, { limit, offset: (page - 1) * limit });
+
+      return {
+        success: true,
+        data: { data: rows, count, page, limit },
+      };
+    } catch (error) {
+      console.error('Error in StripeWebhookService.list:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get Stripe events',
+      };
+    }
+  }
+
+  /**
+   * Apply a claimed event and record the result
+   */
+  private async process(id: string, event: Stripe.Event): Promise<StripeWebhookOutcome> {
+    try {
+      const handled = await this.dispatch(event);
+      const status = handled ? StripeEventStatus.PROCESSED : StripeEventStatus.IGNORED;
+      await this.stripeEventDao.markDone(id, status);
+      return status;
+    } catch (error) {
+      console.error(`Error processing Stripe event (${event.id}):`, error);
+      await this.stripeEventDao.markFailed(id, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Route an event to its handler
+   * Returns false for event types that are not handled
+   */
+  private async dispatch(event: Stripe.Event): Promise<boolean> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await this.handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session, event);
+        return true;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        await this.handleSubscriptionUpdate(event.data.object as Stripe.Subscription, event);
+        return true;
+
+      case 'customer.subscription.deleted':
+        await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription, event);
+        return true;
+
+      case 'customer.subscription.trial_will_end':
+        await this.handleTrialWillEnd(event.data.object as Stripe.Subscription);
+        return true;
+
+      case 'invoice.paid':
+        await this.handleInvoicePaid(event.data.object as Stripe.Invoice, event);
+        return true;
+
+      case 'invoice.payment_failed':
+        await this.handleInvoicePaymentFailed(event.data.object as Stripe.Invoice, event);
+        return true;
+
+      case 'payment_intent.succeeded':
+        await this.handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent, event);
+        return true;
+
+      case 'payment_intent.payment_failed':
+        await this.handlePaymentFailed(event.data.object as Stripe.PaymentIntent, event);
+        return true;
+
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event.data.object as Stripe.Charge, event);
+        return true;
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`);
+        return false;
+    }
+  }
+
+  /**
+   * Handle completed checkout
+   * Links the Stripe customer to the user and syncs the new subscription
+   */
+  private async handleCheckoutCompleted(session: Stripe.Checkout.Session, event: Stripe.Event): Promise<void> {
+    if (session.mode !== 'subscription') {
+      return;
+    }
+
+    const userId = session.client_reference_id || session.metadata?.userId;
+    const stripeSubscriptionId = idOf(session.subscription);
+    if (!userId || !stripeSubscriptionId) {
+      console.error(`Checkout session ${session.id} has no user or subscription`);
+      return;
+    }
+
+    const customerId = idOf(session.customer);
+    if (customerId) {
+      await this.userDao.setStripeCustomerId(userId, customerId);
+    }
+
+    const stripeSubscription = await stripeService.getSubscription(stripeSubscriptionId);
+    const result = await stripeService.syncSubscriptionToDatabase(stripeSubscription, userId);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to sync subscription');
+    }
+    await this.syncUserStatus(userId);
+
+    await this.recordEvent(event, AuditAction.STRIPE_CHECKOUT_COMPLETED, 'subscription', result.data.id, {
+      after: { status: result.data.status, plan_type: result.data.plan_type, end_date: result.data.end_date },
+      metadata: { user_id: userId, checkout_session_id: session.id },
+    });
+
+    this.notify(userId, (email) => subscriptionStartedEmail(email, `${appConfig.mail.appUrl}/subscription`));
+  }
+
+  /**
+   * Handle subscription update
+   */
+  private async handleSubscriptionUpdate(stripeSubscription: Stripe.Subscription, event: Stripe.Event): Promise<void> {
+    const userId = await this.resolveUserId(stripeSubscription.metadata?.userId, stripeSubscription.customer);
+    if (!userId) {
+      console.error('No userId in subscription metadata');
+      return;
+    }
+
+    const before = await SubscriptionModel.findOne({
+      where: { stripe_subscription_id: stripeSubscription.id },
+    });
+    const result = await stripeService.syncSubscriptionToDatabase(stripeSubscription, userId);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to sync subscription');
+    }
+    await this.syncUserStatus(userId);
+
+    await this.recordEvent(event, AuditAction.STRIPE_SUBSCRIPTION_SYNCED, 'subscription', result.data.id, {
+      before: before ? { status: before.status, plan_type: before.plan_type, end_date: before.end_date } : null,
+      after: { status: result.data.status, plan_type: result.data.plan_type, end_date: result.data.end_date },
+    });
+  }
+
+  /**
+   * Handle subscription deleted
+   */
+  private async handleSubscriptionDeleted(stripeSubscription: Stripe.Subscription, event: Stripe.Event): Promise<void> {
+    const subscription = await SubscriptionModel.findOne({
+      where: { stripe_subscription_id: stripeSubscription.id },
+    });
+
+    if (subscription) {
+      const before = { status: subscription.status, cancelled_at: subscription.cancelled_at };
+      await subscription.update({
+        status: 'cancelled',
+        cancelled_at: new Date(),
+      });
+      await this.syncUserStatus(subscription.user_id);
+
+      await this.recordEvent(event, AuditAction.STRIPE_SUBSCRIPTION_DELETED, 'subscription', subscription.id, {
+        before,
+        after: { status: subscription.status, cancelled_at: subscription.cancelled_at },
+      });
+    }
+  }
+
+  /**
+   * Handle trial ending soon (sent three days before the trial ends)
+   */
+  private async handleTrialWillEnd(stripeSubscription: Stripe.Subscription): Promise<void> {
+    const userId = await this.resolveUserId(stripeSubscription.metadata?.userId, stripeSubscription.customer);
+    if (!userId || !stripeSubscription.trial_end) {
+      return;
+    }
+
+    const trialEnd = new Date(stripeSubscription.trial_end * 1000);
+    this.notify(userId, (email) => trialEndingEmail(email, trialEnd, `${appConfig.mail.appUrl}/subscription`));
+  }
+
+  /**
+   * Handle paid invoice
+   * Records the payment against the subscription the invoice bills
+   */
+  private async handleInvoicePaid(invoice: Stripe.Invoice, event: Stripe.Event): Promise<void> {
+    const userId = await this.resolveUserId(invoice.subscription_details?.metadata?.userId, invoice.customer);
+    if (!userId) {
+      console.error(`No user for invoice ${invoice.id}`);
+      return;
+    }
+
+    // Take the status from Stripe, so the user status derived below sees the paid subscription as active
+    const subscription = await this.syncFromStripe(idOf(invoice.subscription), userId);
+
+    if (invoice.payment_intent) {
+      const result = await stripeService.syncInvoicePaymentToDatabase(invoice, userId, subscription?.id, PaymentStatus.SUCCEEDED);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to sync payment');
+      }
+    }
+
+    if (subscription) {
+      await this.syncUserStatus(userId);
+    }
+
+    await this.recordEvent(event, AuditAction.STRIPE_INVOICE_PAID, 'invoice', invoice.id, {
+      metadata: {
+        user_id: userId,
+        subscription_id: subscription?.id ?? null,
+        amount: invoice.amount_paid,
+        currency: invoice.currency,
+      },
+    });
+  }
+
+  /**
+   * Handle failed invoice payment
+   * The subscription is past due until Stripe's retries succeed or give up
+   */
+  private async handleInvoicePaymentFailed(invoice: Stripe.Invoice, event: Stripe.Event): Promise<void> {
+    const userId = await this.resolveUserId(invoice.subscription_details?.metadata?.userId, invoice.customer);
+    if (!userId) {
+      console.error(`No user for invoice ${invoice.id}`);
+      return;
+    }
+
+    // Take the status from Stripe: a failed renewal makes the subscription past
+    // due, a failed first invoice leaves it incomplete (not entitled)
+    const subscription = await this.syncFromStripe(idOf(invoice.subscription), userId);
+
+    if (invoice.payment_intent) {
+      const result = await stripeService.syncInvoicePaymentToDatabase(invoice, userId, subscription?.id, PaymentStatus.FAILED);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to sync payment');
+      }
+    }
+
+    if (subscription) {
+      await this.syncUserStatus(userId);
+    }
+
+    await this.recordEvent(event, AuditAction.STRIPE_INVOICE_PAYMENT_FAILED, 'invoice', invoice.id, {
+      metadata: {
+        user_id: userId,
+        subscription_id: subscription?.id ?? null,
+        amount: invoice.amount_due,
+        currency: invoice.currency,
+        attempt_count: invoice.attempt_count,
+      },
+    });
+
+    const payUrl = invoice.hosted_invoice_url || `${appConfig.mail.appUrl}/subscription`;
+    const nextAttempt = invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null;
+    this.notify(userId, (email) => paymentFailedEmail(email, invoice.amount_due / 100, invoice.currency, payUrl, nextAttempt));
+  }
+
+  /**
+   * Handle payment succeeded
+   */
+  private async handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent, event: Stripe.Event): Promise<void> {
+    const userId = await this.resolveUserId(paymentIntent.metadata?.userId, paymentIntent.customer);
+    if (!userId) {
+      console.error('No userId in payment intent metadata');
+      return;
+    }
+
+    const subscriptionId = await this.findSubscriptionIdForInvoice(paymentIntent.invoice, userId);
+
+    const result = await stripeService.syncPaymentToDatabase(
+      paymentIntent,
+      userId,
+      subscriptionId
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to sync payment');
+    }
+
+    await this.recordEvent(event, AuditAction.STRIPE_PAYMENT_SUCCEEDED, 'payment_intent', paymentIntent.id, {
+      metadata: { user_id: userId, amount: paymentIntent.amount, currency: paymentIntent.currency },
+    });
+  }
+
+  /**
+   * Handle payment failed
+   */
+  private async handlePaymentFailed(paymentIntent: Stripe.PaymentIntent, event: Stripe.Event): Promise<void> {
+    const userId = await this.resolveUserId(paymentIntent.metadata?.userId, paymentIntent.customer);
+    if (!userId) {
+      return;
+    }
+
+    const subscriptionId = await this.findSubscriptionIdForInvoice(paymentIntent.invoice, userId);
+
+    const result = await stripeService.syncPaymentToDatabase(
+      paymentIntent,
+      userId,
+      subscriptionId
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to sync payment');
+    }
+
+    await this.recordEvent(event, AuditAction.STRIPE_PAYMENT_FAILED, 'payment_intent', paymentIntent.id, {
+      metadata: {
+        user_id: userId,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        failure_code: paymentIntent.last_payment_error?.code ?? null,
+      },
+    });
+  }
+
+  /**
+   * Handle refunded charge
+   * The payment is marked refunded once the full amount has been returned
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge, event: Stripe.Event): Promise<void> {
+    const paymentIntentId = idOf(charge.payment_intent);
+    if (!paymentIntentId) {
+      return;
+    }
+
+    const payment = await this.paymentDao.findByStripePaymentIntentId(paymentIntentId);
+    if (!payment) {
+      console.error(`No payment for refunded charge ${charge.id}`);
+      return;
+    }
+
+    const before = { status: payment.status };
+    if (charge.refunded) {
+      await this.paymentDao.updateByStripePaymentIntentId(paymentIntentId, { status: PaymentStatus.REFUNDED });
+    }
+
+    await this.recordEvent(event, AuditAction.STRIPE_CHARGE_REFUNDED, 'payment', payment.id, {
+      before,
+      after: { status: charge.refunded ? PaymentStatus.REFUNDED : payment.status },
+      metadata: {
+        user_id: payment.user_id,
+        amount_refunded: charge.amount_refunded,
+        currency: charge.currency,
+      },
+    });
+
+    this.notify(payment.user_id, (email) => refundIssuedEmail(email, charge.amount_refunded / 100, charge.currency));
+  }
+
+  /**
+   * The user an object belongs to, from its metadata or its linked Stripe customer
+   */
+  private async resolveUserId(
+    metadataUserId: string | undefined,
+    customer: string | Stripe.Customer | Stripe.DeletedCustomer | null
+  ): Promise<string | null> {
+    if (metadataUserId) {
+      return metadataUserId;
+    }
+
+    const customerId = idOf(customer);
+    if (!customerId) {
+      return null;
+    }
+
+    const user = await this.userDao.findByStripeCustomerId(customerId);
+    return user?.id ?? null;
+  }
+
+  /**
+   * The local record of a Stripe subscription, synced from Stripe when it has not arrived yet
+   */
+  private async findLocalSubscription(
+    stripeSubscriptionId: string | null,
+    userId: string
+  ): Promise<ISubscription | null> {
+    if (!stripeSubscriptionId) {
+      return null;
+    }
+
+    const subscription = await this.subscriptionDao.findByStripeId(stripeSubscriptionId);
+    return subscription ?? this.syncFromStripe(stripeSubscriptionId, userId);
+  }
+
+  /**
+   * Sync a subscription's current state from Stripe
+   */
+  private async syncFromStripe(stripeSubscriptionId: string | null, userId: string): Promise<ISubscription | null> {
+    if (!stripeSubscriptionId) {
+      return null;
+    }
+
+    const result = await stripeService.syncSubscriptionToDatabase(
+      await stripeService.getSubscription(stripeSubscriptionId),
+      userId
+    );
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to sync subscription');
+    }
+    return result.data;
+  }
+
+  /**
+   * The local subscription billed by a payment intent's invoice, if any
+   */
+  private async findSubscriptionIdForInvoice(
+    invoice: string | Stripe.Invoice | null,
+    userId: string
+  ): Promise<string | undefined> {
+    if (!invoice) {
+      return undefined;
+    }
+
+    const stripeInvoice = typeof invoice === 'string' ? await stripeService.getInvoice(invoice) : invoice;
+    const subscription = await this.findLocalSubscription(idOf(stripeInvoice.subscription), userId);
+    return subscription?.id;
+  }
+
+  /**
+   * Derive the user's status from all of their subscriptions, not just the one an event is about
+   * Any entitled subscription makes the user active; otherwise cancelled wins over inactive
+   */
+  private async syncUserStatus(userId: string): Promise<void> {
+    const userStatus: Record<SubscriptionStatus, string> = {
+      [SubscriptionStatus.ACTIVE]: 'active',
+      [SubscriptionStatus.TRIALING]: 'active',
+      [SubscriptionStatus.PAST_DUE]: 'active', // still entitled while Stripe retries
+      [SubscriptionStatus.CANCELLED]: 'cancelled',
+      [SubscriptionStatus.INACTIVE]: 'inactive',
+    };
+    const statuses = (await this.subscriptionDao.findAllByUserId(userId))
+      .map((subscription) => userStatus[subscription.status] || 'inactive');
+    const status = ['active', 'cancelled'].find((candidate) => statuses.includes(candidate)) || 'inactive';
+
+    await this.userDao.updateSubscriptionStatus(userId, status);
+  }
+
+  /**
+   * Email a user in the background; failures are logged and never fail the event
+   */
+  private notify(userId: string, build: (email: string) => IMailMessage): void {
+    this.userDao
+      .findById(userId)
+      .then((user) => {
+        if (!user || user.anonymized_at) {
+          return;
+        }
+        if (!this.mailer) {
+          this.mailer = createMailer();
+        }
+        return this.mailer.send(build(user.email));
+      })
+      .catch((error) => console.error(`Error sending billing email (${userId}):`, error));
+  }
+
+  /**
+   * Record a change made by a Stripe event in the audit log
+   */
+  private async recordEvent(
+    event: Stripe.Event,
+    action: AuditAction,
+    targetType: string,
+    targetId: string | undefined,
+    details: { before?: object | null; after?: object | null; metadata?: Record<string, unknown> }
+  ): Promise<void> {
+    await this.auditService.record({
+      action,
+      actor_type: AuditActorType.STRIPE,
+      target_type: targetType,
+      target_id: targetId,
+      before: details.before,
+      after: details.after,
+      metadata: { ...details.metadata, stripe_event_id: event.id, stripe_event_type: event.type },
+    });
+  }
+}
+
+/**
+ * ID of an expandable Stripe reference
+ */
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+}
+
+export default StripeWebhookService;
@@ -0,0 +1,134 @@
+import { SubtitleDao } from '../dao';
+import { IApiResponse, ISubtitle, SubtitleFormat, SubtitleLanguage } from '@nx-mono-repo-deployment-test/shared';
+import {
+  SubtitleParseError,
+  detectSubtitleFormat,
+  formatSrt,
+  formatSubtitles,
+  getSubtitleContentType,
+  parseSubtitles,
+} from '../utils/subtitle-parser';
+
+/**
+ * Service layer for Subtitle business logic
+ * Tracks are stored normalized as SRT and converted on the way out
+ */
+class SubtitleService {
+  private static instance: SubtitleService;
+  private subtitleDao: SubtitleDao;
+
+  private constructor() {
+    this.subtitleDao = SubtitleDao.getInstance();
+  }
+
+  /**
+   * Get SubtitleService singleton instance
+   */
+  public static getInstance(): SubtitleService {
+    if (!SubtitleService.instance) {
+      SubtitleService.instance = new SubtitleService();
+    }
+    return SubtitleService.instance;
+  }
+
+  /**
+   * Parse, validate and store a subtitle track
+   * Replaces any existing track for the same movie and language
+   */
+  public async uploadSubtitle(
+    movieId: string,
+    data: { language: SubtitleLanguage; content: string; format?: SubtitleFormat }
+  ): Promise<IApiResponse<ISubtitle>> {
+    try {
+      const format = data.format || detectSubtitleFormat(data.content);
+      const cues = parseSubtitles(data.content, format);
+
+      const subtitle = await this.subtitleDao.upsert({
+        movie_id: movieId,
+        language: data.language,
+        srt_content: formatSrt(cues),
+      });
+
+      return {
+        success: true,
+        data: { ...subtitle, cue_count: cues.length },
+        message: 'Subtitle uploaded successfully',
+      };
+    } catch (error) {
+      if (error instanceof SubtitleParseError) {
+        return {
+          success: false,
+          error: 'Invalid subtitle file',
+          details: { message: error.message, cue: error.cue },
+        };
+      }
+
+      console.error('Error in SubtitleService.uploadSubtitle:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to upload subtitle',
+      };
+    }
+  }
+
+  /**
+   * List subtitle tracks available for a movie
+   */
+  public async getSubtitles(movieId: string): Promise<IApiResponse<ISubtitle[]>> {
+    try {
+      const subtitles = await this.subtitleDao.findByMovieId(movieId);
+
+      return {
+        success: true,
+        data: subtitles,
+      };
+    } catch (error) {
+      console.error('Error in SubtitleService.getSubtitles:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get subtitles',
+      };
+    }
+  }
+
+  /**
+   * Get a subtitle track rendered in the requested format
+   * Returns data: null when the track does not exist or is not completed yet
+   */
+  public async getSubtitleTrack(
+    movieId: string,
+    language: SubtitleLanguage,
+    format: SubtitleFormat
+  ): Promise<IApiResponse<{ content: string; contentType: string } | null>> {
+    try {
+      const subtitle = await this.subtitleDao.findByMovieAndLanguage(movieId, language);
+
+      if (!subtitle || !subtitle.srt_content || subtitle.translation_status !== 'completed') {
+        return {
+          success: true,
+          data: null,
+        };
+      }
+
+      const content = format === 'srt'
+        ? subtitle.srt_content
+        : formatSubtitles(parseSubtitles(subtitle.srt_content, 'srt'), format);
+
+      return {
+        success: true,
+        data: {
+          content,
+          contentType: getSubtitleContentType(format),
+        },
+      };
+    } catch (error) {
+      console.error('Error in SubtitleService.getSubtitleTrack:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get subtitle track',
+      };
+    }
+  }
+}
+
+export default SubtitleService;
@@ -0,0 +1,278 @@
+import { SubtitleDao } from '../dao';
+import { IApiResponse, ISubtitle, ISubtitleCue, SubtitleLanguage, SubtitleTranslationStatus } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+import { formatSrt, parseSubtitles } from '../utils/subtitle-parser';
+import { ITranslator, createTranslator } from './translator.service';
+
+const SOURCE_LANGUAGE: SubtitleLanguage = 'en';
+const TARGET_LANGUAGE: SubtitleLanguage = 'si';
+
+/**
+ * Subtitle Translation Service
+ * Translates English subtitle tracks to Sinhala in cue batches.
+ * Jobs are the AI-translated subtitle rows themselves; translation_status
+ * tracks progress (pending → processing → completed/failed) and an
+ * in-process queue works through them one at a time.
+ */
+class SubtitleTranslationService {
+  private static instance: SubtitleTranslationService;
+  private subtitleDao: SubtitleDao;
+  private translator: ITranslator | null = null;
+  private queue: string[] = [];
+  private draining: boolean = false;
+
+  private constructor() {
+    this.subtitleDao = SubtitleDao.getInstance();
+  }
+
+  /**
+   * Get SubtitleTranslationService singleton instance
+   */
+  public static getInstance(): SubtitleTranslationService {
+    if (!SubtitleTranslationService.instance) {
+      SubtitleTranslationService.instance = new SubtitleTranslationService();
+    }
+    return SubtitleTranslationService.instance;
+  }
+
+  /**
+   * Queue a Sinhala translation of a movie's English track
+   * Re-translates existing AI tracks; never overwrites a manually uploaded one
+   */
+  public async enqueueTranslation(movieId: string): Promise<IApiResponse<ISubtitle>> {
+    try {
+      const source = await this.subtitleDao.findByMovieAndLanguage(movieId, SOURCE_LANGUAGE);
+      if (!source || !source.srt_content || source.translation_status !== 'completed') {
+        return {
+          success: false,
+          error: 'Movie has no completed English subtitle track',
+        };
+      }
+
+      const existing = await this.subtitleDao.findByMovieAndLanguage(movieId, TARGET_LANGUAGE);
+      if (existing && !existing.translated_by_ai) {
+        return {
+          success: false,
+          error: 'A manually uploaded Sinhala track already exists',
+        };
+      }
+
+      if (existing && ['pending', 'processing'].includes(existing.translation_status)) {
+        return {
+          success: false,
+          error: 'Translation is already in progress',
+        };
+      }
+
+      const job = await this.subtitleDao.upsert({
+        movie_id: movieId,
+        language: TARGET_LANGUAGE,
+        srt_content: null,
+        translated_by_ai: true,
+        translation_status: 'pending',
+      });
+
+      this.enqueue(job.id);
+
+      return {
+        success: true,
+        data: job,
+        message: 'Translation queued successfully',
+      };
+    } catch (error) {
+      console.error('Error in SubtitleTranslationService.enqueueTranslation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to queue translation',
+      };
+    }
+  }
+
+  /**
+   * Re-queue a failed translation
+   */
+  public async retryTranslation(subtitleId: string): Promise<IApiResponse<ISubtitle>> {
+    try {
+      const subtitle = await this.subtitleDao.findById(subtitleId);
+      if (!subtitle || !subtitle.translated_by_ai) {
+        return {
+          success: false,
+          error: 'Translation not found',
+        };
+      }
+
+      if (subtitle.translation_status !== 'failed') {
+        return {
+          success: false,
+          error: 'Only failed translations can be retried',
+        };
+      }
+
+      const job = await this.subtitleDao.updateTranslation(subtitleId, {
+        translation_status: 'pending',
+      });
+
+      this.enqueue(subtitleId);
+
+      return {
+        success: true,
+        data: job!,
+        message: 'Translation re-queued successfully',
+      };
+    } catch (error) {
+      console.error('Error in SubtitleTranslationService.retryTranslation:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry translation',
+      };
+    }
+  }
+
+  /**
+   * List translation jobs, optionally filtered by status
+   */
+  public async getTranslations(
+    status?: SubtitleTranslationStatus,
+    limit: number = 100
+  ): Promise<IApiResponse<ISubtitle[]>> {
+    try {
+      const jobs = await this.subtitleDao.findTranslations({
+        status: status ? [status] : undefined,
+        limit,
+      });
+
+      return {
+        success: true,
+        data: jobs,
+      };
+    } catch (error) {
+      console.error('Error in SubtitleTranslationService.getTranslations:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get translations',
+      };
+    }
+  }
+
+  /**
+   * Re-queue jobs left pending or processing by a previous run
+   * Called once on server start
+   */
+  public async resumePendingTranslations(): Promise<void> {
+    try {
+      const jobs = await this.subtitleDao.findTranslations({ status: ['pending', 'processing'] });
+      jobs.forEach((job) => this.enqueue(job.id));
+
+      if (jobs.length > 0) {
+        console.log(`✓ Resumed ${jobs.length} subtitle translation job(s)`);
+      }
+    } catch (error) {
+      console.error('Error resuming subtitle translations:', error);
+    }
+  }
+
+  /**
+   * Add a job to the queue and start draining it
+   */
+  private enqueue(subtitleId: string): void {
+    if (!this.queue.includes(subtitleId)) {
+      this.queue.push(subtitleId);
+    }
+
+    this.drain().catch((error) => {
+      console.error('Subtitle translation queue failed:', error);
+    });
+  }
+
+  /**
+   * Process queued jobs sequentially
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      let subtitleId = this.queue.shift();
+      while (subtitleId) {
+        await this.processTranslation(subtitleId);
+        subtitleId = this.queue.shift();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Translate one job, recording the outcome on the subtitle row
+   */
+  private async processTranslation(subtitleId: string): Promise<void> {
+    const job = await this.subtitleDao.findById(subtitleId);
+    if (!job || !job.translated_by_ai || !['pending', 'processing'].includes(job.translation_status)) {
+      return;
+    }
+
+    await this.subtitleDao.updateTranslation(subtitleId, {
+      translation_status: 'processing',
+      translation_error: null,
+      translation_attempts: job.translation_attempts + 1,
+    });
+
+    try {
+      const source = await this.subtitleDao.findByMovieAndLanguage(job.movie_id, SOURCE_LANGUAGE);
+      if (!source || !source.srt_content) {
+        throw new Error('English subtitle track not found');
+      }
+
+      const cues = await this.translateCues(parseSubtitles(source.srt_content, 'srt'));
+
+      await this.subtitleDao.updateTranslation(subtitleId, {
+        srt_content: formatSrt(cues),
+        translation_status: 'completed',
+      });
+    } catch (error) {
+      console.error(`Error translating subtitle (${subtitleId}):`, error);
+      await this.subtitleDao.updateTranslation(subtitleId, {
+        translation_status: 'failed',
+        translation_error: error instanceof Error ? error.message : 'Unknown translation error',
+      });
+    }
+  }
+
+  /**
+   * Translate cue text in batches, preserving cue timings
+   */
+  private async translateCues(cues: ISubtitleCue[]): Promise<ISubtitleCue[]> {
+    const translator = this.getTranslator();
+    const batchSize = Math.max(1, appConfig.translation.batchSize);
+    const translated: ISubtitleCue[] = [];
+
+    for (let offset = 0; offset < cues.length; offset += batchSize) {
+      const batch = cues.slice(offset, offset + batchSize);
+      const texts = await translator.translate(batch.map((cue) => cue.text), SOURCE_LANGUAGE, TARGET_LANGUAGE);
+
+      if (texts.length !== batch.length) {
+        throw new Error(
+          `Translator "${translator.name}" returned ${texts.length} translations for ${batch.length} cues (batch at cue ${offset + 1})`
+        );
+      }
+
+      batch.forEach((cue, i) => translated.push({ ...cue, text: texts[i] }));
+    }
+
+    return translated;
+  }
+
+  /**
+   * Get or lazily create the configured translator
+   */
+  private getTranslator(): ITranslator {
+    if (!this.translator) {
+      this.translator = createTranslator();
+    }
+    return this.translator;
+  }
+}
+
+export default SubtitleTranslationService;
@@ -0,0 +1,261 @@
+import { TmdbCacheDao } from '../dao';
+import { ITmdbCacheEntry, ITmdbCacheStats, TmdbCacheEndpointType } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+
+/**
+ * TMDB Cache Store Interface
+ * Defines the contract for cache storage backends
+ */
+interface ITmdbCacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, endpoint: string, value: unknown, ttlSeconds: number): Promise<void>;
+  list(prefix?: string, limit?: number): Promise<ITmdbCacheEntry[]>;
+  count(): Promise<number>;
+  purge(prefix?: string): Promise<number>;
+}
+
+/**
+ * In-memory LRU Implementation
+ * Default store; entries are lost on restart
+ */
+class MemoryLruCacheStore implements ITmdbCacheStore {
+  readonly name = 'memory';
+  private entries: Map<string, ITmdbCacheEntry & { payload: unknown }> = new Map();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expires_at.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    entry.hits += 1;
+    this.entries.set(key, entry);
+
+    return entry.payload as T;
+  }
+
+  async set(key: string, endpoint: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      key,
+      endpoint,
+      payload: value,
+      hits: 0,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000),
+      created_at: new Date(),
+    });
+
+    // Evict least recently used entries (Map keeps insertion order)
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async list(prefix?: string, limit?: number): Promise<ITmdbCacheEntry[]> {
+    const result: ITmdbCacheEntry[] = [];
+    for (const entry of this.entries.values()) {
+      if (prefix && !entry.key.startsWith(prefix)) {
+        continue;
+      }
+      result.push({
+        key: entry.key,
+        endpoint: entry.endpoint,
+        hits: entry.hits,
+        expires_at: entry.expires_at,
+        created_at: entry.created_at,
+      });
+    }
+    result.reverse(); // Most recently used first
+    return limit ? result.slice(0, limit) : result;
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async purge(prefix?: string): Promise<number> {
+    if (!prefix) {
+      const size = this.entries.size;
+      this.entries.clear();
+      return size;
+    }
+
+    let deleted = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Postgres Implementation
+ * Persists entries in the tmdb_cache table so they survive restarts
+ * and are shared between API instances
+ */
+class PostgresCacheStore implements ITmdbCacheStore {
+  readonly name = 'postgres';
+  private tmdbCacheDao: TmdbCacheDao;
+
+  constructor() {
+    this.tmdbCacheDao = TmdbCacheDao.getInstance();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.tmdbCacheDao.findByKey(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (new Date(entry.expires_at).getTime() <= Date.now()) {
+      await this.tmdbCacheDao.deleteByKey(key);
+      return null;
+    }
+
+    await this.tmdbCacheDao.incrementHits(key);
+    return entry.payload as T;
+  }
+
+  async set(key: string, endpoint: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await this.tmdbCacheDao.upsert({
+      key,
+      endpoint,
+      payload: value,
+      expires_at: new Date(Date.now() + ttlSeconds * 1000),
+    });
+  }
+
+  async list(prefix?: string, limit?: number): Promise<ITmdbCacheEntry[]> {
+    return this.tmdbCacheDao.findAll({ prefix, limit });
+  }
+
+  async count(): Promise<number> {
+    return this.tmdbCacheDao.count();
+  }
+
+  async purge(prefix?: string): Promise<number> {
+    return this.tmdbCacheDao.deleteAll(prefix);
+  }
+}
+
+/**
+ * TMDB Cache Service
+ * Caches TMDB responses with per-endpoint TTLs in the configured store
+ */
+class TmdbCacheService {
+  private static instance: TmdbCacheService;
+  private store: ITmdbCacheStore;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  private constructor() {
+    switch (appConfig.tmdb.cache.store) {
+      case 'postgres':
+        this.store = new PostgresCacheStore();
+        break;
+      case 'memory':
+      default:
+        this.store = new MemoryLruCacheStore(appConfig.tmdb.cache.maxEntries);
+        break;
+    }
+  }
+
+  /**
+   * Get TmdbCacheService singleton instance
+   */
+  public static getInstance(): TmdbCacheService {
+    if (!TmdbCacheService.instance) {
+      TmdbCacheService.instance = new TmdbCacheService();
+    }
+    return TmdbCacheService.instance;
+  }
+
+  /**
+   * Build a deterministic cache key from endpoint and request params
+   * e.g. "movie/popular?language=ta&page=2"
+   */
+  public buildKey(endpoint: string, params: Record<string, unknown> = {}): string {
+    const query = Object.keys(params)
+      .filter((name) => params[name] !== undefined && params[name] !== null)
+      .sort()
+      .map((name) => `${name}=${encodeURIComponent(String(params[name]))}`)
+      .join('&');
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  /**
+   * Get cached value
+   * Store failures are treated as a miss so TMDB remains reachable
+   */
+  public async get<T>(key: string): Promise<T | null> {
+    try {
+      const value = await this.store.get<T>(key);
+      if (value === null) {
+        this.misses++;
+      } else {
+        this.hits++;
+      }
+      return value;
+    } catch (error) {
+      console.error(`TMDB cache read error (${key}):`, error);
+      this.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Store value using the TTL configured for the endpoint type
+   */
+  public async set(key: string, endpoint: string, type: TmdbCacheEndpointType, value: unknown): Promise<void> {
+    try {
+      await this.store.set(key, endpoint, value, appConfig.tmdb.cache.ttl[type]);
+    } catch (error) {
+      console.error(`TMDB cache write error (${key}):`, error);
+    }
+  }
+
+  /**
+   * List cache entries, optionally filtered by key prefix
+   */
+  public async list(prefix?: string, limit?: number): Promise<ITmdbCacheEntry[]> {
+    return this.store.list(prefix, limit);
+  }
+
+  /**
+   * Purge cache entries, optionally filtered by key prefix
+   * @returns Number of purged entries
+   */
+  public async purge(prefix?: string): Promise<number> {
+    return this.store.purge(prefix);
+  }
+
+  /**
+   * Get cache statistics since process start
+   */
+  public async getStats(): Promise<ITmdbCacheStats> {
+    const total = this.hits + this.misses;
+    return {
+      store: this.store.name,
+      entries: await this.store.count(),
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: total > 0 ? this.hits / total : 0,
+    };
+  }
+}
+
+export default TmdbCacheService;
@@ -0,0 +1,77 @@
+import axios, { AxiosInstance } from 'axios';
+import { SubtitleLanguage } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+
+/**
+ * Translator Interface
+ * Defines the contract for subtitle text translators
+ * Must return exactly one translation per input text, in order
+ */
+export interface ITranslator {
+  readonly name: string;
+  translate(texts: string[], source: SubtitleLanguage, target: SubtitleLanguage): Promise<string[]>;
+}
+
+/**
+ * Stub Translator Implementation
+ * Deterministic local translator for development and tests; makes no network calls
+ */
+class StubTranslator implements ITranslator {
+  readonly name = 'stub';
+
+  async translate(texts: string[], _source: SubtitleLanguage, target: SubtitleLanguage): Promise<string[]> {
+    return texts.map((text) => text
+      .split('\n')
+      .map((line) => `[${target}] ${line}`)
+      .join('\n'));
+  }
+}
+
+/**
+ * Google Cloud Translation (v2) Implementation
+ */
+class GoogleTranslator implements ITranslator {
+  readonly name = 'google';
+  private client: AxiosInstance;
+
+  constructor() {
+    const apiKey = appConfig.translation.google?.apiKey;
+    if (!apiKey) {
+      throw new Error('GOOGLE_TRANSLATE_API_KEY is required when using Google translator');
+    }
+
+    this.client = axios.create({
+      baseURL: appConfig.translation.google?.baseUrl,
+      params: {
+        key: apiKey,
+      },
+    });
+  }
+
+  async translate(texts: string[], source: SubtitleLanguage, target: SubtitleLanguage): Promise<string[]> {
+    const response = await this.client.post('', {
+      q: texts,
+      source,
+      target,
+      format: 'text',
+    });
+
+    return response.data.data?.translations?.map(
+      (translation: { translatedText: string }) => translation.translatedText
+    ) || [];
+  }
+}
+
+/**
+ * Create the translator configured by TRANSLATION_PROVIDER
+ * Throws if the translator is missing required configuration
+ */
+export function createTranslator(): ITranslator {
+  switch (appConfig.translation.provider) {
+    case 'google':
+      return new GoogleTranslator();
+    case 'stub':
+    default:
+      return new StubTranslator();
+  }
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, test, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { IAuth, UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { AuthDao } from '../dao';
+import { generateTotp, generateTotpSecret, getTotpStep } from '../utils/totp';
+import TwoFactorService from './two_factor.service';
+
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const START = 1_700_000_000_000;
+
+let stored: IAuth;
+
+beforeEach(() => {
+  stored = {
+    user_id: USER_ID,
+    password_hash: 'hash',
+    role: UserRole.USER,
+    is_active: true,
+    two_factor_secret: generateTotpSecret(),
+    two_factor_enabled_at: null,
+    two_factor_recovery_codes: [],
+    two_factor_last_step: null,
+  };
+});
+
+/**
+ * Back AuthDao with the in-memory record and pin the clock
+ */
+function setup(t: TestContext, now: { value: number }): void {
+  const authDao = AuthDao.getInstance();
+  t.mock.method(Date, 'now', () => now.value);
+  t.mock.method(authDao, 'findByUserId', async () => ({ ...stored }));
+  t.mock.method(authDao, 'updateByUserId', async (_userId: string, data: Partial<IAuth>) => {
+    stored = { ...stored, ...data };
+    return null;
+  });
+}
+
+/**
+ * Enable 2FA with the code of the current step, returning the recovery codes
+ */
+async function enable(): Promise<string[]> {
+  const result = await TwoFactorService.getInstance().confirm(USER_ID, generateTotp(stored.two_factor_secret!));
+  assert.equal(result.success, true);
+  return result.data!.recovery_codes;
+}
+
+describe('TwoFactorService', () => {
+  test('should enable 2FA only with a valid code', async (t) => {
+    const now = { value: START };
+    setup(t, now);
+    const service = TwoFactorService.getInstance();
+
+    const stale = generateTotp(stored.two_factor_secret!, getTotpStep(START) - 5);
+    const rejected = await service.confirm(USER_ID, stale);
+    assert.equal(rejected.error, 'Invalid two-factor code');
+    assert.equal(stored.two_factor_enabled_at, null);
+
+    const recoveryCodes = await enable();
+    assert.equal(recoveryCodes.length, 10);
+    assert.ok(stored.two_factor_enabled_at);
+    assert.equal(stored.two_factor_last_step, getTotpStep(START));
+    assert.ok(!stored.two_factor_recovery_codes!.includes(recoveryCodes[0]), 'recovery codes are stored hashed');
+  });
+
+  test('should accept each TOTP step only once', async (t) => {
+    const now = { value: START };
+    setup(t, now);
+    const service = TwoFactorService.getInstance();
+    await enable();
+
+    // The code used to confirm cannot be replayed to log in
+    assert.equal(await service.verifyCode({ ...stored }, generateTotp(stored.two_factor_secret!)), false);
+
+    now.value += 30_000;
+    const code = generateTotp(stored.two_factor_secret!);
+    assert.equal(await service.verifyCode({ ...stored }, code), true);
+    assert.equal(await service.verifyCode({ ...stored }, code), false);
+
+    // An older step still inside the drift window is a replay too
+    const previous = generateTotp(stored.two_factor_secret!, getTotpStep(now.value) - 1);
+    assert.equal(await service.verifyCode({ ...stored }, previous), false);
+  });
+
+  test('should consume recovery codes', async (t) => {
+    const now = { value: START };
+    setup(t, now);
+    const service = TwoFactorService.getInstance();
+    const [first, second] = await enable();
+
+    assert.equal(await service.verifyCode({ ...stored }, first.toLowerCase().replace('-', ' ')), true);
+    assert.equal(await service.verifyCode({ ...stored }, first), false);
+    assert.equal(stored.two_factor_recovery_codes!.length, 9);
+    assert.equal(await service.verifyCode({ ...stored }, second), true);
+  });
+
+  test('should reject codes when 2FA is not enabled', async (t) => {
+    const now = { value: START };
+    setup(t, now);
+
+    assert.equal(await TwoFactorService.getInstance().verifyCode({ ...stored }, generateTotp(stored.two_factor_secret!)), false);
+  });
+});
@@ -0,0 +1,241 @@
+import { createHash, randomBytes } from 'crypto';
+import { AuthDao } from '../dao';
+import { IApiResponse, IAuth, ITwoFactorEnrollment, ITwoFactorRecoveryCodes, UserRole } from '@nx-mono-repo-deployment-test/shared';
+import { appConfig } from '../config/app.config';
+import { base32Encode, buildOtpAuthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Two-Factor Service
+ * TOTP enrollment, confirmation and code checks
+ * A secret is stored on enroll but 2FA only takes effect once a code from it
+ * is confirmed; recovery codes are stored hashed and are single-use
+ */
+class TwoFactorService {
+  private static instance: TwoFactorService;
+  private authDao: AuthDao;
+
+  private constructor() {
+    this.authDao = AuthDao.getInstance();
+  }
+
+  /**
+   * Get TwoFactorService singleton instance
+   */
+  public static getInstance(): TwoFactorService {
+    if (!TwoFactorService.instance) {
+      TwoFactorService.instance = new TwoFactorService();
+    }
+    return TwoFactorService.instance;
+  }
+
+  /**
+   * Whether 2FA is mandatory for a role
+   */
+  public isRequiredFor(role: UserRole): boolean {
+    return appConfig.auth.twoFactor.requiredForAdmins && role === UserRole.ADMIN;
+  }
+
+  /**
+   * Start enrollment with a new secret
+   * Restarting replaces any unconfirmed secret
+   */
+  public async enroll(userId: string): Promise<IApiResponse<ITwoFactorEnrollment>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (auth.two_factor_enabled_at) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      const secret = generateTotpSecret();
+      await this.authDao.updateByUserId(userId, { two_factor_secret: secret });
+
+      return {
+        success: true,
+        data: {
+          secret,
+          otpauth_uri: buildOtpAuthUri(secret, appConfig.auth.twoFactor.issuer, auth.user?.email || userId),
+        },
+        message: 'Scan the code with an authenticator app, then confirm with a code',
+      };
+    } catch (error) {
+      console.error('Error in TwoFactorService.enroll:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start two-factor enrollment',
+      };
+    }
+  }
+
+  /**
+   * Enable 2FA once the user proves their app generates valid codes
+   * Returns the recovery codes; they are not retrievable later
+   */
+  public async confirm(userId: string, code: string): Promise<IApiResponse<ITwoFactorRecoveryCodes>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (auth.two_factor_enabled_at) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is already enabled',
+        };
+      }
+
+      if (!auth.two_factor_secret) {
+        return {
+          success: false,
+          error: 'Two-factor enrollment has not been started',
+        };
+      }
+
+      const step = verifyTotp(auth.two_factor_secret, code);
+      if (step === null) {
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+        };
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await this.authDao.updateByUserId(userId, {
+        two_factor_enabled_at: new Date(),
+        two_factor_last_step: step,
+        two_factor_recovery_codes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+      });
+
+      return {
+        success: true,
+        data: { recovery_codes: recoveryCodes },
+        message: 'Two-factor authentication enabled',
+      };
+    } catch (error) {
+      console.error('Error in TwoFactorService.confirm:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to enable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Turn 2FA off, with a current TOTP or recovery code
+   */
+  public async disable(userId: string, code: string): Promise<IApiResponse<void>> {
+    try {
+      const auth = await this.authDao.findByUserId(userId);
+      if (!auth) {
+        return {
+          success: false,
+          error: 'User not found',
+        };
+      }
+
+      if (!auth.two_factor_enabled_at) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is not enabled',
+        };
+      }
+
+      if (this.isRequiredFor(auth.role)) {
+        return {
+          success: false,
+          error: 'Two-factor authentication is required for admin accounts',
+        };
+      }
+
+      if (!(await this.verifyCode(auth, code))) {
+        return {
+          success: false,
+          error: 'Invalid two-factor code',
+        };
+      }
+
+      await this.authDao.updateByUserId(userId, {
+        two_factor_secret: null,
+        two_factor_enabled_at: null,
+        two_factor_recovery_codes: [],
+        two_factor_last_step: null,
+      });
+
+      return {
+        success: true,
+        message: 'Two-factor authentication disabled',
+      };
+    } catch (error) {
+      console.error('Error in TwoFactorService.disable:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to disable two-factor authentication',
+      };
+    }
+  }
+
+  /**
+   * Check a second factor for an account with 2FA enabled
+   * Accepts a TOTP code (each time step only once) or an unused recovery code,
+   * which is consumed
+   */
+  public async verifyCode(auth: IAuth, code: string): Promise<boolean> {
+    if (!auth.two_factor_enabled_at || !auth.two_factor_secret) {
+      return false;
+    }
+
+    const step = verifyTotp(auth.two_factor_secret, code);
+    if (step !== null) {
+      if (auth.two_factor_last_step != null && step <= auth.two_factor_last_step) {
+        return false;
+      }
+      await this.authDao.updateByUserId(auth.user_id, { two_factor_last_step: step });
+      return true;
+    }
+
+    const hash = this.hashRecoveryCode(code);
+    const recoveryCodes = auth.two_factor_recovery_codes || [];
+    if (!recoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    await this.authDao.updateByUserId(auth.user_id, {
+      two_factor_recovery_codes: recoveryCodes.filter((recoveryCode) => recoveryCode !== hash),
+    });
+    return true;
+  }
+
+  /**
+   * Random recovery codes, formatted XXXXX-XXXXX (50 bits each)
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = base32Encode(randomBytes(7)).slice(0, 10);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code, ignoring case, spaces and dashes
+   */
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.toUpperCase().replace(/[\s-]/g, '')).digest('hex');
+  }
+}
+
+export default TwoFactorService;
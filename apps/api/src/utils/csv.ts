@@ -0,0 +1,37 @@
+/**
+ * CSV (RFC 4180) serialization
+ * Fields are quoted when they contain a comma, quote or line break; dates are
+ * written as ISO strings and objects as JSON
+ */
+function formatField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV with a header row
+ * Columns default to the keys of the first row
+ */
+export function toCsv(rows: object[], columns?: string[]): string {
+  const header = columns || (rows.length > 0 ? Object.keys(rows[0]) : []);
+  const lines = [header.map(formatField).join(',')];
+
+  for (const row of rows) {
+    const record = row as Record<string, unknown>;
+    lines.push(header.map((column) => formatField(record[column])).join(','));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
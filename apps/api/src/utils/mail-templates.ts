@@ -0,0 +1,200 @@
+import type { IMailMessage } from '../services/mailer.service';
+
+/**
+ * Escape text for inclusion in HTML email bodies
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Describe a token lifetime for email copy, e.g. "1 hour" or "30 minutes"
+ */
+function formatTtl(seconds: number): string {
+  if (seconds % 3600 === 0) {
+    const hours = seconds / 3600;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Email address verification email
+ */
+export function emailVerificationEmail(to: string, verifyUrl: string, ttlSeconds: number): IMailMessage {
+  const ttl = formatTtl(ttlSeconds);
+
+  return {
+    to,
+    subject: 'Verify your Film Mania email address',
+    text: [
+      'Welcome to Film Mania!',
+      '',
+      `Open this link to verify your email address (valid for ${ttl}):`,
+      verifyUrl,
+      '',
+      'If you did not create an account, you can ignore this email.',
+    ].join('\n'),
+    html: [
+      '<p>Welcome to Film Mania!</p>',
+      `<p><a href="${escapeHtml(verifyUrl)}">Verify your email address</a> (valid for ${ttl}).</p>`,
+      '<p>If you did not create an account, you can ignore this email.</p>',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Password reset email
+ */
+export function passwordResetEmail(to: string, resetUrl: string, ttlSeconds: number): IMailMessage {
+  const ttl = formatTtl(ttlSeconds);
+
+  return {
+    to,
+    subject: 'Reset your Film Mania password',
+    text: [
+      'We received a request to reset your Film Mania password.',
+      '',
+      `Open this link to choose a new password (valid for ${ttl}):`,
+      resetUrl,
+      '',
+      'If you did not request this, you can ignore this email; your password will not change.',
+    ].join('\n'),
+    html: [
+      '<p>We received a request to reset your Film Mania password.</p>',
+      `<p><a href="${escapeHtml(resetUrl)}">Choose a new password</a> (valid for ${ttl}).</p>`,
+      '<p>If you did not request this, you can ignore this email; your password will not change.</p>',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Password reset required by an administrator; the old password no longer works
+ */
+export function forcedPasswordResetEmail(to: string, resetUrl: string, ttlSeconds: number): IMailMessage {
+  const ttl = formatTtl(ttlSeconds);
+
+  return {
+    to,
+    subject: 'Set a new Film Mania password',
+    text: [
+      'For your security, an administrator has reset your Film Mania password and signed you out.',
+      '',
+      `Open this link to choose a new password (valid for ${ttl}):`,
+      resetUrl,
+      '',
+      'If the link expires, use "Forgot password" on the sign-in page to get a new one.',
+    ].join('\n'),
+    html: [
+      '<p>For your security, an administrator has reset your Film Mania password and signed you out.</p>',
+      `<p><a href="${escapeHtml(resetUrl)}">Choose a new password</a> (valid for ${ttl}).</p>`,
+      '<p>If the link expires, use "Forgot password" on the sign-in page to get a new one.</p>',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Format an amount in major currency units for email copy, e.g. "$9.99"
+ */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency: currency.toUpperCase() }).format(amount);
+}
+
+/**
+ * Subscription started after a completed checkout
+ */
+export function subscriptionStartedEmail(to: string, subscriptionUrl: string): IMailMessage {
+  return {
+    to,
+    subject: 'Your Film Mania subscription is active',
+    text: [
+      'Thanks for subscribing to Film Mania! Your subscription is now active.',
+      '',
+      'You can manage your plan and payment details at any time:',
+      subscriptionUrl,
+    ].join('\n'),
+    html: [
+      '<p>Thanks for subscribing to Film Mania! Your subscription is now active.</p>',
+      `<p>You can <a href="${escapeHtml(subscriptionUrl)}">manage your plan and payment details</a> at any time.</p>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * A subscription payment failed; Stripe may retry it
+ */
+export function paymentFailedEmail(
+  to: string,
+  amount: number,
+  currency: string,
+  payUrl: string,
+  nextAttempt: Date | null
+): IMailMessage {
+  const total = formatAmount(amount, currency);
+  const retry = nextAttempt
+    ? `We will try again on ${nextAttempt.toUTCString()}.`
+    : 'Your subscription will end unless the payment is completed.';
+
+  return {
+    to,
+    subject: 'Your Film Mania payment failed',
+    text: [
+      `We could not collect your Film Mania payment of ${total}. ${retry}`,
+      '',
+      'Update your payment details or pay now:',
+      payUrl,
+    ].join('\n'),
+    html: [
+      `<p>We could not collect your Film Mania payment of ${escapeHtml(total)}. ${escapeHtml(retry)}</p>`,
+      `<p><a href="${escapeHtml(payUrl)}">Update your payment details or pay now</a>.</p>`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * A payment was refunded
+ */
+export function refundIssuedEmail(to: string, amount: number, currency: string): IMailMessage {
+  const total = formatAmount(amount, currency);
+
+  return {
+    to,
+    subject: 'Your Film Mania refund',
+    text: [
+      `We have refunded ${total} to your original payment method.`,
+      '',
+      'Refunds usually appear on your statement within 5-10 business days.',
+    ].join('\n'),
+    html: [
+      `<p>We have refunded ${escapeHtml(total)} to your original payment method.</p>`,
+      '<p>Refunds usually appear on your statement within 5-10 business days.</p>',
+    ].join('\n'),
+  };
+}
+
+/**
+ * A free trial is about to end and the first payment will be taken
+ */
+export function trialEndingEmail(to: string, trialEnd: Date, subscriptionUrl: string): IMailMessage {
+  const date = trialEnd.toUTCString();
+
+  return {
+    to,
+    subject: 'Your Film Mania trial is ending soon',
+    text: [
+      `Your Film Mania free trial ends on ${date}, when your first payment will be taken.`,
+      '',
+      'To change your plan or cancel before then:',
+      subscriptionUrl,
+    ].join('\n'),
+    html: [
+      `<p>Your Film Mania free trial ends on ${escapeHtml(date)}, when your first payment will be taken.</p>`,
+      `<p><a href="${escapeHtml(subscriptionUrl)}">Change your plan or cancel</a> before then.</p>`,
+    ].join('\n'),
+  };
+}
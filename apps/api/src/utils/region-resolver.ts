@@ -0,0 +1,78 @@
+/**
+ * ISO 3166-1 alpha-2 region code pattern
+ */
+const REGION_PATTERN = /^[A-Za-z]{2}$/;
+
+/**
+ * Languages that map unambiguously to a single region
+ * Used when Accept-Language only carries a bare language tag (e.g. "si")
+ */
+const LANGUAGE_REGION_MAP: Record<string, string> = {
+  si: 'LK',
+  hi: 'IN',
+  ml: 'IN',
+};
+
+/**
+ * Check whether a value is a two-letter region code
+ */
+export function isRegionCode(value: unknown): value is string {
+  return typeof value === 'string' && REGION_PATTERN.test(value);
+}
+
+/**
+ * Extract the preferred region from an Accept-Language header
+ * e.g. "si-LK,si;q=0.9,en-US;q=0.8" → "LK"
+ */
+export function parseAcceptLanguageRegion(header?: string): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const tags = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find((param) => param.trim().startsWith('q='));
+      const quality = qParam ? parseFloat(qParam.trim().substring(2)) : 1;
+      return { tag: tag.trim(), quality: isNaN(quality) ? 0 : quality };
+    })
+    .filter(({ tag, quality }) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of tags) {
+    const [language, ...subtags] = tag.split('-');
+    const region = subtags.find(isRegionCode);
+    if (region) {
+      return region.toUpperCase();
+    }
+
+    const mappedRegion = LANGUAGE_REGION_MAP[language.toLowerCase()];
+    if (mappedRegion) {
+      return mappedRegion;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the streaming region for a request
+ * Priority: explicit region > user profile country > Accept-Language > default
+ */
+export function resolveStreamingRegion(options: {
+  region?: string;
+  userCountry?: string | null;
+  acceptLanguage?: string;
+  defaultRegion: string;
+}): string {
+  if (isRegionCode(options.region)) {
+    return options.region.toUpperCase();
+  }
+
+  if (isRegionCode(options.userCountry)) {
+    return options.userCountry.toUpperCase();
+  }
+
+  return parseAcceptLanguageRegion(options.acceptLanguage) || options.defaultRegion;
+}
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { UserRole } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Per-request values made available to services without threading them
+ * through every call (used by the audit log)
+ */
+export interface IRequestContext {
+  requestId: string;
+  ipAddress?: string;
+  actor?: {
+    id: string;
+    role: UserRole;
+    apiKeyId?: string;
+  };
+}
+
+const storage = new AsyncLocalStorage<IRequestContext>();
+
+/**
+ * Run a function with a request context
+ */
+export function runWithRequestContext<T>(context: IRequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being handled, if any
+ */
+export function getRequestContext(): IRequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Record the authenticated user on the current request context
+ */
+export function setRequestActor(actor: IRequestContext['actor']): void {
+  const context = storage.getStore();
+  if (context) {
+    context.actor = actor;
+  }
+}
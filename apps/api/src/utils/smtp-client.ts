@@ -0,0 +1,219 @@
+import net, { Socket } from 'net';
+import tls from 'tls';
+import os from 'os';
+
+/**
+ * SMTP error
+ * Carries the reply code when the server rejected a command
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(code !== undefined ? `SMTP ${code}: ${message}` : message);
+    this.name = 'SmtpError';
+  }
+}
+
+export interface SmtpClientOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS; otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Minimal SMTP client
+ * Delivers one pre-built RFC 5322 message per connection:
+ * EHLO → STARTTLS (when offered) → AUTH PLAIN (when credentials are set) → MAIL/RCPT/DATA → QUIT
+ */
+export class SmtpClient {
+  private socket!: Socket;
+  private buffer = '';
+  private pending?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private options: SmtpClientOptions) {}
+
+  /**
+   * Send a message
+   * @param from - Envelope sender address
+   * @param recipients - Envelope recipient addresses
+   * @param message - Full message including headers, CRLF line endings
+   * @throws SmtpError
+   */
+  async send(from: string, recipients: string[], message: string): Promise<void> {
+    await this.connect();
+
+    try {
+      await this.expect(await this.read(), [220]);
+      let capabilities = await this.ehlo();
+
+      if (!this.options.secure && capabilities.includes('STARTTLS')) {
+        await this.command('STARTTLS', [220]);
+        await this.upgrade();
+        capabilities = await this.ehlo();
+      }
+
+      if (this.options.user) {
+        if (!capabilities.some((line) => /^AUTH\b.*\bPLAIN\b/.test(line))) {
+          throw new SmtpError('Server does not support AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass || ''}`).toString('base64');
+        await this.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await this.command(`MAIL FROM:<${from}>`, [250]);
+      for (const recipient of recipients) {
+        await this.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+
+      await this.command('DATA', [354]);
+      // Dot-stuff lines starting with "." so they are not read as the terminator
+      await this.command(`${message.replace(/\r\n\./g, '\r\n..')}\r\n.`, [250]);
+
+      await this.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      this.socket.destroy();
+    }
+  }
+
+  /**
+   * Open the connection, with implicit TLS when configured
+   */
+  private connect(): Promise<void> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        this.socket.off('error', reject);
+        resolve();
+      };
+
+      this.socket = secure
+        ? tls.connect({ host, port, servername: host }, onConnect)
+        : net.connect({ host, port }, onConnect);
+      this.socket.once('error', reject);
+      this.attach(this.socket);
+    });
+  }
+
+  /**
+   * Switch the open connection to TLS after STARTTLS
+   */
+  private upgrade(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('timeout');
+    plain.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      this.socket = tls.connect({ socket: plain, servername: this.options.host }, () => {
+        this.socket.off('error', reject);
+        resolve();
+      });
+      this.socket.once('error', reject);
+      this.attach(this.socket);
+    });
+  }
+
+  /**
+   * Wire socket events into the reply reader
+   */
+  private attach(socket: Socket): void {
+    socket.setTimeout(this.options.timeoutMs || DEFAULT_TIMEOUT_MS);
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8');
+      this.flush();
+    });
+    socket.on('timeout', () => this.fail(new SmtpError('Connection timed out')));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('Connection closed')));
+  }
+
+  /**
+   * Send EHLO and return the advertised capabilities
+   */
+  private async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    return reply.lines.slice(1).map((line) => line.toUpperCase());
+  }
+
+  /**
+   * Write a command and wait for a reply with one of the expected codes
+   */
+  private async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(await this.read(), expected);
+  }
+
+  private expect(reply: SmtpReply, expected: number[]): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(reply.lines.join(' '), reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Wait for the next complete (possibly multi-line) reply
+   */
+  private read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Resolve the pending read once a final reply line ("250 ...", not "250-...") is buffered
+   */
+  private flush(): void {
+    if (!this.pending) {
+      return;
+    }
+
+    const lines: string[] = [];
+    let offset = 0;
+    let end = this.buffer.indexOf('\n', offset);
+
+    while (end !== -1) {
+      const line = this.buffer.slice(offset, end).replace(/\r$/, '');
+      lines.push(line);
+      offset = end + 1;
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.buffer = this.buffer.slice(offset);
+        const { resolve } = this.pending;
+        this.pending = undefined;
+        resolve({
+          code: parseInt(line.slice(0, 3), 10),
+          lines: lines.map((replyLine) => replyLine.slice(4)),
+        });
+        return;
+      }
+
+      end = this.buffer.indexOf('\n', offset);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error;
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = undefined;
+      reject(this.failure);
+    }
+  }
+}
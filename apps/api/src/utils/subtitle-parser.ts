@@ -0,0 +1,149 @@
+import { ISubtitleCue, SubtitleFormat } from '@nx-mono-repo-deployment-test/shared';
+
+/**
+ * Subtitle parse error
+ * Carries the 1-based cue number the error was found in, when known
+ */
+export class SubtitleParseError extends Error {
+  constructor(message: string, public cue?: number) {
+    super(cue !== undefined ? `Cue ${cue}: ${message}` : message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+/**
+ * Timing line, e.g. "00:01:02,500 --> 00:01:04,000" (SRT) or "01:02.500 --> 01:04.000 align:start" (WebVTT)
+ */
+const TIMING_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)(?:\s+.*)?$/;
+
+/**
+ * Timestamp, hours optional: [hh:]mm:ss[,.]mmm
+ */
+const TIMESTAMP_PATTERN = /^(?:(\d{1,2}):)?([0-5]\d):([0-5]\d)[,.](\d{3})$/;
+
+/**
+ * Detect subtitle format from content
+ */
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  return content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt';
+}
+
+/**
+ * Parse a timestamp into milliseconds
+ */
+function parseTimestamp(value: string, cue: number): number {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) {
+    throw new SubtitleParseError(`Invalid timestamp "${value}"`, cue);
+  }
+
+  const [, hours = '0', minutes, seconds, millis] = match;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(millis);
+}
+
+/**
+ * Parse SRT or WebVTT content into cues
+ * Validates that every cue has well-formed timings with end after start
+ * @throws SubtitleParseError
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat = detectSubtitleFormat(content)): ISubtitleCue[] {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0);
+
+  if (format === 'vtt') {
+    if (!blocks[0]?.startsWith('WEBVTT')) {
+      throw new SubtitleParseError('WebVTT file must start with "WEBVTT"');
+    }
+    blocks.shift();
+  }
+
+  const cues: ISubtitleCue[] = [];
+
+  for (const block of blocks) {
+    // WebVTT metadata blocks carry no cues
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block)) {
+      continue;
+    }
+
+    const cueNumber = cues.length + 1;
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+
+    // SRT: index line then timing; WebVTT: optional identifier then timing
+    if (timingIndex === -1 || timingIndex > 1) {
+      throw new SubtitleParseError('Missing timing line', cueNumber);
+    }
+
+    const timing = TIMING_PATTERN.exec(lines[timingIndex]);
+    if (!timing) {
+      throw new SubtitleParseError(`Invalid timing line "${lines[timingIndex]}"`, cueNumber);
+    }
+
+    const start = parseTimestamp(timing[1], cueNumber);
+    const end = parseTimestamp(timing[2], cueNumber);
+    if (end <= start) {
+      throw new SubtitleParseError('End time must be after start time', cueNumber);
+    }
+
+    const text = lines.slice(timingIndex + 1).join('\n').trim();
+    if (!text) {
+      throw new SubtitleParseError('Cue text is empty', cueNumber);
+    }
+
+    cues.push({ index: cueNumber, start, end, text });
+  }
+
+  if (cues.length === 0) {
+    throw new SubtitleParseError('Subtitle file contains no cues');
+  }
+
+  return cues;
+}
+
+/**
+ * Format milliseconds as a timestamp with the given millisecond separator
+ */
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Serialize cues as SRT
+ */
+export function formatSrt(cues: ISubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+/**
+ * Serialize cues as WebVTT
+ */
+export function formatVtt(cues: ISubtitleCue[]): string {
+  const body = cues
+    .map((cue) => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Serialize cues in the requested format
+ */
+export function formatSubtitles(cues: ISubtitleCue[], format: SubtitleFormat): string {
+  return format === 'vtt' ? formatVtt(cues) : formatSrt(cues);
+}
+
+/**
+ * Content type for a subtitle format
+ */
+export function getSubtitleContentType(format: SubtitleFormat): string {
+  return format === 'vtt' ? 'text/vtt; charset=utf-8' : 'application/x-subrip; charset=utf-8';
+}
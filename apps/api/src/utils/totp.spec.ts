@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, generateTotp, getTotpStep, verifyTotp } from './totp';
+
+// RFC 6238 appendix B, SHA1: the ASCII secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  test('should round-trip base32 and ignore case, spaces and padding', () => {
+    const bytes = Buffer.from('12345678901234567890');
+    assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    assert.deepEqual(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq=='), bytes);
+    assert.throws(() => base32Decode('GEZ1'), /Invalid base32 character/);
+  });
+
+  test('should match the RFC 6238 test vectors (last 6 digits)', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      assert.equal(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000)), code);
+    }
+  });
+
+  test('should return the matching step within one step of drift', (t) => {
+    const now = 1111111111 * 1000;
+    t.mock.method(Date, 'now', () => now);
+    const current = getTotpStep(now);
+
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, current)), current);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, current - 1)), current - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, current + 1)), current + 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, current - 2)), null);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, current + 2)), null);
+  });
+
+  test('should reject malformed codes', (t) => {
+    t.mock.method(Date, 'now', () => 59 * 1000);
+
+    assert.equal(verifyTotp(RFC_SECRET, '287 082'), getTotpStep(59 * 1000));
+    assert.equal(verifyTotp(RFC_SECRET, '28708'), null);
+    assert.equal(verifyTotp(RFC_SECRET, '2870822'), null);
+    assert.equal(verifyTotp(RFC_SECRET, 'abcdef'), null);
+  });
+});
@@ -53,8 +53,9 @@ class ApiClient {
                 refreshToken: this.refreshToken,
               });
 
-              const { accessToken } = response.data.data;
-              this.setAccessToken(accessToken);
+              // Refresh tokens are single-use; keep the rotated one
+              const { accessToken, refreshToken } = response.data.data;
+              this.setTokens(accessToken, refreshToken);
 
               originalRequest.headers.Authorization = `Bearer ${accessToken}`;
               return this.client(originalRequest);
@@ -8,6 +8,11 @@ CREATE TABLE IF NOT EXISTS users (
     password_hash VARCHAR(255) NOT NULL,
     first_name VARCHAR(100),
     last_name VARCHAR(100),
+    country VARCHAR(2), -- ISO 3166-1 alpha-2, default streaming region
+    email_verified_at TIMESTAMP WITH TIME ZONE,
+    deletion_scheduled_at TIMESTAMP WITH TIME ZONE,
+    anonymized_at TIMESTAMP WITH TIME ZONE,
+    stripe_customer_id VARCHAR(255) UNIQUE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     subscription_status VARCHAR(50) DEFAULT 'inactive' CHECK (subscription_status IN ('active', 'inactive', 'cancelled', 'expired')),
@@ -18,6 +23,23 @@ CREATE TABLE IF NOT EXISTS users (
 
 CREATE INDEX idx_users_email ON users(email);
 CREATE INDEX idx_users_subscription_status ON users(subscription_status);
+CREATE INDEX idx_users_deletion_scheduled_at ON users(deletion_scheduled_at);
+
+-- Plans table (subscription plan catalog; each plan is billed through a Stripe price)
+CREATE TABLE IF NOT EXISTS plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    interval VARCHAR(50) NOT NULL CHECK (interval IN ('monthly', 'yearly')),
+    price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+    stripe_price_id VARCHAR(255) UNIQUE NOT NULL,
+    entitlements JSONB NOT NULL DEFAULT '[]',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_plans_is_active ON plans(is_active);
 
 -- Subscriptions table
 CREATE TABLE IF NOT EXISTS subscriptions (
@@ -26,6 +48,7 @@ CREATE TABLE IF NOT EXISTS subscriptions (
     stripe_subscription_id VARCHAR(255) UNIQUE,
     status VARCHAR(50) NOT NULL DEFAULT 'inactive' CHECK (status IN ('active', 'inactive', 'cancelled', 'past_due', 'trialing')),
     plan_type VARCHAR(50) NOT NULL CHECK (plan_type IN ('monthly', 'yearly')),
+    plan_id UUID REFERENCES plans(id),
     start_date TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     end_date TIMESTAMP WITH TIME ZONE,
     current_period_start TIMESTAMP WITH TIME ZONE,
@@ -39,6 +62,7 @@ CREATE TABLE IF NOT EXISTS subscriptions (
 CREATE INDEX idx_subscriptions_user_id ON subscriptions(user_id);
 CREATE INDEX idx_subscriptions_status ON subscriptions(status);
 CREATE INDEX idx_subscriptions_stripe_id ON subscriptions(stripe_subscription_id);
+CREATE INDEX idx_subscriptions_plan_id ON subscriptions(plan_id);
 
 -- Payments table
 CREATE TABLE IF NOT EXISTS payments (
@@ -46,7 +70,7 @@ CREATE TABLE IF NOT EXISTS payments (
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
     stripe_payment_id VARCHAR(255) UNIQUE,
-    stripe_payment_intent_id VARCHAR(255),
+    stripe_payment_intent_id VARCHAR(255) UNIQUE, -- payment webhooks upsert on it
     amount DECIMAL(10, 2) NOT NULL,
     currency VARCHAR(10) DEFAULT 'USD',
     status VARCHAR(50) NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded')),
@@ -74,6 +98,9 @@ CREATE TABLE IF NOT EXISTS movies (
     region VARCHAR(50),
     content_type VARCHAR(50) DEFAULT 'movie' CHECK (content_type IN ('movie', 'anime', 'tv')),
     streaming_links JSONB DEFAULT '[]'::jsonb,
+    streaming_links_updated_at TIMESTAMP WITH TIME ZONE, -- last answered fetch of any region
+    streaming_regions JSONB DEFAULT '{}'::jsonb, -- per-region fetched_at / failed_at / failures
+    streaming_links_refresh_at TIMESTAMP WITH TIME ZONE, -- when the earliest region is due for a refresh
     runtime INTEGER,
     vote_average DECIMAL(3, 1),
     vote_count INTEGER DEFAULT 0,
@@ -85,6 +112,7 @@ CREATE TABLE IF NOT EXISTS movies (
 CREATE INDEX idx_movies_tmdb_id ON movies(tmdb_id);
 CREATE INDEX idx_movies_language ON movies(language);
 CREATE INDEX idx_movies_content_type ON movies(content_type);
+CREATE INDEX idx_movies_streaming_links_refresh_at ON movies(streaming_links_refresh_at);
 CREATE INDEX idx_movies_title ON movies USING gin(to_tsvector('english', title));
 
 -- Movie categories table (for multi-language support)
@@ -108,6 +136,8 @@ CREATE TABLE IF NOT EXISTS subtitles (
     srt_content TEXT,
     translated_by_ai BOOLEAN DEFAULT FALSE,
     translation_status VARCHAR(50) DEFAULT 'pending' CHECK (translation_status IN ('pending', 'processing', 'completed', 'failed')),
+    translation_error TEXT,
+    translation_attempts INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -125,6 +155,7 @@ CREATE TABLE IF NOT EXISTS user_movies (
     watched_at TIMESTAMP WITH TIME ZONE,
     favorited BOOLEAN DEFAULT FALSE,
     watch_position INTEGER DEFAULT 0, -- in seconds
+    progress_updated_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -132,6 +163,7 @@ CREATE TABLE IF NOT EXISTS user_movies (
 CREATE INDEX idx_user_movies_user_id ON user_movies(user_id);
 CREATE INDEX idx_user_movies_movie_id ON user_movies(movie_id);
 CREATE INDEX idx_user_movies_favorited ON user_movies(favorited);
+CREATE INDEX idx_user_movies_progress_updated_at ON user_movies(user_id, progress_updated_at);
 CREATE UNIQUE INDEX idx_user_movies_unique ON user_movies(user_id, movie_id);
 
 -- API credits table
@@ -182,6 +214,156 @@ CREATE TABLE IF NOT EXISTS api_usage (
 CREATE INDEX idx_api_usage_provider ON api_usage(api_provider);
 CREATE INDEX idx_api_usage_created_at ON api_usage(created_at);
 
+-- TMDB response cache table (used when TMDB_CACHE_STORE=postgres)
+CREATE TABLE IF NOT EXISTS tmdb_cache (
+    key VARCHAR(500) PRIMARY KEY,
+    endpoint VARCHAR(255) NOT NULL,
+    payload JSONB NOT NULL,
+    hits INTEGER DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_tmdb_cache_expires_at ON tmdb_cache(expires_at);
+
+-- Auth sessions table (one row per signed-in device / refresh token family)
+CREATE TABLE IF NOT EXISTS auth_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    user_agent VARCHAR(512),
+    ip_address VARCHAR(45),
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_auth_sessions_user_id ON auth_sessions(user_id);
+
+-- Refresh tokens table (hashed, rotated on every refresh)
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id UUID PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    replaced_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_refresh_tokens_session_id ON refresh_tokens(session_id);
+
+-- User tokens table (single-use, expiring tokens such as password reset and email verification links)
+CREATE TABLE IF NOT EXISTS user_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_user_tokens_user_id ON user_tokens(user_id, purpose);
+
+-- Failed login attempt counters (used when LOGIN_ATTEMPT_STORE=postgres)
+CREATE TABLE IF NOT EXISTS login_attempts (
+    key VARCHAR(320) PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_login_attempts_last_failed_at ON login_attempts(last_failed_at);
+
+-- Role → permission mapping (admins hold every permission regardless)
+CREATE TABLE IF NOT EXISTS role_permissions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'moderator', 'support', 'admin')),
+    permission VARCHAR(50) NOT NULL CHECK (permission IN ('catalog:write', 'subtitles:moderate', 'billing:read', 'billing:write', 'funding:write', 'users:read', 'users:write', 'roles:write', 'audit:read')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_role_permissions_unique ON role_permissions(role, permission);
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('moderator', 'catalog:write'),
+    ('moderator', 'subtitles:moderate'),
+    ('support', 'billing:read'),
+    ('support', 'users:read'),
+    ('admin', 'catalog:write'),
+    ('admin', 'subtitles:moderate'),
+    ('admin', 'billing:read'),
+    ('admin', 'billing:write'),
+    ('admin', 'funding:write'),
+    ('admin', 'users:read'),
+    ('admin', 'users:write'),
+    ('admin', 'roles:write'),
+    ('admin', 'audit:read')
+ON CONFLICT DO NOTHING;
+
+-- API keys table (hashed personal / service account keys)
+CREATE TABLE IF NOT EXISTS api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    prefix VARCHAR(16) NOT NULL,
+    key_hash VARCHAR(64) UNIQUE NOT NULL,
+    scopes JSONB NOT NULL DEFAULT '[]',
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
+
+-- Audit events table (append-only trail of privileged and billing actions)
+-- No foreign keys so events outlive the users and records they mention
+CREATE TABLE IF NOT EXISTS audit_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_type VARCHAR(20) NOT NULL CHECK (actor_type IN ('user', 'system', 'stripe')),
+    actor_id UUID,
+    actor_role VARCHAR(20),
+    api_key_id UUID,
+    action VARCHAR(100) NOT NULL,
+    target_type VARCHAR(50) NOT NULL,
+    target_id VARCHAR(255),
+    changes JSONB,
+    metadata JSONB,
+    ip_address VARCHAR(45),
+    request_id VARCHAR(128),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_audit_events_created_at ON audit_events(created_at);
+CREATE INDEX idx_audit_events_actor_id ON audit_events(actor_id, created_at);
+CREATE INDEX idx_audit_events_action ON audit_events(action, created_at);
+CREATE INDEX idx_audit_events_target ON audit_events(target_type, target_id);
+CREATE INDEX idx_audit_events_request_id ON audit_events(request_id);
+
+-- Stripe events table (received webhook events, for idempotency and replay)
+CREATE TABLE IF NOT EXISTS stripe_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    stripe_event_id VARCHAR(255) UNIQUE NOT NULL,
+    type VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed', 'ignored')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_error TEXT,
+    payload JSONB NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_stripe_events_status ON stripe_events(status, created_at);
+CREATE INDEX idx_stripe_events_type ON stripe_events(type);
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -195,6 +377,9 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_plans_updated_at BEFORE UPDATE ON plans
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON subscriptions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -216,3 +401,31 @@ CREATE TRIGGER update_api_credits_updated_at BEFORE UPDATE ON api_credits
 CREATE TRIGGER update_admin_funding_updated_at BEFORE UPDATE ON admin_funding
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_auth_sessions_updated_at BEFORE UPDATE ON auth_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_refresh_tokens_updated_at BEFORE UPDATE ON refresh_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_user_tokens_updated_at BEFORE UPDATE ON user_tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_login_attempts_updated_at BEFORE UPDATE ON login_attempts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_api_keys_updated_at BEFORE UPDATE ON api_keys
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_stripe_events_updated_at BEFORE UPDATE ON stripe_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit events are append-only
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER prevent_audit_events_update BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_changes();
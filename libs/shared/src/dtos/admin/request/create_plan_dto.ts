@@ -0,0 +1,60 @@
+import { IsString, IsNotEmpty, MaxLength, IsEnum, IsNumber, Min, Length, IsArray, ArrayUnique, IsBoolean, IsOptional } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+import { Entitlement, PlanType } from '../../../enums';
+
+/**
+ * DTO for adding a plan to the catalog
+ */
+export class CreatePlanDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name!: string;
+
+  @IsEnum(PlanType, { message: 'Interval must be one of: monthly, yearly' })
+  interval!: PlanType;
+
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Price must be a number with at most 2 decimal places' })
+  @Min(0, { message: 'Price must not be negative' })
+  price!: number;
+
+  @IsString({ message: 'Currency must be a string' })
+  @Length(3, 3, { message: 'Currency must be a 3-letter ISO 4217 code' })
+  currency!: string;
+
+  @IsString({ message: 'Stripe price ID must be a string' })
+  @IsNotEmpty({ message: 'Stripe price ID is required' })
+  @MaxLength(255, { message: 'Stripe price ID must be at most 255 characters long' })
+  stripe_price_id!: string;
+
+  @IsArray({ message: 'Entitlements must be an array' })
+  @ArrayUnique({ message: 'Entitlements must not contain duplicates' })
+  @IsEnum(Entitlement, { each: true, message: 'Each entitlement must be a valid entitlement' })
+  entitlements!: Entitlement[];
+
+  @IsBoolean({ message: 'is_active must be a boolean' })
+  @IsOptional()
+  is_active?: boolean;
+
+  constructor(data?: {
+    name?: string;
+    interval?: PlanType;
+    price?: number;
+    currency?: string;
+    stripe_price_id?: string;
+    entitlements?: Entitlement[];
+    is_active?: boolean;
+  }) {
+    super();
+    if (data) {
+      this.name = data.name || '';
+      this.interval = data.interval || PlanType.MONTHLY;
+      this.price = data.price ?? 0;
+      this.currency = data.currency || '';
+      this.stripe_price_id = data.stripe_price_id || '';
+      this.entitlements = data.entitlements || [];
+      this.is_active = data.is_active;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { IsUUID, IsNotEmpty } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for queueing an AI Sinhala translation of a movie's English subtitles
+ */
+export class EnqueueSubtitleTranslationDto extends BaseDto implements IBodyDto {
+  @IsUUID('4', { message: 'Movie ID must be a valid UUID' })
+  @IsNotEmpty({ message: 'Movie ID is required' })
+  movieId!: string;
+
+  constructor(data?: { movieId?: string }) {
+    super();
+    if (data) {
+      this.movieId = data.movieId || '';
+    }
+  }
+}
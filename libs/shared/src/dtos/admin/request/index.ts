@@ -1,3 +1,13 @@
 export * from './fund_subscription_dto';
 export * from './add_api_credits_dto';
+export * from './update_streaming_providers_dto';
+export * from './enqueue_subtitle_translation_dto';
+export * from './update_user_role_dto';
+export * from './update_role_permissions_dto';
+export * from './create_plan_dto';
+export * from './update_plan_dto';
 
+export * from './list_users_query_dto';
+export * from './list_audit_events_query_dto';
+export * from './list_stripe_events_query_dto';
+export * from './tmdb_cache_query_dto';
@@ -0,0 +1,85 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IQueryDto } from '../../../interfaces';
+import { AuditAction, AuditActorType } from '../../../enums';
+
+/**
+ * DTO for filtering and paginating the audit log
+ */
+export class ListAuditEventsQueryDto extends BaseDto implements IQueryDto {
+  @IsOptional()
+  @IsEnum(AuditActorType, { message: 'Actor type must be one of: user, system, stripe' })
+  actor_type?: AuditActorType;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Actor ID must be a valid UUID' })
+  actor_id?: string;
+
+  @IsOptional()
+  @IsEnum(AuditAction, { message: 'Action must be a valid audit action' })
+  action?: AuditAction;
+
+  @IsOptional()
+  @IsString({ message: 'Target type must be a string' })
+  @MaxLength(50, { message: 'Target type must be at most 50 characters' })
+  target_type?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Target ID must be a string' })
+  @MaxLength(255, { message: 'Target ID must be at most 255 characters' })
+  target_id?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Request ID must be a string' })
+  @MaxLength(128, { message: 'Request ID must be at most 128 characters' })
+  request_id?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be an ISO 8601 date' })
+  from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be an ISO 8601 date' })
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number;
+
+  constructor(data?: {
+    actor_type?: AuditActorType;
+    actor_id?: string;
+    action?: AuditAction;
+    target_type?: string;
+    target_id?: string;
+    request_id?: string;
+    from?: string;
+    to?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    super();
+    if (data) {
+      this.actor_type = data.actor_type;
+      this.actor_id = data.actor_id;
+      this.action = data.action;
+      this.target_type = data.target_type;
+      this.target_id = data.target_id;
+      this.request_id = data.request_id;
+      this.from = data.from;
+      this.to = data.to;
+      this.page = data.page;
+      this.limit = data.limit;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IQueryDto } from '../../../interfaces';
+import { StripeEventStatus } from '../../../enums';
+
+/**
+ * DTO for filtering and paginating received Stripe events
+ */
+export class ListStripeEventsQueryDto extends BaseDto implements IQueryDto {
+  @IsOptional()
+  @IsEnum(StripeEventStatus, { message: 'Status must be one of: processing, processed, failed, ignored' })
+  status?: StripeEventStatus;
+
+  @IsOptional()
+  @IsString({ message: 'Type must be a string' })
+  @MaxLength(100, { message: 'Type must be at most 100 characters' })
+  type?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number;
+
+  constructor(data?: { status?: StripeEventStatus; type?: string; page?: number; limit?: number }) {
+    super();
+    if (data) {
+      this.status = data.status;
+      this.type = data.type;
+      this.page = data.page;
+      this.limit = data.limit;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IQueryDto, ADMIN_USER_SORT_FIELDS, AdminUserSortField } from '../../../interfaces';
+import { UserRole } from '../../../enums';
+
+/**
+ * DTO for searching, filtering, sorting and paginating the admin user listing
+ */
+export class ListUsersQueryDto extends BaseDto implements IQueryDto {
+  @IsOptional()
+  @IsString({ message: 'Search must be a string' })
+  @MaxLength(255, { message: 'Search must be at most 255 characters' })
+  search?: string; // matches email, first or last name
+
+  @IsOptional()
+  @IsIn(['active', 'inactive', 'cancelled', 'expired'], {
+    message: 'Subscription status must be one of: active, inactive, cancelled, expired',
+  })
+  subscription_status?: string;
+
+  @IsOptional()
+  @IsEnum(UserRole, { message: 'Role must be a valid user role' })
+  role?: UserRole;
+
+  @IsOptional()
+  @IsIn(['true', 'false'], { message: 'is_active must be true or false' })
+  is_active?: 'true' | 'false';
+
+  @IsOptional()
+  @IsIn(ADMIN_USER_SORT_FIELDS, { message: `Sort must be one of: ${ADMIN_USER_SORT_FIELDS.join(', ')}` })
+  sort?: AdminUserSortField;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'], { message: 'Order must be asc or desc' })
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number;
+
+  constructor(data?: {
+    search?: string;
+    subscription_status?: string;
+    role?: UserRole;
+    is_active?: 'true' | 'false';
+    sort?: AdminUserSortField;
+    order?: 'asc' | 'desc';
+    page?: number;
+    limit?: number;
+  }) {
+    super();
+    if (data) {
+      this.search = data.search;
+      this.subscription_status = data.subscription_status;
+      this.role = data.role;
+      this.is_active = data.is_active;
+      this.sort = data.sort;
+      this.order = data.order;
+      this.page = data.page;
+      this.limit = data.limit;
+    }
+  }
+}
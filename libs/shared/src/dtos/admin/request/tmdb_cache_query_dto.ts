@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IQueryDto } from '../../../interfaces';
+
+/**
+ * DTO for inspecting TMDB cache entries
+ */
+export class TmdbCacheQueryDto extends BaseDto implements IQueryDto {
+  @IsOptional()
+  @IsString({ message: 'Prefix must be a string' })
+  @MaxLength(200, { message: 'Prefix must be at most 200 characters' })
+  prefix?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(500, { message: 'Limit must be at most 500' })
+  limit?: number;
+
+  constructor(data?: { prefix?: string; limit?: number }) {
+    super();
+    if (data) {
+      this.prefix = data.prefix;
+      this.limit = data.limit;
+    }
+  }
+}
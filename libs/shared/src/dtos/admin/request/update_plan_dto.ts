@@ -0,0 +1,67 @@
+import { IsString, IsNotEmpty, MaxLength, IsEnum, IsNumber, Min, Length, IsArray, ArrayUnique, IsBoolean, IsOptional } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+import { Entitlement, PlanType } from '../../../enums';
+
+/**
+ * DTO for editing a catalog plan
+ * Only the given fields are changed
+ */
+export class UpdatePlanDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name must not be empty' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  @IsOptional()
+  name?: string;
+
+  @IsEnum(PlanType, { message: 'Interval must be one of: monthly, yearly' })
+  @IsOptional()
+  interval?: PlanType;
+
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'Price must be a number with at most 2 decimal places' })
+  @Min(0, { message: 'Price must not be negative' })
+  @IsOptional()
+  price?: number;
+
+  @IsString({ message: 'Currency must be a string' })
+  @Length(3, 3, { message: 'Currency must be a 3-letter ISO 4217 code' })
+  @IsOptional()
+  currency?: string;
+
+  @IsString({ message: 'Stripe price ID must be a string' })
+  @IsNotEmpty({ message: 'Stripe price ID must not be empty' })
+  @MaxLength(255, { message: 'Stripe price ID must be at most 255 characters long' })
+  @IsOptional()
+  stripe_price_id?: string;
+
+  @IsArray({ message: 'Entitlements must be an array' })
+  @ArrayUnique({ message: 'Entitlements must not contain duplicates' })
+  @IsEnum(Entitlement, { each: true, message: 'Each entitlement must be a valid entitlement' })
+  @IsOptional()
+  entitlements?: Entitlement[];
+
+  @IsBoolean({ message: 'is_active must be a boolean' })
+  @IsOptional()
+  is_active?: boolean;
+
+  constructor(data?: {
+    name?: string;
+    interval?: PlanType;
+    price?: number;
+    currency?: string;
+    stripe_price_id?: string;
+    entitlements?: Entitlement[];
+    is_active?: boolean;
+  }) {
+    super();
+    if (data) {
+      this.name = data.name;
+      this.interval = data.interval;
+      this.price = data.price;
+      this.currency = data.currency;
+      this.stripe_price_id = data.stripe_price_id;
+      this.entitlements = data.entitlements;
+      this.is_active = data.is_active;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { IsArray, ArrayUnique, IsEnum } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+import { Permission } from '../../../enums';
+
+/**
+ * DTO for replacing the permissions granted to a role
+ */
+export class UpdateRolePermissionsDto extends BaseDto implements IBodyDto {
+  @IsArray({ message: 'Permissions must be an array' })
+  @ArrayUnique({ message: 'Permissions must not contain duplicates' })
+  @IsEnum(Permission, { each: true, message: 'Each permission must be a valid permission' })
+  permissions!: Permission[];
+
+  constructor(data?: { permissions?: Permission[] }) {
+    super();
+    if (data) {
+      this.permissions = data.permissions || [];
+    }
+  }
+}
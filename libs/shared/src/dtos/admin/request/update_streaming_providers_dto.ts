@@ -0,0 +1,22 @@
+import { IsArray, ArrayNotEmpty, ArrayUnique, IsEnum } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+import { StreamingProvider } from '../../../enums';
+
+/**
+ * DTO for updating the streaming provider fallback chain
+ */
+export class UpdateStreamingProvidersDto extends BaseDto implements IBodyDto {
+  @IsArray({ message: 'Providers must be an array' })
+  @ArrayNotEmpty({ message: 'At least one provider is required' })
+  @ArrayUnique({ message: 'Providers must not contain duplicates' })
+  @IsEnum(StreamingProvider, { each: true, message: 'Each provider must be a valid streaming provider' })
+  providers!: StreamingProvider[];
+
+  constructor(data?: { providers?: StreamingProvider[] }) {
+    super();
+    if (data) {
+      this.providers = data.providers || [];
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { IsEnum } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+import { UserRole } from '../../../enums';
+
+/**
+ * DTO for changing a user's role
+ */
+export class UpdateUserRoleDto extends BaseDto implements IBodyDto {
+  @IsEnum(UserRole, { message: 'Role must be a valid user role' })
+  role!: UserRole;
+
+  constructor(data?: { role?: UserRole }) {
+    super();
+    if (data) {
+      this.role = data.role as UserRole;
+    }
+  }
+}
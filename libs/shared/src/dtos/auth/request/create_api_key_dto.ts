@@ -0,0 +1,34 @@
+import { IsString, IsNotEmpty, MaxLength, IsArray, ArrayNotEmpty, ArrayUnique, IsIn, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto, API_KEY_SCOPES, ApiKeyScope } from '../../../interfaces';
+
+/**
+ * DTO for creating an API key
+ */
+export class CreateApiKeyDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters long' })
+  name!: string;
+
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @ArrayUnique({ message: 'Scopes must not contain duplicates' })
+  @IsIn(API_KEY_SCOPES, { each: true, message: `Each scope must be one of: ${API_KEY_SCOPES.join(', ')}` })
+  scopes!: ApiKeyScope[];
+
+  @IsInt({ message: 'Expiry must be a whole number of days' })
+  @IsOptional()
+  @Min(1, { message: 'Expiry must be at least 1 day' })
+  @Max(365, { message: 'Expiry must be at most 365 days' })
+  expiresInDays?: number;
+
+  constructor(data?: { name?: string; scopes?: ApiKeyScope[]; expiresInDays?: number }) {
+    super();
+    if (data) {
+      this.name = data.name || '';
+      this.scopes = data.scopes || [];
+      this.expiresInDays = data.expiresInDays;
+    }
+  }
+}
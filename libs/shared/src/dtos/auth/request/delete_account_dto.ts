@@ -0,0 +1,20 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for requesting deletion of the current user's account
+ * The password is asked again so a hijacked session cannot delete the account
+ */
+export class DeleteAccountDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  password!: string;
+
+  constructor(data?: { password?: string }) {
+    super();
+    if (data) {
+      this.password = data.password || '';
+    }
+  }
+}
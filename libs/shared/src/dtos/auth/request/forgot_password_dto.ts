@@ -0,0 +1,19 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for requesting a password reset email
+ */
+export class ForgotPasswordDto extends BaseDto implements IBodyDto {
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  @IsNotEmpty({ message: 'Email is required' })
+  email!: string;
+
+  constructor(data?: { email?: string }) {
+    super();
+    if (data) {
+      this.email = data.email || '';
+    }
+  }
+}
@@ -1,4 +1,12 @@
 export * from './register_dto';
 export * from './login_dto';
 export * from './refresh_token_dto';
+export * from './update_profile_dto';
 
+export * from './forgot_password_dto';
+export * from './reset_password_dto';
+export * from './verify_email_dto';
+export * from './two_factor_code_dto';
+export * from './two_factor_login_dto';
+export * from './create_api_key_dto';
+export * from './delete_account_dto';
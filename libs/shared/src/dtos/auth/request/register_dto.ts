@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional, IsEmail, MinLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsEmail, MinLength, IsISO31661Alpha2 } from 'class-validator';
 import { BaseDto } from '../../common/base_dto';
 import { IBodyDto } from '../../../interfaces';
 
@@ -23,13 +23,18 @@ export class RegisterDto extends BaseDto implements IBodyDto {
   @IsOptional()
   last_name?: string;
 
-  constructor(data?: { email?: string; password?: string; first_name?: string; last_name?: string }) {
+  @IsISO31661Alpha2({ message: 'Country must be an ISO 3166-1 alpha-2 code' })
+  @IsOptional()
+  country?: string;
+
+  constructor(data?: { email?: string; password?: string; first_name?: string; last_name?: string; country?: string }) {
     super();
     if (data) {
       this.email = data.email || '';
       this.password = data.password || '';
       this.first_name = data.first_name;
       this.last_name = data.last_name;
+      this.country = data.country;
     }
   }
 }
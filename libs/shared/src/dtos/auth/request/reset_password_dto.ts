@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, MinLength } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for setting a new password with a reset token
+ */
+export class ResetPasswordDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token!: string;
+
+  @IsString({ message: 'Password must be a string' })
+  @IsNotEmpty({ message: 'Password is required' })
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  password!: string;
+
+  constructor(data?: { token?: string; password?: string }) {
+    super();
+    if (data) {
+      this.token = data.token || '';
+      this.password = data.password || '';
+    }
+  }
+}
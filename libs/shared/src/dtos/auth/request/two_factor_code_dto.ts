@@ -0,0 +1,20 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for a two-factor code (TOTP code or recovery code)
+ */
+export class TwoFactorCodeDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(32, { message: 'Code must not exceed 32 characters' })
+  code!: string;
+
+  constructor(data?: { code?: string }) {
+    super();
+    if (data) {
+      this.code = data.code || '';
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for completing a two-factor login challenge
+ */
+export class TwoFactorLoginDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Challenge token must be a string' })
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken!: string;
+
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @MaxLength(32, { message: 'Code must not exceed 32 characters' })
+  code!: string;
+
+  constructor(data?: { challengeToken?: string; code?: string }) {
+    super();
+    if (data) {
+      this.challengeToken = data.challengeToken || '';
+      this.code = data.code || '';
+    }
+  }
+}
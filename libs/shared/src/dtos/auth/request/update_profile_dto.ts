@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsISO31661Alpha2 } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for updating the current user's profile
+ */
+export class UpdateProfileDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'First name must be a string' })
+  @IsOptional()
+  first_name?: string;
+
+  @IsString({ message: 'Last name must be a string' })
+  @IsOptional()
+  last_name?: string;
+
+  @IsISO31661Alpha2({ message: 'Country must be an ISO 3166-1 alpha-2 code' })
+  @IsOptional()
+  country?: string;
+
+  constructor(data?: { first_name?: string; last_name?: string; country?: string }) {
+    super();
+    if (data) {
+      this.first_name = data.first_name;
+      this.last_name = data.last_name;
+      this.country = data.country;
+    }
+  }
+}
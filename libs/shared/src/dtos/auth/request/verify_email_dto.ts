@@ -0,0 +1,19 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for verifying an email address with a verification token
+ */
+export class VerifyEmailDto extends BaseDto implements IBodyDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token!: string;
+
+  constructor(data?: { token?: string }) {
+    super();
+    if (data) {
+      this.token = data.token || '';
+    }
+  }
+}
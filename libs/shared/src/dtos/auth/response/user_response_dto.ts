@@ -22,6 +22,10 @@ export class UserResponseDto {
   @IsString()
   last_name?: string;
 
+  @IsOptional()
+  @IsString()
+  country?: string;
+
   @IsString()
   subscription_status!: string;
 
@@ -34,6 +38,7 @@ export class UserResponseDto {
     this.email = user.email;
     this.first_name = user.first_name;
     this.last_name = user.last_name;
+    this.country = user.country;
     this.subscription_status = user.subscription_status;
     this.created_at = user.created_at;
   }
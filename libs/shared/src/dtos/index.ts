@@ -26,14 +26,18 @@ export * from './auth/response';
 export * from './subscription/request';
 export * from './admin/request';
 export * from './admin/response';
+export * from './subtitle/request';
+export * from './library/request';
 
 // Re-export commonly used types for convenience
 export { BaseDto, ValidationFailedError } from './common/base_dto';
-export { IdParamDto } from './params';
+export { IdParamDto, MovieIdParamDto, SessionIdParamDto, UserIdParamDto, RoleParamDto, ApiKeyIdParamDto, StripeEventIdParamDto, PlanIdParamDto } from './params';
 export { CreateItemDto, UpdateItemDto, ItemResponseDto } from './item';
-export { RegisterDto, LoginDto, RefreshTokenDto } from './auth/request';
+export { RegisterDto, LoginDto, RefreshTokenDto, UpdateProfileDto, ForgotPasswordDto, ResetPasswordDto, VerifyEmailDto, TwoFactorCodeDto, TwoFactorLoginDto, CreateApiKeyDto, DeleteAccountDto } from './auth/request';
 export { AuthResponseDto, TokenResponseDto, UserResponseDto } from './auth/response';
-export { CreateSubscriptionDto, CancelSubscriptionDto } from './subscription/request';
-export { FundSubscriptionDto, AddApiCreditsDto } from './admin/request';
+export { CreateSubscriptionDto, CancelSubscriptionDto, CreateCheckoutSessionDto, ChangePlanDto, ChangePlanPreviewQueryDto } from './subscription/request';
+export { FundSubscriptionDto, AddApiCreditsDto, UpdateStreamingProvidersDto, EnqueueSubtitleTranslationDto, UpdateUserRoleDto, UpdateRolePermissionsDto, ListUsersQueryDto, ListAuditEventsQueryDto, ListStripeEventsQueryDto, TmdbCacheQueryDto, CreatePlanDto, UpdatePlanDto } from './admin/request';
 export { AdminFundingResponseDto, ApiCreditResponseDto, SubscriptionResponseDto } from './admin/response';
+export { UploadSubtitleDto } from './subtitle/request';
+export { UpdateProgressDto } from './library/request';
 
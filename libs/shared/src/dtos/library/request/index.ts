@@ -0,0 +1 @@
+export * from './update_progress_dto';
@@ -0,0 +1,24 @@
+import { IsInt, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for syncing playback progress (seconds)
+ */
+export class UpdateProgressDto extends BaseDto implements IBodyDto {
+  @IsInt({ message: 'Position must be an integer number of seconds' })
+  @Min(0, { message: 'Position must not be negative' })
+  position!: number;
+
+  @IsInt({ message: 'Duration must be an integer number of seconds' })
+  @Min(1, { message: 'Duration must be at least 1 second' })
+  duration!: number;
+
+  constructor(data?: { position?: number; duration?: number }) {
+    super();
+    if (data) {
+      this.position = data.position ?? 0;
+      this.duration = data.duration ?? 0;
+    }
+  }
+}
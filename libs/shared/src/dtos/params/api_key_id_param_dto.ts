@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+
+/**
+ * DTO for validating API key ID parameters in routes
+ */
+export class ApiKeyIdParamDto extends BaseDto implements IParamDto {
+  @IsUUID('4', { message: 'API key ID must be a valid UUID' })
+  id!: string;
+
+  constructor(data?: { id?: string }) {
+    super();
+    if (data?.id !== undefined) {
+      this.id = data.id;
+    }
+  }
+}
@@ -2,3 +2,10 @@
  * Parameter DTOs - For validating URL parameters and query strings
  */
 export * from './id_param_dto';
+export * from './movie_id_param_dto';
+export * from './session_id_param_dto';
+export * from './user_id_param_dto';
+export * from './role_param_dto';
+export * from './api_key_id_param_dto';
+export * from './stripe_event_id_param_dto';
+export * from './plan_id_param_dto';
@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+
+/**
+ * DTO for validating movie ID parameters in routes
+ */
+export class MovieIdParamDto extends BaseDto implements IParamDto {
+  @IsUUID('4', { message: 'Movie ID must be a valid UUID' })
+  movieId!: string;
+
+  constructor(data?: { movieId?: string }) {
+    super();
+    if (data?.movieId !== undefined) {
+      this.movieId = data.movieId;
+    }
+  }
+}
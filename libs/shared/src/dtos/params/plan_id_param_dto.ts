@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+
+/**
+ * DTO for validating plan ID parameters in routes
+ */
+export class PlanIdParamDto extends BaseDto implements IParamDto {
+  @IsUUID('4', { message: 'Plan ID must be a valid UUID' })
+  id!: string;
+
+  constructor(data?: { id?: string }) {
+    super();
+    if (data?.id !== undefined) {
+      this.id = data.id;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { IsEnum } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+import { UserRole } from '../../enums';
+
+/**
+ * DTO for validating role parameters in routes
+ */
+export class RoleParamDto extends BaseDto implements IParamDto {
+  @IsEnum(UserRole, { message: 'Role must be a valid user role' })
+  role!: UserRole;
+
+  constructor(data?: { role?: UserRole }) {
+    super();
+    if (data?.role !== undefined) {
+      this.role = data.role;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+
+/**
+ * DTO for validating stored Stripe event ID parameters in routes
+ */
+export class StripeEventIdParamDto extends BaseDto implements IParamDto {
+  @IsUUID('4', { message: 'Event ID must be a valid UUID' })
+  id!: string;
+
+  constructor(data?: { id?: string }) {
+    super();
+    if (data?.id !== undefined) {
+      this.id = data.id;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../common/base_dto';
+import { IParamDto } from '../../interfaces';
+
+/**
+ * DTO for validating user ID parameters in routes
+ */
+export class UserIdParamDto extends BaseDto implements IParamDto {
+  @IsUUID('4', { message: 'User ID must be a valid UUID' })
+  userId!: string;
+
+  constructor(data?: { userId?: string }) {
+    super();
+    if (data?.userId !== undefined) {
+      this.userId = data.userId;
+    }
+  }
+}
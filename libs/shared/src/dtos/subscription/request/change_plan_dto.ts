@@ -0,0 +1,25 @@
+import { IsInt, IsOptional, IsUUID, Min } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for switching the current subscription to another plan
+ */
+export class ChangePlanDto extends BaseDto implements IBodyDto {
+  @IsUUID('4', { message: 'Plan ID must be a valid UUID' })
+  planId!: string;
+
+  // From the preview; accepted for 10 minutes after it was issued
+  @IsOptional()
+  @IsInt({ message: 'Proration date must be a Unix timestamp' })
+  @Min(0, { message: 'Proration date must be a Unix timestamp' })
+  proration_date?: number;
+
+  constructor(data?: { planId?: string; proration_date?: number }) {
+    super();
+    if (data) {
+      this.planId = data.planId || '';
+      this.proration_date = data.proration_date;
+    }
+  }
+}
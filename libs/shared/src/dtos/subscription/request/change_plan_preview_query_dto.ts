@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IQueryDto } from '../../../interfaces';
+
+/**
+ * DTO for previewing a switch of the current subscription to another plan
+ */
+export class ChangePlanPreviewQueryDto extends BaseDto implements IQueryDto {
+  @IsUUID('4', { message: 'Plan ID must be a valid UUID' })
+  planId!: string;
+
+  constructor(data?: { planId?: string }) {
+    super();
+    if (data) {
+      this.planId = data.planId || '';
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { IsUUID } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto } from '../../../interfaces';
+
+/**
+ * DTO for starting a Stripe Checkout session for a plan
+ */
+export class CreateCheckoutSessionDto extends BaseDto implements IBodyDto {
+  @IsUUID('4', { message: 'Plan ID must be a valid UUID' })
+  planId!: string;
+
+  constructor(data?: { planId?: string }) {
+    super();
+    if (data) {
+      this.planId = data.planId || '';
+    }
+  }
+}
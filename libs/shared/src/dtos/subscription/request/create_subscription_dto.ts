@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { IsString, IsUUID, IsOptional } from 'class-validator';
 import { BaseDto } from '../../common/base_dto';
 import { IBodyDto } from '../../../interfaces';
 
@@ -6,18 +6,17 @@ import { IBodyDto } from '../../../interfaces';
  * DTO for creating a subscription
  */
 export class CreateSubscriptionDto extends BaseDto implements IBodyDto {
-  @IsString({ message: 'Price ID must be a string' })
-  @IsNotEmpty({ message: 'Price ID is required' })
-  priceId!: string;
+  @IsUUID('4', { message: 'Plan ID must be a valid UUID' })
+  planId!: string;
 
   @IsString({ message: 'Payment method ID must be a string' })
   @IsOptional()
   paymentMethodId?: string;
 
-  constructor(data?: { priceId?: string; paymentMethodId?: string }) {
+  constructor(data?: { planId?: string; paymentMethodId?: string }) {
     super();
     if (data) {
-      this.priceId = data.priceId || '';
+      this.planId = data.planId || '';
       this.paymentMethodId = data.paymentMethodId;
     }
   }
@@ -1,3 +1,6 @@
 export * from './create_subscription_dto';
 export * from './cancel_subscription_dto';
 
+export * from './create_checkout_session_dto';
+export * from './change_plan_dto';
+export * from './change_plan_preview_query_dto';
@@ -0,0 +1 @@
+export * from './upload_subtitle_dto';
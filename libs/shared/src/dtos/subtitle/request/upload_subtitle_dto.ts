@@ -0,0 +1,30 @@
+import { IsString, IsNotEmpty, IsIn, IsOptional, MaxLength } from 'class-validator';
+import { BaseDto } from '../../common/base_dto';
+import { IBodyDto, SUBTITLE_FORMATS, SUBTITLE_LANGUAGES, SubtitleFormat, SubtitleLanguage } from '../../../interfaces';
+
+/**
+ * DTO for uploading a subtitle track
+ * Content is the raw SRT or WebVTT file; format is detected when omitted
+ */
+export class UploadSubtitleDto extends BaseDto implements IBodyDto {
+  @IsIn(SUBTITLE_LANGUAGES, { message: `Language must be one of: ${SUBTITLE_LANGUAGES.join(', ')}` })
+  language!: SubtitleLanguage;
+
+  @IsString({ message: 'Content must be a string' })
+  @IsNotEmpty({ message: 'Content is required' })
+  @MaxLength(1048576, { message: 'Subtitle file must not exceed 1MB' })
+  content!: string;
+
+  @IsIn(SUBTITLE_FORMATS, { message: `Format must be one of: ${SUBTITLE_FORMATS.join(', ')}` })
+  @IsOptional()
+  format?: SubtitleFormat;
+
+  constructor(data?: { language?: SubtitleLanguage; content?: string; format?: SubtitleFormat }) {
+    super();
+    if (data) {
+      this.language = data.language as SubtitleLanguage;
+      this.content = data.content || '';
+      this.format = data.format;
+    }
+  }
+}
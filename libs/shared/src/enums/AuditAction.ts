@@ -0,0 +1,58 @@
+/**
+ * Audit action enum
+ * Privileged and billing actions recorded in the audit log, as "<entity>.<verb>"
+ */
+export enum AuditAction {
+  // Admin back office
+  SUBSCRIPTION_FUNDED = 'subscription.funded',
+  API_CREDITS_ADDED = 'api_credits.added',
+  STREAMING_PROVIDERS_UPDATED = 'streaming_providers.updated',
+  USER_ROLE_CHANGED = 'user.role_changed',
+  USER_DEACTIVATED = 'user.deactivated',
+  USER_REACTIVATED = 'user.reactivated',
+  USER_UNLOCKED = 'user.unlocked',
+  USER_PASSWORD_RESET_FORCED = 'user.password_reset_forced',
+  USER_SESSIONS_REVOKED = 'user.sessions_revoked',
+  API_KEY_CREATED = 'api_key.created',
+  API_KEY_REVOKED = 'api_key.revoked',
+  ROLE_PERMISSIONS_UPDATED = 'role.permissions_updated',
+  STRIPE_EVENT_REPLAYED = 'stripe_event.replayed',
+  PLAN_CREATED = 'plan.created',
+  PLAN_UPDATED = 'plan.updated',
+  PLAN_DELETED = 'plan.deleted',
+
+  // Subscriptions
+  SUBSCRIPTION_CREATED = 'subscription.created',
+  SUBSCRIPTION_CANCELLED = 'subscription.cancelled',
+  SUBSCRIPTION_PLAN_CHANGED = 'subscription.plan_changed',
+
+  // Account security
+  ACCOUNT_LOCKED = 'user.locked',
+  PASSWORD_RESET = 'user.password_reset',
+
+  // Stripe webhooks
+  STRIPE_SUBSCRIPTION_SYNCED = 'stripe.subscription_synced',
+  STRIPE_SUBSCRIPTION_DELETED = 'stripe.subscription_deleted',
+  STRIPE_PAYMENT_SUCCEEDED = 'stripe.payment_succeeded',
+  STRIPE_PAYMENT_FAILED = 'stripe.payment_failed',
+  STRIPE_CHECKOUT_COMPLETED = 'stripe.checkout_completed',
+  STRIPE_INVOICE_PAID = 'stripe.invoice_paid',
+  STRIPE_INVOICE_PAYMENT_FAILED = 'stripe.invoice_payment_failed',
+  STRIPE_CHARGE_REFUNDED = 'stripe.charge_refunded',
+}
+
+/**
+ * Who performed an audited action
+ */
+export enum AuditActorType {
+  USER = 'user',
+  SYSTEM = 'system', // background jobs and automatic rules such as lockouts
+  STRIPE = 'stripe', // webhook deliveries
+}
+
+/**
+ * Type guard to check if a value is a valid audit action
+ */
+export function isAuditAction(value: unknown): value is AuditAction {
+  return Object.values(AuditAction).includes(value as AuditAction);
+}
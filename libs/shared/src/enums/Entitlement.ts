@@ -0,0 +1,15 @@
+/**
+ * Entitlement enum
+ * A premium feature that requires a subscription, admin funding or trial
+ */
+export enum Entitlement {
+  STREAMING = 'streaming',
+  SUBTITLES = 'subtitles',
+}
+
+/**
+ * Type guard to check if a value is a valid entitlement
+ */
+export function isEntitlement(value: unknown): value is Entitlement {
+  return Object.values(Entitlement).includes(value as Entitlement);
+}
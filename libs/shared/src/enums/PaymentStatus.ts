@@ -8,6 +8,7 @@ export enum PaymentStatus {
   FAILED = 'failed',
   PROCESSING = 'processing',
   CANCELED = 'canceled',
+  REFUNDED = 'refunded',
 }
 
 /**
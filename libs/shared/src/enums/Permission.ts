@@ -0,0 +1,34 @@
+import { UserRole } from './UserRole';
+
+/**
+ * Permission enum
+ * Fine-grained capabilities granted to roles; admins hold all of them
+ */
+export enum Permission {
+  CATALOG_WRITE = 'catalog:write', // TMDB cache and streaming provider settings
+  SUBTITLES_MODERATE = 'subtitles:moderate', // subtitle uploads and AI translations
+  BILLING_READ = 'billing:read', // subscriptions, funding, API credit and Stripe event lookups
+  BILLING_WRITE = 'billing:write', // replaying failed Stripe events
+  FUNDING_WRITE = 'funding:write', // funding subscriptions and adding API credits
+  USERS_READ = 'users:read', // user search, details and sessions
+  USERS_WRITE = 'users:write', // revoking sessions, unlocking and deactivating accounts
+  ROLES_WRITE = 'roles:write', // changing user roles and role permissions
+  AUDIT_READ = 'audit:read', // viewing and exporting the audit log
+}
+
+/**
+ * Type guard to check if a value is a valid permission
+ */
+export function isPermission(value: unknown): value is Permission {
+  return Object.values(Permission).includes(value as Permission);
+}
+
+/**
+ * Permissions each role starts with; seeded into role_permissions when it is empty
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.USER]: [],
+  [UserRole.MODERATOR]: [Permission.CATALOG_WRITE, Permission.SUBTITLES_MODERATE],
+  [UserRole.SUPPORT]: [Permission.BILLING_READ, Permission.USERS_READ],
+  [UserRole.ADMIN]: Object.values(Permission),
+};
@@ -0,0 +1,17 @@
+/**
+ * Stripe event status enum
+ * Processing state of a received Stripe webhook event
+ */
+export enum StripeEventStatus {
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  FAILED = 'failed', // can be replayed from the admin API
+  IGNORED = 'ignored', // event type the API does not handle
+}
+
+/**
+ * Type guard to check if a value is a valid Stripe event status
+ */
+export function isStripeEventStatus(value: unknown): value is StripeEventStatus {
+  return Object.values(StripeEventStatus).includes(value as StripeEventStatus);
+}
@@ -4,6 +4,8 @@
  */
 export enum UserRole {
   USER = 'user',
+  MODERATOR = 'moderator',
+  SUPPORT = 'support',
   ADMIN = 'admin',
 }
 
@@ -8,5 +8,8 @@ export * from './AdminFundingStatus';
 export * from './PlanType';
 export * from './PaymentStatus';
 export * from './UserRole';
+export * from './Permission';
 export * from './StreamingProvider';
-
+export * from './AuditAction';
+export * from './StripeEventStatus';
+export * from './Entitlement';
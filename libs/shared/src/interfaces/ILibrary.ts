@@ -0,0 +1,59 @@
+/**
+ * User library interfaces
+ * Favorites, watch history and playback state backed by user_movies
+ */
+
+/**
+ * Movie fields included with library entries
+ */
+export interface ILibraryMovie {
+  id: string;
+  tmdb_id?: number;
+  title: string;
+  poster_path?: string;
+  backdrop_path?: string;
+  release_date?: Date;
+  language?: string;
+  runtime?: number;
+  vote_average?: number;
+}
+
+/**
+ * Caller's library state for a movie
+ */
+export interface ILibraryState {
+  favorited: boolean;
+  watched_at: Date | null;
+  watch_position: number; // seconds
+  progress_updated_at?: Date | null;
+  updated_at?: Date;
+}
+
+/**
+ * Library entry with movie details
+ */
+export interface ILibraryEntry extends ILibraryState {
+  movie_id: string;
+  movie?: ILibraryMovie;
+}
+
+/**
+ * Paginated library listing
+ */
+export interface ILibraryPage {
+  data: ILibraryEntry[];
+  count: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Result of a playback progress update
+ */
+export interface IPlaybackProgress {
+  movie_id: string;
+  watch_position: number; // seconds, reset to 0 once completed
+  watched_at: Date | null;
+  completed: boolean;
+  persisted: boolean; // false when the write was throttled
+}
@@ -3,6 +3,8 @@
  * Used for TMDB API responses and internal movie data
  */
 
+import { StreamingProvider } from '../enums';
+
 /**
  * TMDB Movie data structure
  */
@@ -97,6 +99,11 @@ export interface ITMDBMovieDetails extends ITMDBMovie {
   }>;
 }
 
+/**
+ * Streaming monetization types (matches TMDB watch provider buckets)
+ */
+export type StreamingMonetization = 'flatrate' | 'rent' | 'buy' | 'free' | 'ads';
+
 /**
  * Streaming Link interface
  */
@@ -106,6 +113,45 @@ export interface IStreamingLink {
   quality?: string;
   language?: string;
   subtitles?: string[];
+  region?: string; // ISO 3166-1 alpha-2
+  monetization?: StreamingMonetization;
+}
+
+/**
+ * Streaming provider failure
+ * Reported when a provider in the chain errors or is misconfigured
+ */
+export interface IStreamingProviderFailure {
+  provider: StreamingProvider;
+  error: string;
+}
+
+/**
+ * Refresh state of one region's stored streaming links
+ * fetched_at is set whenever a provider answered, even with no links
+ */
+export interface IStreamingRegionRefresh {
+  fetched_at: string | null; // ISO timestamp of the last answered fetch
+  failed_at: string | null; // ISO timestamp of the last fetch where no provider answered
+  failures: number; // consecutive failed fetches, drives the retry backoff
+}
+
+/**
+ * Where streaming links were served from
+ */
+export type StreamingLinksSource = 'database' | 'live';
+
+/**
+ * Streaming links result
+ * Merged links from the provider chain with per-provider outcome metadata
+ */
+export interface IStreamingLinksResult {
+  region: string;
+  links: IStreamingLink[];
+  answered_by: StreamingProvider[];
+  failed_providers: IStreamingProviderFailure[];
+  source?: StreamingLinksSource;
+  updated_at?: Date | null; // When the stored links were last refreshed
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Subtitle-related interfaces
+ * Used for subtitle upload, listing and serving
+ */
+
+/**
+ * Supported subtitle languages
+ */
+export const SUBTITLE_LANGUAGES = ['en', 'si'] as const;
+export type SubtitleLanguage = typeof SUBTITLE_LANGUAGES[number];
+
+/**
+ * Supported subtitle file formats
+ */
+export const SUBTITLE_FORMATS = ['srt', 'vtt'] as const;
+export type SubtitleFormat = typeof SUBTITLE_FORMATS[number];
+
+/**
+ * Subtitle translation status
+ */
+export type SubtitleTranslationStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * A single subtitle cue
+ * Timings are in milliseconds from the start of the video
+ */
+export interface ISubtitleCue {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Subtitle track summary (content is served separately)
+ */
+export interface ISubtitle {
+  id: string;
+  movie_id: string;
+  language: SubtitleLanguage;
+  translated_by_ai: boolean;
+  translation_status: SubtitleTranslationStatus;
+  translation_error?: string | null; // Last failure reason for AI translations
+  translation_attempts?: number;
+  cue_count?: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
@@ -0,0 +1,51 @@
+import { UserRole } from '../../enums';
+import { IAdminFunding } from './IAdminFunding';
+import { ISubscription } from './ISubscription';
+import { IPayment } from '../payment';
+
+/**
+ * User as listed in the admin back office
+ * Profile fields joined with account state from the auth record
+ */
+export interface IAdminUserSummary {
+  id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  country?: string;
+  subscription_status: string;
+  role: UserRole | null; // null when the user has no auth record (e.g. purged)
+  is_active: boolean;
+  email_verified_at?: Date | null;
+  last_login?: Date | null;
+  locked_until?: Date | null;
+  two_factor_enabled: boolean;
+  deletion_scheduled_at?: Date | null;
+  anonymized_at?: Date | null;
+  created_at: Date;
+}
+
+/**
+ * User with billing history, as shown on the admin user page
+ */
+export interface IAdminUserDetail extends IAdminUserSummary {
+  subscriptions: ISubscription[];
+  payments: IPayment[];
+  admin_fundings: IAdminFunding[];
+}
+
+/**
+ * Paginated admin user listing
+ */
+export interface IAdminUserPage {
+  data: IAdminUserSummary[];
+  count: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Sortable columns of the admin user listing
+ */
+export type AdminUserSortField = 'created_at' | 'email' | 'last_name' | 'last_login' | 'subscription_status';
+export const ADMIN_USER_SORT_FIELDS: AdminUserSortField[] = ['created_at', 'email', 'last_name', 'last_login', 'subscription_status'];
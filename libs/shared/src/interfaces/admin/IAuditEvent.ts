@@ -0,0 +1,50 @@
+import { AuditAction, AuditActorType, UserRole } from '../../enums';
+
+/**
+ * Changed fields of an audited entity, keyed by field name
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+/**
+ * Audit event interface
+ * One append-only record of a privileged or billing action
+ */
+export interface IAuditEvent {
+  id: string;
+  actor_type: AuditActorType;
+  actor_id?: string | null; // user ID when actor_type is "user"
+  actor_role?: UserRole | null;
+  api_key_id?: string | null; // set when the actor used an API key
+  action: AuditAction;
+  target_type: string; // e.g. "user", "subscription", "payment"
+  target_id?: string | null;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+  ip_address?: string | null;
+  request_id?: string | null;
+  created_at: Date;
+}
+
+/**
+ * Paginated audit log listing
+ */
+export interface IAuditEventPage {
+  data: IAuditEvent[];
+  count: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Audit log filters; every given field must match
+ */
+export interface IAuditEventFilters {
+  actor_type?: AuditActorType;
+  actor_id?: string;
+  action?: AuditAction;
+  target_type?: string;
+  target_id?: string;
+  request_id?: string;
+  from?: Date;
+  to?: Date;
+}
@@ -0,0 +1,28 @@
+import { StripeEventStatus } from '../../enums';
+
+/**
+ * Stripe event interface
+ * A received webhook event and how processing it went
+ */
+export interface IStripeEvent {
+  id: string;
+  stripe_event_id: string;
+  type: string;
+  status: StripeEventStatus;
+  attempts: number;
+  last_error?: string | null;
+  payload: Record<string, unknown>; // the event as Stripe sent it
+  processed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Paginated Stripe event listing
+ */
+export interface IStripeEventPage {
+  data: IStripeEvent[];
+  count: number;
+  page: number;
+  limit: number;
+}
@@ -9,6 +9,7 @@ export interface ISubscription {
   stripe_subscription_id?: string;
   status: SubscriptionStatus;
   plan_type: PlanType;
+  plan_id?: string | null; // catalog plan of the Stripe price, if any
   start_date?: Date;
   end_date?: Date;
   current_period_start?: Date;
@@ -0,0 +1,28 @@
+/**
+ * TMDB cache endpoint types
+ * Each type has its own TTL configured in appConfig.tmdb.cache.ttl
+ */
+export type TmdbCacheEndpointType = 'search' | 'popular' | 'trending' | 'details' | 'discover';
+
+/**
+ * TMDB cache entry interface
+ * Describes a cached TMDB response (payload omitted)
+ */
+export interface ITmdbCacheEntry {
+  key: string;
+  endpoint: string;
+  hits: number;
+  expires_at: Date;
+  created_at?: Date;
+}
+
+/**
+ * TMDB cache statistics interface
+ */
+export interface ITmdbCacheStats {
+  store: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
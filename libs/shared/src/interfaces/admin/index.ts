@@ -4,4 +4,8 @@
 export * from './IAdminFunding';
 export * from './IApiCredit';
 export * from './ISubscription';
+export * from './ITmdbCache';
 
+export * from './IAdminUser';
+export * from './IAuditEvent';
+export * from './IStripeEvent';
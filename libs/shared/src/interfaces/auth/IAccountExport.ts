@@ -0,0 +1,24 @@
+import { IUser } from './IUser';
+import { IAdminFunding, ISubscription } from '../admin';
+import { IPayment } from '../payment';
+import { ILibraryEntry } from '../ILibrary';
+
+/**
+ * Account export interface
+ * Everything we hold about a user, as returned by GET /api/me/export
+ */
+export interface IAccountExport {
+  exported_at: Date;
+  profile: IUser;
+  subscriptions: ISubscription[];
+  payments: IPayment[];
+  admin_fundings: IAdminFunding[];
+  library: ILibraryEntry[];
+}
+
+/**
+ * Pending account deletion
+ */
+export interface IAccountDeletion {
+  deletion_scheduled_at: Date;
+}
@@ -0,0 +1,47 @@
+import { Permission } from '../../enums';
+
+/**
+ * What an API key may do
+ * "read" allows GET/HEAD requests and "write" any method; permission scopes
+ * additionally unlock permission-protected routes the owner's role allows
+ */
+export type ApiKeyScope = 'read' | 'write' | Permission;
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', ...Object.values(Permission)];
+
+/**
+ * API key interface
+ * The key itself is shown once on creation; only its SHA-256 hash is stored
+ */
+export interface IApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string; // leading characters of the key, to tell keys apart
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * API key as listed to its owner
+ */
+export interface IApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Newly created API key, including the plain key
+ */
+export interface ICreatedApiKey extends IApiKeySummary {
+  key: string;
+}
@@ -11,6 +11,11 @@ export interface IAuth {
   role: UserRole;
   is_active: boolean;
   last_login?: Date;
+  two_factor_secret?: string | null;
+  two_factor_enabled_at?: Date | null;
+  two_factor_recovery_codes?: string[];
+  two_factor_last_step?: number | null;
+  locked_until?: Date | null;
   created_at?: Date;
   updated_at?: Date;
   // Optional associations
@@ -0,0 +1,50 @@
+/**
+ * Auth session interface
+ * One signed-in device; its refresh tokens form a single rotation family
+ */
+export interface IAuthSession {
+  id: string;
+  user_id: string;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  last_used_at?: Date | null;
+  expires_at: Date;
+  revoked_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Client details recorded when a session starts
+ */
+export interface ISessionClient {
+  user_agent?: string;
+  ip_address?: string;
+}
+
+/**
+ * Active session as listed to its owner or an admin
+ * current marks the session the request was made from
+ */
+export interface IActiveSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  expires_at: Date;
+  current: boolean;
+}
+
+/**
+ * Refresh token interface
+ * Stored as a SHA-256 hash; replaced_by points at the token it was rotated into
+ */
+export interface IRefreshToken {
+  id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  replaced_by?: string | null;
+  created_at?: Date;
+}
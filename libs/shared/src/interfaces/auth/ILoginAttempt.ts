@@ -0,0 +1,9 @@
+/**
+ * Failed login attempts recorded against one key
+ * Keys are "account:<email>" or "ip:<address>"
+ */
+export interface ILoginAttempt {
+  key: string;
+  failures: number;
+  last_failed_at: Date;
+}
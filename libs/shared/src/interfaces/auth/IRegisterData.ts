@@ -7,5 +7,6 @@ export interface IRegisterData {
   password: string;
   first_name?: string;
   last_name?: string;
+  country?: string;
 }
 
@@ -0,0 +1,19 @@
+import { Permission, UserRole } from '../../enums';
+
+/**
+ * Role permission interface
+ * One row of the role → permission mapping
+ */
+export interface IRolePermission {
+  role: UserRole;
+  permission: Permission;
+  created_at?: Date;
+}
+
+/**
+ * Permissions granted to a role
+ */
+export interface IRolePermissions {
+  role: UserRole;
+  permissions: Permission[];
+}
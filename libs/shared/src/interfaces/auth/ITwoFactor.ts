@@ -0,0 +1,35 @@
+import { IAuthTokens } from './IAuthTokens';
+import { IUser } from './IUser';
+
+/**
+ * Two-factor login challenge
+ * Returned by login instead of tokens when the account has 2FA enabled;
+ * exchanged for tokens together with a TOTP or recovery code
+ */
+export interface ITwoFactorChallenge {
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Login result: full tokens, or a challenge when a second factor is needed
+ */
+export type ILoginResult =
+  | { user: IUser; tokens: IAuthTokens }
+  | { challenge: ITwoFactorChallenge };
+
+/**
+ * Two-factor enrollment
+ * The secret is also embedded in otpauth_uri for QR codes
+ */
+export interface ITwoFactorEnrollment {
+  secret: string;
+  otpauth_uri: string;
+}
+
+/**
+ * Recovery codes, shown once when 2FA is enabled
+ */
+export interface ITwoFactorRecoveryCodes {
+  recovery_codes: string[];
+}
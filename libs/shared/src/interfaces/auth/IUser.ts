@@ -7,7 +7,12 @@ export interface IUser {
   email: string;
   first_name?: string;
   last_name?: string;
+  country?: string; // ISO 3166-1 alpha-2, used as default streaming region
   subscription_status: string;
+  email_verified_at?: Date | null;
+  deletion_scheduled_at?: Date | null; // personal data is purged after this
+  anonymized_at?: Date | null;
+  stripe_customer_id?: string | null; // created on first checkout
   created_at?: Date;
   updated_at?: Date;
 }
@@ -0,0 +1,19 @@
+/**
+ * What a one-time user token can be redeemed for
+ */
+export const USER_TOKEN_PURPOSES = ['password_reset', 'email_verification'] as const;
+export type UserTokenPurpose = typeof USER_TOKEN_PURPOSES[number];
+
+/**
+ * One-time user token interface
+ * Emailed to the user in plain form; only its SHA-256 hash is stored
+ */
+export interface IUserToken {
+  id: string;
+  user_id: string;
+  purpose: UserTokenPurpose;
+  token_hash: string;
+  expires_at: Date;
+  used_at?: Date | null;
+  created_at?: Date;
+}
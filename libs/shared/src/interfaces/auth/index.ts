@@ -7,3 +7,10 @@ export * from './IAuthTokens';
 export * from './IUser';
 export * from './IAuth';
 
+export * from './IAuthSession';
+export * from './IUserToken';
+export * from './ITwoFactor';
+export * from './ILoginAttempt';
+export * from './IRolePermission';
+export * from './IApiKey';
+export * from './IAccountExport';
@@ -9,3 +9,5 @@ export * from './IMovie';
 export * from './admin';
 export * from './auth';
 export * from './payment';
+export * from './ISubtitle';
+export * from './ILibrary';
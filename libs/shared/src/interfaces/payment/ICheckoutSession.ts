@@ -0,0 +1,16 @@
+/**
+ * Checkout session interface
+ * A hosted Stripe Checkout page the web app redirects the user to
+ */
+export interface ICheckoutSession {
+  session_id: string;
+  url: string;
+}
+
+/**
+ * Billing portal session interface
+ * A hosted Stripe page where the user manages payment methods and invoices
+ */
+export interface IBillingPortalSession {
+  url: string;
+}
@@ -0,0 +1,33 @@
+import { Entitlement, PlanType, SubscriptionStatus } from '../../enums';
+
+/**
+ * What gives a user their premium features
+ */
+export type EntitlementSource = 'subscription' | 'admin_funding' | 'trial';
+
+/**
+ * Entitlements interface
+ * A user's effective access to premium features
+ * expires_at is when access ends (null when it has no end date); when active
+ * is false it is when access last ended, if it ever existed
+ */
+export interface IEntitlements {
+  active: boolean;
+  source: EntitlementSource | null;
+  plan_type: PlanType | null;
+  subscription_status: SubscriptionStatus | null;
+  expires_at: Date | null;
+  entitlements: Entitlement[];
+}
+
+/**
+ * Details of a 402 response for a feature the user is not entitled to
+ * The web app uses these to show an upgrade prompt
+ */
+export interface IEntitlementRequiredDetails {
+  code: 'entitlement_required';
+  entitlement: Entitlement;
+  subscription_status: SubscriptionStatus | null;
+  expired_at: Date | null;
+  upgrade_url: string;
+}
@@ -0,0 +1,23 @@
+import { Entitlement, PlanType } from '../../enums';
+
+/**
+ * Plan interface
+ * A subscription plan in the catalog, billed through a Stripe price
+ */
+export interface IPlan {
+  id: string;
+  name: string;
+  interval: PlanType;
+  price: number;
+  currency: string;
+  stripe_price_id: string;
+  entitlements: Entitlement[]; // premium features the plan grants
+  is_active: boolean; // inactive plans are hidden from the pricing page and cannot be subscribed to
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Plan as shown on the public pricing page
+ */
+export type IPublicPlan = Pick<IPlan, 'id' | 'name' | 'interval' | 'price' | 'currency' | 'entitlements'>;
@@ -0,0 +1,22 @@
+/**
+ * One line of the invoice a plan change would produce
+ */
+export interface IPlanChangeLine {
+  description: string | null;
+  amount: number;
+  proration: boolean;
+}
+
+/**
+ * Plan change preview interface
+ * What switching plans would charge now; pass proration_date back when
+ * confirming so the charge matches the preview
+ */
+export interface IPlanChangePreview {
+  current_plan_id: string | null; // null when the current Stripe price is not in the plan catalog
+  new_plan_id: string;
+  amount_due: number;
+  currency: string;
+  proration_date: number; // Unix timestamp (seconds)
+  lines: IPlanChangeLine[];
+}
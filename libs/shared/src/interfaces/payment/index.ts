@@ -3,3 +3,7 @@
  */
 export * from './IPayment';
 
+export * from './ICheckoutSession';
+export * from './IPlanChangePreview';
+export * from './IEntitlements';
+export * from './IPlan';